@@ -0,0 +1,16 @@
+module.exports = {
+  transform: {
+    '^.+\\.[jt]s$': [
+      '@swc/jest',
+      {
+        jsc: {
+          parser: { syntax: 'typescript', decorators: true },
+        },
+      },
+    ],
+  },
+  testEnvironment: 'node',
+  moduleFileExtensions: ['js', 'ts', 'json'],
+  modulePathIgnorePatterns: ['dist/', '<rootDir>/.medusa/'],
+  testMatch: ['**/src/**/__tests__/**/*.unit.spec.[jt]s'],
+}
@@ -0,0 +1,354 @@
+import { Button, Checkbox, Hint, Input, Label, Switch } from '@medusajs/ui'
+import { useState } from 'react'
+import { sdk } from '../lib/sdk'
+
+export type DHLPricingRuleForm = {
+  id?: string
+  name: string
+  is_enabled: boolean
+  priority: number
+  option_keys: string[]
+  country_codes: string[]
+  customer_group_ids: string[]
+  min_subtotal: number | null
+  max_subtotal: number | null
+  handling_fee: number
+  markup_percentage: number
+  round_ending: number | null
+  free_shipping: boolean
+}
+
+type PreviewResult = {
+  dhl_price: number
+  amount: number
+  applied_rules: { id?: string; name: string }[]
+}
+
+const emptyRule: DHLPricingRuleForm = {
+  name: '',
+  is_enabled: true,
+  priority: 0,
+  option_keys: [],
+  country_codes: [],
+  customer_group_ids: [],
+  min_subtotal: null,
+  max_subtotal: null,
+  handling_fee: 0,
+  markup_percentage: 0,
+  round_ending: null,
+  free_shipping: false,
+}
+
+const toList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+const toNumberOrNull = (value: string) => (value === '' ? null : Number(value))
+
+type PricingRulesSectionProps = {
+  rules: DHLPricingRuleForm[]
+  onChange: (rules: DHLPricingRuleForm[]) => void
+}
+
+/**
+ * Manages the pricing rules applied to DHL rates and previews them with a sample cart.
+ */
+export const PricingRulesSection = ({ rules, onChange }: PricingRulesSectionProps) => {
+  const [sample, setSample] = useState({
+    dhl_price: 6.5,
+    option_key: 'DOOR',
+    country_code: 'NL',
+    subtotal: 40,
+    customer_group_ids: '',
+  })
+  const [preview, setPreview] = useState<PreviewResult | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+
+  const updateRule = (index: number, changes: Partial<DHLPricingRuleForm>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+  }
+
+  const runPreview = async () => {
+    setPreviewError(null)
+    try {
+      const result = await sdk.client.fetch<PreviewResult>('/admin/dhl/pricing-rules/preview', {
+        method: 'POST',
+        body: {
+          ...sample,
+          customer_group_ids: toList(sample.customer_group_ids),
+          rules,
+        },
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+      setPreview(result)
+    } catch (error) {
+      setPreview(null)
+      setPreviewError('Failed to preview the pricing rules.')
+      console.error(error)
+    }
+  }
+
+  return (
+    <>
+      <div className="border-t pt-6 mt-2">
+        <h3 className="font-semibold mb-4">Pricing Rules</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Adjust the DHL rate after the parcels are packed. Matching rules are applied by priority:
+          the markup first, then the handling fee and the rounding. A matching free shipping rule
+          makes shipping free. Leave a scope empty to match everything.
+        </p>
+      </div>
+
+      {rules.map((rule, index) => (
+        <div
+          key={rule.id ?? `new-${index}`}
+          className="flex flex-col gap-y-4 border rounded-md p-4"
+        >
+          <div className="flex items-center justify-between">
+            <p className="font-medium">{rule.name || `Rule ${index + 1}`}</p>
+            <div className="flex items-center gap-x-4">
+              <Switch
+                id={`rules_${index}_is_enabled`}
+                checked={rule.is_enabled}
+                onCheckedChange={(checked) => updateRule(index, { is_enabled: checked })}
+              />
+              <Button
+                type="button"
+                size="small"
+                variant="danger"
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              >
+                Remove
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`rules_${index}_name`}>Name</Label>
+              <Input
+                id={`rules_${index}_name`}
+                className="mt-1"
+                value={rule.name}
+                onChange={(e) => updateRule(index, { name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`rules_${index}_priority`}>Priority</Label>
+              <Input
+                id={`rules_${index}_priority`}
+                type="number"
+                className="mt-1"
+                value={rule.priority}
+                onChange={(e) =>
+                  updateRule(index, { priority: Math.floor(Number(e.target.value)) })
+                }
+              />
+            </div>
+            <div>
+              <Label htmlFor={`rules_${index}_option_keys`}>DHL Options</Label>
+              <Input
+                id={`rules_${index}_option_keys`}
+                className="mt-1"
+                placeholder="DOOR, PS"
+                defaultValue={rule.option_keys.join(', ')}
+                onBlur={(e) => updateRule(index, { option_keys: toList(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`rules_${index}_country_codes`}>Destination Countries</Label>
+              <Input
+                id={`rules_${index}_country_codes`}
+                className="mt-1"
+                placeholder="NL, BE"
+                defaultValue={rule.country_codes.join(', ')}
+                onBlur={(e) =>
+                  updateRule(index, {
+                    country_codes: toList(e.target.value).map((code) => code.toUpperCase()),
+                  })
+                }
+              />
+            </div>
+            <div>
+              <Label htmlFor={`rules_${index}_customer_group_ids`}>Customer Group IDs</Label>
+              <Input
+                id={`rules_${index}_customer_group_ids`}
+                className="mt-1"
+                placeholder="cusgroup_123"
+                defaultValue={rule.customer_group_ids.join(', ')}
+                onBlur={(e) => updateRule(index, { customer_group_ids: toList(e.target.value) })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor={`rules_${index}_min_subtotal`}>Min. Subtotal</Label>
+                <Input
+                  id={`rules_${index}_min_subtotal`}
+                  type="number"
+                  min={0}
+                  className="mt-1"
+                  value={rule.min_subtotal ?? ''}
+                  onChange={(e) =>
+                    updateRule(index, { min_subtotal: toNumberOrNull(e.target.value) })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor={`rules_${index}_max_subtotal`}>Max. Subtotal</Label>
+                <Input
+                  id={`rules_${index}_max_subtotal`}
+                  type="number"
+                  min={0}
+                  className="mt-1"
+                  value={rule.max_subtotal ?? ''}
+                  onChange={(e) =>
+                    updateRule(index, { max_subtotal: toNumberOrNull(e.target.value) })
+                  }
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor={`rules_${index}_markup_percentage`}>Markup (%)</Label>
+              <Input
+                id={`rules_${index}_markup_percentage`}
+                type="number"
+                className="mt-1"
+                disabled={rule.free_shipping}
+                value={rule.markup_percentage}
+                onChange={(e) => updateRule(index, { markup_percentage: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`rules_${index}_handling_fee`}>Handling Fee</Label>
+              <Input
+                id={`rules_${index}_handling_fee`}
+                type="number"
+                step="0.01"
+                className="mt-1"
+                disabled={rule.free_shipping}
+                value={rule.handling_fee}
+                onChange={(e) => updateRule(index, { handling_fee: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`rules_${index}_round_ending`}>Round Up To Ending</Label>
+              <Input
+                id={`rules_${index}_round_ending`}
+                type="number"
+                step="0.01"
+                min={0}
+                max={0.99}
+                className="mt-1"
+                placeholder="0.95"
+                disabled={rule.free_shipping}
+                value={rule.round_ending ?? ''}
+                onChange={(e) =>
+                  updateRule(index, { round_ending: toNumberOrNull(e.target.value) })
+                }
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Checkbox
+                id={`rules_${index}_free_shipping`}
+                checked={rule.free_shipping}
+                onCheckedChange={(checked) =>
+                  updateRule(index, { free_shipping: checked === true })
+                }
+              />
+              <Label htmlFor={`rules_${index}_free_shipping`}>Free shipping</Label>
+            </div>
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="secondary"
+        className="w-fit"
+        onClick={() => onChange([...rules, { ...emptyRule }])}
+      >
+        Add pricing rule
+      </Button>
+
+      <div className="flex flex-col gap-y-4 border rounded-md p-4">
+        <p className="font-medium">Preview</p>
+        <Hint>Preview the shipping price of a sample cart with the rules above.</Hint>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="preview_dhl_price">DHL Rate</Label>
+            <Input
+              id="preview_dhl_price"
+              type="number"
+              step="0.01"
+              min={0}
+              className="mt-1"
+              value={sample.dhl_price}
+              onChange={(e) =>
+                setSample((prev) => ({ ...prev, dhl_price: Number(e.target.value) }))
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="preview_subtotal">Cart Subtotal</Label>
+            <Input
+              id="preview_subtotal"
+              type="number"
+              step="0.01"
+              min={0}
+              className="mt-1"
+              value={sample.subtotal}
+              onChange={(e) => setSample((prev) => ({ ...prev, subtotal: Number(e.target.value) }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="preview_option_key">DHL Option</Label>
+            <Input
+              id="preview_option_key"
+              className="mt-1"
+              value={sample.option_key}
+              onChange={(e) => setSample((prev) => ({ ...prev, option_key: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="preview_country_code">Destination Country</Label>
+            <Input
+              id="preview_country_code"
+              className="mt-1"
+              maxLength={2}
+              value={sample.country_code}
+              onChange={(e) =>
+                setSample((prev) => ({ ...prev, country_code: e.target.value.toUpperCase() }))
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="preview_customer_group_ids">Customer Group IDs</Label>
+            <Input
+              id="preview_customer_group_ids"
+              className="mt-1"
+              value={sample.customer_group_ids}
+              onChange={(e) =>
+                setSample((prev) => ({ ...prev, customer_group_ids: e.target.value }))
+              }
+            />
+          </div>
+        </div>
+        <Button type="button" variant="secondary" className="w-fit" onClick={runPreview}>
+          Preview price
+        </Button>
+        {preview && (
+          <p className="text-sm">
+            DHL rate {preview.dhl_price.toFixed(2)} becomes{' '}
+            <span className="font-semibold">{preview.amount.toFixed(2)}</span>
+            {preview.applied_rules.length
+              ? ` (${preview.applied_rules.map((rule) => rule.name).join(', ')})`
+              : ' (no matching rules)'}
+          </p>
+        )}
+        {previewError && <p className="text-sm text-ui-fg-error">{previewError}</p>}
+      </div>
+    </>
+  )
+}
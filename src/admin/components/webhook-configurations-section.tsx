@@ -0,0 +1,178 @@
+import { Button, Hint, Input, Label } from '@medusajs/ui'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { sdk } from '../lib/sdk'
+
+type WebhookConfiguration = {
+  id: string
+  name: string
+  url: string | null
+}
+
+type WebhookConfigurationsResponse = {
+  configurations: WebhookConfiguration[]
+  last_received_at: string | null
+}
+
+type WebhookTestResponse = {
+  tracker_code: string
+  requested_at: string
+}
+
+type WebhookConfigurationsSectionProps = {
+  /**
+   * Called after registering, as a new webhook API key and header were stored.
+   */
+  onRegistered: () => void | Promise<void>
+}
+
+/**
+ * Registers the webhook with DHL's Track & Trace Pusher and manages its configurations.
+ */
+export const WebhookConfigurationsSection = ({
+  onRegistered,
+}: WebhookConfigurationsSectionProps) => {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<WebhookConfigurationsResponse>('/admin/dhl/webhook-configurations'),
+    queryKey: ['dhl-webhook-configurations'],
+    retry: false,
+  })
+
+  const [url, setUrl] = useState(`${window.location.origin}/store/dhl/webhook`)
+  const [test, setTest] = useState<WebhookTestResponse | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['dhl-webhook-configurations'] }),
+      queryClient.invalidateQueries({ queryKey: ['dhl-webhook-stats'] }),
+    ])
+
+  const register = async () => {
+    setMessage(null)
+    try {
+      await sdk.client.fetch('/admin/dhl/webhook-configurations', {
+        method: 'POST',
+        body: { url },
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+      await onRegistered()
+      await refresh()
+      setMessage('The webhook was registered and its API key was saved.')
+    } catch (error) {
+      setMessage('Failed to register the webhook with DHL.')
+      console.error(error)
+    }
+  }
+
+  const remove = async (id: string) => {
+    setMessage(null)
+    try {
+      await sdk.client.fetch(`/admin/dhl/webhook-configurations/${id}`, { method: 'DELETE' })
+      await refresh()
+    } catch (error) {
+      setMessage('Failed to delete the configuration.')
+      console.error(error)
+    }
+  }
+
+  const sendTest = async (id: string) => {
+    setMessage(null)
+    try {
+      const result = await sdk.client.fetch<WebhookTestResponse>(
+        `/admin/dhl/webhook-configurations/${id}/test`,
+        {
+          method: 'POST',
+          body: {},
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        },
+      )
+      setTest(result)
+    } catch (error) {
+      setTest(null)
+      setMessage('Failed to request a test push from DHL.')
+      console.error(error)
+    }
+  }
+
+  const lastReceivedAt = data?.last_received_at ? new Date(data.last_received_at) : null
+  const isReached = !!test && !!lastReceivedAt && lastReceivedAt >= new Date(test.requested_at)
+
+  return (
+    <>
+      <div className="flex flex-col gap-y-4 border rounded-md p-4">
+        <div>
+          <Label htmlFor="webhook_url">Webhook URL</Label>
+          <Hint className="mt-1 block pb-1">
+            The public HTTPS URL of the webhook. Registering generates a new API key; the previous
+            key stays accepted as the secondary key until you register again.
+          </Hint>
+          <Input
+            id="webhook_url"
+            className="mt-1"
+            autoComplete="off"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+        </div>
+        <Button type="button" variant="secondary" className="w-fit" onClick={register}>
+          Register webhook with DHL
+        </Button>
+      </div>
+
+      {isLoading && <p className="text-sm">Loading configurations...</p>}
+      {(data?.configurations ?? []).map((configuration) => (
+        <div
+          key={configuration.id}
+          className="flex items-center justify-between border rounded-md p-4"
+        >
+          <div>
+            <p className="font-medium">{configuration.name}</p>
+            <p className="text-sm text-gray-600">{configuration.url ?? 'No Track & Trace URL'}</p>
+          </div>
+          <div className="flex items-center gap-x-2">
+            <Button
+              type="button"
+              size="small"
+              variant="secondary"
+              onClick={() => sendTest(configuration.id)}
+            >
+              Send test push
+            </Button>
+            <Button
+              type="button"
+              size="small"
+              variant="danger"
+              onClick={() => remove(configuration.id)}
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Hint>
+          Last push received: {lastReceivedAt ? lastReceivedAt.toLocaleString() : 'never'}
+        </Hint>
+        <Button type="button" size="small" variant="transparent" onClick={refresh}>
+          Refresh
+        </Button>
+      </div>
+      {test && (
+        <p className="text-sm">
+          {isReached
+            ? `DHL reached the webhook with the status of parcel ${test.tracker_code}.`
+            : `DHL will push the status of parcel ${test.tracker_code}. Refresh to check that it arrived.`}
+        </p>
+      )}
+      {message && <p className="text-sm">{message}</p>}
+    </>
+  )
+}
@@ -0,0 +1,303 @@
+import {
+  Alert,
+  Badge,
+  Button,
+  Checkbox,
+  Container,
+  Heading,
+  Hint,
+  Select,
+  Table,
+} from '@medusajs/ui'
+import { DocumentText } from '@medusajs/icons'
+import { defineRouteConfig } from '@medusajs/admin-sdk'
+import { sdk } from '../../lib/sdk'
+import { useQuery, QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useState, useEffect } from 'react'
+
+type StockLocation = {
+  id: string
+  name: string
+}
+
+type UnprintedLabelFulfillment = {
+  id: string
+  created_at: string
+  order_id: string | null
+  order_display_id: number | null
+  labels: {
+    tracking_number: string
+    parcel_type: string | null
+    format: 'pdf' | 'zpl'
+  }[]
+}
+
+type PrintJob = {
+  format: 'pdf' | 'zpl'
+  content: string
+  labels: number
+}
+
+const queryClient = new QueryClient()
+
+/**
+ * Opens a PDF print job in a new tab, or downloads a ZPL print job for the printer.
+ */
+const openPrintJob = (printJob: PrintJob) => {
+  const bytes = Uint8Array.from(atob(printJob.content), (char) => char.charCodeAt(0))
+  const url = URL.createObjectURL(
+    new Blob([bytes], {
+      type: printJob.format === 'zpl' ? 'application/octet-stream' : 'application/pdf',
+    }),
+  )
+
+  if (printJob.format === 'pdf') {
+    window.open(url, '_blank', 'noopener,noreferrer')
+    return
+  }
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `dhl-labels-${new Date().toISOString().slice(0, 10)}.zpl`
+  link.click()
+}
+
+const DHLLabelsPageInner = () => {
+  const [locationId, setLocationId] = useState<string>('')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  // The batch that was printed last, so it can be marked as printed once the labels came out right
+  const [printedIds, setPrintedIds] = useState<string[]>([])
+  const [alert, setAlert] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const [isPrinting, setIsPrinting] = useState(false)
+  const [isMarking, setIsMarking] = useState(false)
+
+  const { data: stockLocationsData } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<{ stock_locations: StockLocation[] }>('/admin/stock-locations', {
+        query: { fields: 'id,name', limit: 100 },
+      }),
+    queryKey: ['dhl-stock-locations'],
+  })
+  const stockLocations = stockLocationsData?.stock_locations ?? []
+
+  useEffect(() => {
+    if (!locationId && stockLocations.length) {
+      setLocationId(stockLocations[0].id)
+    }
+  }, [locationId, stockLocations])
+
+  useEffect(() => {
+    setSelectedIds([])
+    setPrintedIds([])
+  }, [locationId])
+
+  const {
+    data: labelsData,
+    isLoading: isLoadingLabels,
+    error: labelsError,
+    refetch,
+  } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<{ fulfillments: UnprintedLabelFulfillment[] }>('/admin/dhl/labels', {
+        query: { stock_location_id: locationId },
+      }),
+    queryKey: ['dhl-unprinted-labels', locationId],
+    enabled: !!locationId,
+  })
+  const fulfillments = labelsData?.fulfillments ?? []
+  const allSelected = fulfillments.length > 0 && selectedIds.length === fulfillments.length
+
+  const toggleSelected = (fulfillmentId: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...prev, fulfillmentId] : prev.filter((id) => id !== fulfillmentId),
+    )
+  }
+
+  const handlePrint = async () => {
+    setAlert(null)
+    setIsPrinting(true)
+    try {
+      // Print in the order of the list, oldest first
+      const fulfillmentIds = fulfillments
+        .map((fulfillment) => fulfillment.id)
+        .filter((id) => selectedIds.includes(id))
+      const result = await sdk.client.fetch<{ print_job: PrintJob }>('/admin/dhl/labels/print', {
+        method: 'POST',
+        body: { stock_location_id: locationId, fulfillment_ids: fulfillmentIds },
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+      openPrintJob(result.print_job)
+      setPrintedIds(fulfillmentIds)
+      setAlert({
+        type: 'success',
+        message: `Print job with ${result.print_job.labels} labels created. Mark the batch as printed once the labels came out right.`,
+      })
+    } catch (error) {
+      setAlert({ type: 'error', message: 'Failed to create the DHL print job.' })
+      console.error(error)
+    } finally {
+      setIsPrinting(false)
+    }
+  }
+
+  const handleMarkPrinted = async () => {
+    setAlert(null)
+    setIsMarking(true)
+    try {
+      const result = await sdk.client.fetch<{ printed: number }>('/admin/dhl/labels/printed', {
+        method: 'POST',
+        body: { fulfillment_ids: printedIds },
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+      setAlert({ type: 'success', message: `${result.printed} fulfillments marked as printed.` })
+      setSelectedIds((prev) => prev.filter((id) => !printedIds.includes(id)))
+      setPrintedIds([])
+      await refetch()
+    } catch (error) {
+      setAlert({ type: 'error', message: 'Failed to mark the labels as printed.' })
+      console.error(error)
+    } finally {
+      setIsMarking(false)
+    }
+  }
+
+  return (
+    <Container className="divide-y p-0">
+      {alert && (
+        <div className="px-6 py-4">
+          <Alert variant={alert.type === 'success' ? 'success' : 'error'} dismissible={true}>
+            {alert.message}
+          </Alert>
+        </div>
+      )}
+      <div className="flex items-center justify-between px-6 py-4">
+        <Heading level="h1">DHL Labels</Heading>
+        <div className="w-64">
+          <Select value={locationId} onValueChange={setLocationId}>
+            <Select.Trigger>
+              <Select.Value placeholder="Select stock location" />
+            </Select.Trigger>
+            <Select.Content>
+              {stockLocations.map((location) => (
+                <Select.Item key={location.id} value={location.id}>
+                  {location.name}
+                </Select.Item>
+              ))}
+            </Select.Content>
+          </Select>
+        </div>
+      </div>
+
+      <div className="px-6 py-4">
+        <h3 className="font-semibold mb-4">Labels to Print</h3>
+        {isLoadingLabels && locationId && <p className="text-sm">Loading...</p>}
+        {labelsError && <p className="text-sm text-ui-fg-error">Failed to fetch DHL labels.</p>}
+        {labelsData && !fulfillments.length && (
+          <p className="text-sm text-gray-600">All labels of this stock location are printed.</p>
+        )}
+        {fulfillments.length > 0 && (
+          <Table>
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) =>
+                      setSelectedIds(
+                        checked === true ? fulfillments.map((fulfillment) => fulfillment.id) : [],
+                      )
+                    }
+                  />
+                </Table.HeaderCell>
+                <Table.HeaderCell>Order</Table.HeaderCell>
+                <Table.HeaderCell>Created</Table.HeaderCell>
+                <Table.HeaderCell>Parcels</Table.HeaderCell>
+                <Table.HeaderCell>Format</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {fulfillments.map((fulfillment) => (
+                <Table.Row key={fulfillment.id}>
+                  <Table.Cell>
+                    <Checkbox
+                      checked={selectedIds.includes(fulfillment.id)}
+                      onCheckedChange={(checked) =>
+                        toggleSelected(fulfillment.id, checked === true)
+                      }
+                    />
+                  </Table.Cell>
+                  <Table.Cell>
+                    {fulfillment.order_id ? (
+                      <a
+                        href={`/app/orders/${fulfillment.order_id}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        #{fulfillment.order_display_id ?? fulfillment.order_id}
+                      </a>
+                    ) : (
+                      '-'
+                    )}
+                  </Table.Cell>
+                  <Table.Cell>{new Date(fulfillment.created_at).toLocaleString()}</Table.Cell>
+                  <Table.Cell>
+                    {fulfillment.labels
+                      .map((label) => label.parcel_type ?? label.tracking_number)
+                      .join(', ')}
+                  </Table.Cell>
+                  <Table.Cell>
+                    <Badge size="2xsmall">
+                      {fulfillment.labels[0]?.format.toUpperCase() ?? 'PDF'}
+                    </Badge>
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-y-4 px-6 py-4">
+        <Hint>
+          The selected labels are merged into one PDF, or one ZPL file for thermal printers. Labels
+          stay in this list until their batch is marked as printed.
+        </Hint>
+        <div className="flex gap-x-2">
+          <Button
+            type="button"
+            disabled={!selectedIds.length || isPrinting}
+            isLoading={isPrinting}
+            onClick={handlePrint}
+          >
+            Print {selectedIds.length} selected
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            disabled={!printedIds.length || isMarking}
+            isLoading={isMarking}
+            onClick={handleMarkPrinted}
+          >
+            Mark batch as printed
+          </Button>
+        </div>
+      </div>
+    </Container>
+  )
+}
+
+export const config = defineRouteConfig({
+  label: 'DHL Labels',
+  icon: DocumentText,
+})
+
+const DHLLabelsPage = () => (
+  <QueryClientProvider client={queryClient}>
+    <DHLLabelsPageInner />
+  </QueryClientProvider>
+)
+
+export default DHLLabelsPage
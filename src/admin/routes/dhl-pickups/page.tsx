@@ -0,0 +1,277 @@
+import {
+  Alert,
+  Badge,
+  Button,
+  Container,
+  Heading,
+  Hint,
+  Input,
+  Label,
+  Select,
+  Table,
+} from '@medusajs/ui'
+import { HandTruck } from '@medusajs/icons'
+import { defineRouteConfig } from '@medusajs/admin-sdk'
+import { sdk } from '../../lib/sdk'
+import { useQuery, QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useState, useEffect } from 'react'
+
+type StockLocation = {
+  id: string
+  name: string
+}
+
+type DHLPickup = {
+  id: string
+  pickupDate: string
+  numberOfPackages?: number
+  description?: string
+  confirmationNumber?: string
+  statusList?: { status: string; timestamp: string }[]
+}
+
+type DHLPickupsResponse = {
+  pickups: DHLPickup[]
+  pickup_date: string | null
+  expected_parcels: number
+  errors?: string[]
+}
+
+const queryClient = new QueryClient()
+
+const DHLPickupsPageInner = () => {
+  const [locationId, setLocationId] = useState<string>('')
+  const [form, setForm] = useState({
+    pickup_date: '',
+    time_from: '',
+    time_to: '',
+    number_of_packages: '',
+    description: '',
+  })
+  const [alert, setAlert] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const [isBooking, setIsBooking] = useState(false)
+
+  const { data: stockLocationsData } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<{ stock_locations: StockLocation[] }>('/admin/stock-locations', {
+        query: { fields: 'id,name', limit: 100 },
+      }),
+    queryKey: ['dhl-stock-locations'],
+  })
+  const stockLocations = stockLocationsData?.stock_locations ?? []
+
+  useEffect(() => {
+    if (!locationId && stockLocations.length) {
+      setLocationId(stockLocations[0].id)
+    }
+  }, [locationId, stockLocations])
+
+  const {
+    data: pickupsData,
+    isLoading: isLoadingPickups,
+    error: pickupsError,
+    refetch,
+  } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<DHLPickupsResponse>('/admin/dhl/pickups', {
+        query: { stock_location_id: locationId },
+      }),
+    queryKey: ['dhl-pickups', locationId],
+    enabled: !!locationId,
+  })
+
+  useEffect(() => {
+    if (pickupsData?.pickup_date) {
+      setForm((prev) => ({ ...prev, pickup_date: prev.pickup_date || pickupsData.pickup_date! }))
+    }
+  }, [pickupsData])
+
+  const handleBook = async () => {
+    setAlert(null)
+    setIsBooking(true)
+    try {
+      const result = await sdk.client.fetch<{ expected_parcels: number }>('/admin/dhl/pickups', {
+        method: 'POST',
+        body: {
+          stock_location_id: locationId,
+          ...(form.pickup_date ? { pickup_date: form.pickup_date } : {}),
+          ...(form.time_from && form.time_to
+            ? { time_slot: { from: form.time_from, to: form.time_to } }
+            : {}),
+          ...(form.number_of_packages
+            ? { number_of_packages: Math.floor(Number(form.number_of_packages)) }
+            : {}),
+          ...(form.description ? { description: form.description } : {}),
+        },
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+      setAlert({
+        type: 'success',
+        message: `DHL pickup booked (${form.number_of_packages || result.expected_parcels} parcels).`,
+      })
+      setForm((prev) => ({ ...prev, number_of_packages: '', description: '' }))
+      await refetch()
+    } catch (error) {
+      setAlert({ type: 'error', message: 'Failed to book the DHL pickup.' })
+      console.error(error)
+    } finally {
+      setIsBooking(false)
+    }
+  }
+
+  return (
+    <Container className="divide-y p-0">
+      {alert && (
+        <div className="px-6 py-4">
+          <Alert variant={alert.type === 'success' ? 'success' : 'error'} dismissible={true}>
+            {alert.message}
+          </Alert>
+        </div>
+      )}
+      <div className="flex items-center justify-between px-6 py-4">
+        <Heading level="h1">DHL Pickups</Heading>
+        <div className="w-64">
+          <Select value={locationId} onValueChange={setLocationId}>
+            <Select.Trigger>
+              <Select.Value placeholder="Select stock location" />
+            </Select.Trigger>
+            <Select.Content>
+              {stockLocations.map((location) => (
+                <Select.Item key={location.id} value={location.id}>
+                  {location.name}
+                </Select.Item>
+              ))}
+            </Select.Content>
+          </Select>
+        </div>
+      </div>
+
+      <div className="px-6 py-4">
+        <h3 className="font-semibold mb-4">Upcoming Pickups</h3>
+        {isLoadingPickups && locationId && <p className="text-sm">Loading...</p>}
+        {pickupsError && <p className="text-sm text-ui-fg-error">Failed to fetch DHL pickups.</p>}
+        {pickupsData && !pickupsData.pickups.length && (
+          <p className="text-sm text-gray-600">No upcoming pickups for this stock location.</p>
+        )}
+        {pickupsData && pickupsData.pickups.length > 0 && (
+          <Table>
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Date</Table.HeaderCell>
+                <Table.HeaderCell>Parcels</Table.HeaderCell>
+                <Table.HeaderCell>Confirmation</Table.HeaderCell>
+                <Table.HeaderCell>Status</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {pickupsData.pickups.map((pickup) => (
+                <Table.Row key={pickup.id}>
+                  <Table.Cell>{pickup.pickupDate}</Table.Cell>
+                  <Table.Cell>{pickup.numberOfPackages ?? '-'}</Table.Cell>
+                  <Table.Cell>{pickup.confirmationNumber ?? '-'}</Table.Cell>
+                  <Table.Cell>
+                    <Badge size="2xsmall">
+                      {pickup.statusList?.[pickup.statusList.length - 1]?.status ?? 'Requested'}
+                    </Badge>
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-y-4 px-6 py-4">
+        <h3 className="font-semibold">Book a Pickup</h3>
+        {pickupsData?.pickup_date && (
+          <Hint>
+            {pickupsData.expected_parcels} labelled DHL parcels ship from this stock location on{' '}
+            {pickupsData.pickup_date}.
+          </Hint>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="pickup_date">Date</Label>
+            <Input
+              id="pickup_date"
+              type="date"
+              className="mt-1"
+              value={form.pickup_date}
+              onChange={(e) => setForm((prev) => ({ ...prev, pickup_date: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="number_of_packages">Parcels</Label>
+            <Input
+              id="number_of_packages"
+              type="number"
+              min={1}
+              className="mt-1"
+              placeholder={String(pickupsData?.expected_parcels ?? '')}
+              value={form.number_of_packages}
+              onChange={(e) => setForm((prev) => ({ ...prev, number_of_packages: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="time_from">From</Label>
+            <Input
+              id="time_from"
+              type="time"
+              className="mt-1"
+              value={form.time_from}
+              onChange={(e) => setForm((prev) => ({ ...prev, time_from: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="time_to">Until</Label>
+            <Input
+              id="time_to"
+              type="time"
+              className="mt-1"
+              value={form.time_to}
+              onChange={(e) => setForm((prev) => ({ ...prev, time_to: e.target.value }))}
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="description">Description</Label>
+          <Input
+            id="description"
+            className="mt-1"
+            maxLength={255}
+            value={form.description}
+            onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+          />
+        </div>
+        <Hint>
+          Leave the parcels empty to use the expected parcels for the date. Time slots are only
+          available in the Netherlands.
+        </Hint>
+        <Button
+          type="button"
+          className="w-fit"
+          disabled={!locationId || isBooking}
+          isLoading={isBooking}
+          onClick={handleBook}
+        >
+          Book pickup
+        </Button>
+      </div>
+    </Container>
+  )
+}
+
+export const config = defineRouteConfig({
+  label: 'DHL Pickups',
+  icon: HandTruck,
+})
+
+const DHLPickupsPage = () => (
+  <QueryClientProvider client={queryClient}>
+    <DHLPickupsPageInner />
+  </QueryClientProvider>
+)
+
+export default DHLPickupsPage
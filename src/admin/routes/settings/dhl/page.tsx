@@ -1,6 +1,19 @@
-import { Container, Hint, Select, Input, Label, Switch, Button, Alert } from '@medusajs/ui'
+import {
+  Container,
+  Hint,
+  Select,
+  Input,
+  Label,
+  Switch,
+  Button,
+  Alert,
+  Checkbox,
+  Badge,
+} from '@medusajs/ui'
 import { defineRouteConfig } from '@medusajs/admin-sdk'
 import { sdk } from '../../../lib/sdk'
+import { DHLPricingRuleForm, PricingRulesSection } from '../../../components/pricing-rules-section'
+import { WebhookConfigurationsSection } from '../../../components/webhook-configurations-section'
 import { useQuery, QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { useState, useEffect } from 'react'
 
@@ -14,8 +27,65 @@ const initialState = {
   item_weight_unit: 'g' as 'g' | 'kg',
   webhook_api_key: '' as string | null,
   webhook_api_key_header: 'Authorization',
+  webhook_secondary_api_key: '' as string | null,
+  webhook_allowed_ips: [] as string[],
+  webhook_rate_limit_per_minute: 600,
+  webhook_max_event_age_minutes: null as number | null,
+  use_drafts: false,
+  draft_promotion_delay_minutes: null as number | null,
+  shipping_cutoff_time: '16:00',
+  non_shipping_days: ['saturday', 'sunday'] as string[],
+  shipping_timezone: 'Europe/Amsterdam',
+  api_environment: 'production' as 'production' | 'acceptance' | 'custom',
+  api_base_url: null as string | null,
+  capabilities_cache_ttl_seconds: 300,
+  price_tax_mode: 'gross' as 'gross' | 'net',
+  business_price_tax_mode: null as 'gross' | 'net' | null,
+  auto_pickup_enabled: false,
+  pickup_time_from: null as string | null,
+  pickup_time_to: null as string | null,
+  label_format: 'pdf' as LabelFormat,
+  label_page_size: 'a6' as LabelPageSize,
+  label_retention_days: null as number | null,
+  insurance_threshold: null as number | null,
+  reference_template: '{display_id}',
 }
 
+type LabelFormat = 'pdf' | 'zpl'
+
+type LabelPageSize = 'a6' | 'a4'
+
+type DHLLocationLabelFormatForm = {
+  id?: string
+  stock_location_id: string
+  label_format: LabelFormat
+  label_page_size: LabelPageSize
+}
+
+type DHLAccountForm = {
+  id?: string
+  name: string
+  user_id: string
+  api_key: string
+  account_id: string
+  stock_location_ids: string[]
+}
+
+type StockLocation = {
+  id: string
+  name: string
+}
+
+const emptyAccount: DHLAccountForm = {
+  name: '',
+  user_id: '',
+  api_key: '',
+  account_id: '',
+  stock_location_ids: [],
+}
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+
 const queryClient = new QueryClient()
 
 const DHLSettingsPageInner = () => {
@@ -24,9 +94,54 @@ const DHLSettingsPageInner = () => {
     queryFn: () => sdk.client.fetch('/admin/dhl'),
     queryKey: ['dhl-config'],
   })
+  const { data: accountsData, isLoading: isLoadingAccounts } = useQuery({
+    queryFn: () => sdk.client.fetch<{ accounts: DHLAccountForm[] }>('/admin/dhl/accounts'),
+    queryKey: ['dhl-accounts'],
+  })
+  const { data: stockLocationsData } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<{ stock_locations: StockLocation[] }>('/admin/stock-locations', {
+        query: { fields: 'id,name', limit: 100 },
+      }),
+    queryKey: ['dhl-stock-locations'],
+  })
+  const { data: pricingRulesData, isLoading: isLoadingPricingRules } = useQuery({
+    queryFn: () => sdk.client.fetch<{ rules: DHLPricingRuleForm[] }>('/admin/dhl/pricing-rules'),
+    queryKey: ['dhl-pricing-rules'],
+  })
+  const { data: labelFormatsData, isLoading: isLoadingLabelFormats } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<{ label_formats: DHLLocationLabelFormatForm[] }>('/admin/dhl/label-formats'),
+    queryKey: ['dhl-label-formats'],
+  })
+  const { data: environmentData } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<{ environment: string; base_url: string }>('/admin/dhl/environment'),
+    queryKey: ['dhl-environment'],
+  })
+  const { data: capabilitiesCacheData } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<{ hits: number; misses: number; shared: number; store: string }>(
+        '/admin/dhl/capabilities-cache',
+      ),
+    queryKey: ['dhl-capabilities-cache'],
+  })
+  const { data: webhookStatsData } = useQuery({
+    queryFn: () =>
+      sdk.client.fetch<{
+        accepted: number
+        failures: Record<string, number>
+        last_failure_at: string | null
+        last_failure_reason: string | null
+      }>('/admin/dhl/webhook-stats'),
+    queryKey: ['dhl-webhook-stats'],
+  })
 
   // Merge fetched data with initial state
   const [form, setForm] = useState(initialState)
+  const [accounts, setAccounts] = useState<DHLAccountForm[]>([])
+  const [pricingRules, setPricingRules] = useState<DHLPricingRuleForm[]>([])
+  const [labelFormats, setLabelFormats] = useState<DHLLocationLabelFormatForm[]>([])
   const [alert, setAlert] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
 
   useEffect(() => {
@@ -38,6 +153,70 @@ const DHLSettingsPageInner = () => {
     }
   }, [data])
 
+  useEffect(() => {
+    if (accountsData) {
+      setAccounts(accountsData.accounts)
+    }
+  }, [accountsData])
+
+  useEffect(() => {
+    if (pricingRulesData) {
+      setPricingRules(pricingRulesData.rules)
+    }
+  }, [pricingRulesData])
+
+  useEffect(() => {
+    if (labelFormatsData) {
+      setLabelFormats(labelFormatsData.label_formats)
+    }
+  }, [labelFormatsData])
+
+  const updateAccount = (index: number, changes: Partial<DHLAccountForm>) => {
+    setAccounts((prev) =>
+      prev.map((account, i) => (i === index ? { ...account, ...changes } : account)),
+    )
+  }
+
+  const toggleAccountLocation = (index: number, locationId: string, checked: boolean) => {
+    // A stock location ships with one account, so it's removed from the other accounts
+    setAccounts((prev) =>
+      prev.map((account, i) => ({
+        ...account,
+        stock_location_ids:
+          i === index && checked
+            ? [...account.stock_location_ids, locationId]
+            : account.stock_location_ids.filter((id) => id !== locationId),
+      })),
+    )
+  }
+
+  const updateLocationLabelFormat = (locationId: string, value: string) => {
+    // Locations without a label format print with the default one above
+    setLabelFormats((prev) => {
+      const existing = prev.find((labelFormat) => labelFormat.stock_location_id === locationId)
+      const others = prev.filter((labelFormat) => labelFormat.stock_location_id !== locationId)
+      if (value === 'default') {
+        return others
+      }
+      const [label_format, label_page_size] = value.split('-') as [LabelFormat, LabelPageSize]
+      return [
+        ...others,
+        { id: existing?.id, stock_location_id: locationId, label_format, label_page_size },
+      ]
+    })
+  }
+
+  // Registering the webhook stores a new API key, which saving the form must not overwrite
+  const loadWebhookApiKey = async () => {
+    const saved = await sdk.client.fetch<typeof initialState>('/admin/dhl')
+    setForm((prev) => ({
+      ...prev,
+      webhook_api_key: saved.webhook_api_key,
+      webhook_api_key_header: saved.webhook_api_key_header,
+      webhook_secondary_api_key: saved.webhook_secondary_api_key,
+    }))
+  }
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target
     setForm((prev) => ({
@@ -46,9 +225,21 @@ const DHLSettingsPageInner = () => {
     }))
   }
 
-  const isValid = form.user_id.trim() && form.api_key.trim() && form.account_id.trim()
+  const isValid =
+    form.user_id.trim() &&
+    form.api_key.trim() &&
+    form.account_id.trim() &&
+    (form.api_environment !== 'custom' || form.api_base_url?.trim()) &&
+    accounts.every(
+      (account) =>
+        account.name.trim() &&
+        account.user_id.trim() &&
+        account.api_key.trim() &&
+        account.account_id.trim(),
+    ) &&
+    pricingRules.every((rule) => rule.name.trim())
 
-  if (isLoading) {
+  if (isLoading || isLoadingAccounts || isLoadingPricingRules || isLoadingLabelFormats) {
     return (
       <Container className="divide-y p-0">
         <div className="px-6 py-4">Loading...</div>
@@ -66,6 +257,39 @@ const DHLSettingsPageInner = () => {
           'Content-Type': 'application/json',
         },
       })
+      const savedAccounts = await sdk.client.fetch<{ accounts: DHLAccountForm[] }>(
+        '/admin/dhl/accounts',
+        {
+          method: 'POST',
+          body: { accounts },
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        },
+      )
+      setAccounts(savedAccounts.accounts)
+      const savedPricingRules = await sdk.client.fetch<{ rules: DHLPricingRuleForm[] }>(
+        '/admin/dhl/pricing-rules',
+        {
+          method: 'POST',
+          body: { rules: pricingRules },
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        },
+      )
+      setPricingRules(savedPricingRules.rules)
+      const savedLabelFormats = await sdk.client.fetch<{
+        label_formats: DHLLocationLabelFormatForm[]
+      }>('/admin/dhl/label-formats', {
+        method: 'POST',
+        body: { label_formats: labelFormats },
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+      setLabelFormats(savedLabelFormats.label_formats)
+      await queryClient.invalidateQueries({ queryKey: ['dhl-environment'] })
       // Optionally, show a success message or refetch config
       setAlert({ type: 'success', message: 'DHL settings saved successfully.' })
 
@@ -121,6 +345,18 @@ const DHLSettingsPageInner = () => {
             eCommerce
           </text>
         </svg>
+        {environmentData && (
+          <div className="flex flex-col items-end gap-y-1">
+            <Badge color={environmentData.environment === 'production' ? 'green' : 'orange'}>
+              {environmentData.environment === 'production'
+                ? 'Production'
+                : environmentData.environment === 'acceptance'
+                  ? 'Acceptance'
+                  : 'Custom'}
+            </Badge>
+            <span className="text-sm text-gray-600">{environmentData.base_url}</span>
+          </div>
+        )}
       </div>
       <div className="flex items-center justify-between px-6 py-4">
         <p className="block">
@@ -245,14 +481,486 @@ const DHLSettingsPageInner = () => {
           </Select>
         </div>
 
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">API Environment</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Use the DHL acceptance environment or a custom base URL to test without creating real
+            shipments. Acceptance needs its own DHL credentials.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="api_environment">Environment</Label>
+          <Select
+            value={form.api_environment}
+            onValueChange={(value) =>
+              setForm((prev) => ({
+                ...prev,
+                api_environment: value as 'production' | 'acceptance' | 'custom',
+              }))
+            }
+          >
+            <Select.Trigger id="api_environment" className="mt-1">
+              <Select.Value placeholder="Select environment" />
+            </Select.Trigger>
+            <Select.Content>
+              <Select.Item value="production">Production</Select.Item>
+              <Select.Item value="acceptance">Acceptance</Select.Item>
+              <Select.Item value="custom">Custom base URL</Select.Item>
+            </Select.Content>
+          </Select>
+        </div>
+        {form.api_environment === 'custom' && (
+          <div>
+            <Label htmlFor="api_base_url">Base URL</Label>
+            <Hint className="mt-1 block pb-1">
+              The base URL of the DHL API, e.g. a local stand-in.
+            </Hint>
+            <Input
+              id="api_base_url"
+              name="api_base_url"
+              type="url"
+              className="mt-1"
+              autoComplete="off"
+              value={form.api_base_url ?? ''}
+              onChange={(e) =>
+                setForm((prev) => ({
+                  ...prev,
+                  api_base_url: e.target.value || null,
+                }))
+              }
+            />
+          </div>
+        )}
+
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">Shipping Price Taxes</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Gross prices include VAT. Net prices exclude VAT, so Medusa's tax module adds the VAT of
+            the customer's region. A shipping option can override this with a `price_tax_mode` of
+            `gross` or `net` in its data.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="price_tax_mode">Default Price</Label>
+          <Select
+            value={form.price_tax_mode}
+            onValueChange={(value) =>
+              setForm((prev) => ({ ...prev, price_tax_mode: value as 'gross' | 'net' }))
+            }
+          >
+            <Select.Trigger id="price_tax_mode" className="mt-1">
+              <Select.Value placeholder="Select price" />
+            </Select.Trigger>
+            <Select.Content>
+              <Select.Item value="gross">Gross (tax inclusive)</Select.Item>
+              <Select.Item value="net">Net (tax exclusive)</Select.Item>
+            </Select.Content>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="business_price_tax_mode">Business Carts</Label>
+          <Hint className="mt-1 block pb-1">
+            The price for carts with a company in the shipping address.
+          </Hint>
+          <Select
+            value={form.business_price_tax_mode ?? 'default'}
+            onValueChange={(value) =>
+              setForm((prev) => ({
+                ...prev,
+                business_price_tax_mode: value === 'default' ? null : (value as 'gross' | 'net'),
+              }))
+            }
+          >
+            <Select.Trigger id="business_price_tax_mode" className="mt-1">
+              <Select.Value placeholder="Select price" />
+            </Select.Trigger>
+            <Select.Content>
+              <Select.Item value="default">Same as default</Select.Item>
+              <Select.Item value="gross">Gross (tax inclusive)</Select.Item>
+              <Select.Item value="net">Net (tax exclusive)</Select.Item>
+            </Select.Content>
+          </Select>
+        </div>
+
+        <PricingRulesSection rules={pricingRules} onChange={setPricingRules} />
+
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">Insurance</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Shipments worth more than the threshold are insured for the value of their items, up to
+            the maximum DHL insures for. The insurance surcharge is included in the shipping price.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="insurance_threshold">Insure Shipments Above</Label>
+          <Hint className="mt-1 block pb-1">
+            The value of the items in euros above which shipments are insured. Leave empty to not
+            insure shipments automatically. Orders in other currencies aren't insured automatically.
+          </Hint>
+          <Input
+            id="insurance_threshold"
+            name="insurance_threshold"
+            type="number"
+            min={0}
+            step={0.01}
+            className="mt-1"
+            autoComplete="off"
+            value={form.insurance_threshold ?? ''}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                insurance_threshold:
+                  e.target.value === '' ? null : Math.max(0, Number(e.target.value)),
+              }))
+            }
+          />
+        </div>
+
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">Price Quote Cache</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            DHL capabilities are cached for a short time, so the DHL shipping options of a cart
+            share one request to DHL.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="capabilities_cache_ttl_seconds">Cache Duration (seconds)</Label>
+          <Hint className="mt-1 block pb-1">
+            How long DHL capabilities are cached. Set to 0 to disable caching.
+          </Hint>
+          <Input
+            id="capabilities_cache_ttl_seconds"
+            name="capabilities_cache_ttl_seconds"
+            type="number"
+            min={0}
+            className="mt-1"
+            autoComplete="off"
+            value={form.capabilities_cache_ttl_seconds}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                capabilities_cache_ttl_seconds: Math.max(0, Math.floor(Number(e.target.value))),
+              }))
+            }
+          />
+          {capabilitiesCacheData && (
+            <Hint className="mt-2 block">
+              {capabilitiesCacheData.hits} hits, {capabilitiesCacheData.misses} misses and{' '}
+              {capabilitiesCacheData.shared} shared requests since the server started (
+              {capabilitiesCacheData.store === 'cache-module' ? 'caching module' : 'in memory'}).
+            </Hint>
+          )}
+        </div>
+
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">Draft Shipments</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Create fulfillments as DHL drafts first. Drafts can still be cancelled in Medusa; labels
+            are only created once a draft is promoted from the order page or after the configured
+            delay.
+          </p>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="use_drafts">Create Drafts First</Label>
+            <Switch
+              id="use_drafts"
+              name="use_drafts"
+              checked={form.use_drafts}
+              onCheckedChange={(checked) => setForm((prev) => ({ ...prev, use_drafts: checked }))}
+            />
+          </div>
+          <Hint className="mb-2 mt-1">
+            Create a DHL draft instead of a shipment with labels when fulfilling an order.
+          </Hint>
+        </div>
+        <div>
+          <Label htmlFor="draft_promotion_delay_minutes">Automatic Promotion Delay (minutes)</Label>
+          <Hint className="mt-1 block pb-1">
+            Drafts are promoted to shipments automatically after this many minutes. Leave empty to
+            only promote drafts manually.
+          </Hint>
+          <Input
+            id="draft_promotion_delay_minutes"
+            name="draft_promotion_delay_minutes"
+            type="number"
+            min={0}
+            className="mt-1"
+            autoComplete="off"
+            disabled={!form.use_drafts}
+            value={form.draft_promotion_delay_minutes ?? ''}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                draft_promotion_delay_minutes:
+                  e.target.value === '' ? null : Math.max(0, Number(e.target.value)),
+              }))
+            }
+          />
+        </div>
+
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">Delivery Estimates</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            The expected delivery date is based on DHL's transit times and the first day the parcel
+            can be handed to DHL. Orders placed after the cut-off time or on a non-shipping day ship
+            on the next shipping day.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="shipping_cutoff_time">Shipping Cut-off Time</Label>
+          <Hint className="mt-1 block pb-1">
+            Orders placed after this time (HH:mm) ship on the next shipping day.
+          </Hint>
+          <Input
+            id="shipping_cutoff_time"
+            name="shipping_cutoff_time"
+            type="time"
+            className="mt-1"
+            value={form.shipping_cutoff_time}
+            onChange={handleChange}
+          />
+        </div>
+        <div>
+          <Label>Non-shipping Days</Label>
+          <Hint className="mt-1 block pb-1">Days on which no parcels are handed to DHL.</Hint>
+          <div className="mt-2 flex flex-wrap gap-4">
+            {WEEKDAYS.map((day) => (
+              <div key={day} className="flex items-center gap-2">
+                <Checkbox
+                  id={`non_shipping_days_${day}`}
+                  checked={form.non_shipping_days.includes(day)}
+                  onCheckedChange={(checked) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      non_shipping_days:
+                        checked === true
+                          ? [...prev.non_shipping_days, day]
+                          : prev.non_shipping_days.filter((d) => d !== day),
+                    }))
+                  }
+                />
+                <Label htmlFor={`non_shipping_days_${day}`} className="capitalize">
+                  {day}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="shipping_timezone">Shipping Timezone</Label>
+          <Hint className="mt-1 block pb-1">
+            The IANA timezone of your warehouse, used for the cut-off time.
+          </Hint>
+          <Input
+            id="shipping_timezone"
+            name="shipping_timezone"
+            className="mt-1"
+            autoComplete="off"
+            value={form.shipping_timezone}
+            onChange={handleChange}
+          />
+        </div>
+
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">Shipment References</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Shipments are sent with an order reference, the customer&apos;s email and phone number,
+            and the delivery instructions from the order&apos;s <code>delivery_instructions</code>{' '}
+            metadata.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="reference_template">Order Reference</Label>
+          <Hint className="mt-1 block pb-1">
+            Printed on the label and shown in DHL Track &amp; Trace. Use {'{display_id}'},{' '}
+            {'{order_id}'} and {'{fulfillment_id}'}, e.g. #{'{display_id}'}.
+          </Hint>
+          <Input
+            id="reference_template"
+            name="reference_template"
+            className="mt-1"
+            autoComplete="off"
+            value={form.reference_template}
+            onChange={handleChange}
+          />
+        </div>
+
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">Label Formats</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Print labels as PDF on A6 label paper or A4 office paper, or as ZPL for thermal printers
+            like Zebra. Stock locations can print in their own format.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="label_format">Default Format</Label>
+          <Select
+            value={form.label_format}
+            onValueChange={(value) =>
+              setForm((prev) => ({ ...prev, label_format: value as LabelFormat }))
+            }
+          >
+            <Select.Trigger id="label_format" className="mt-1">
+              <Select.Value placeholder="Select format" />
+            </Select.Trigger>
+            <Select.Content>
+              <Select.Item value="pdf">PDF</Select.Item>
+              <Select.Item value="zpl">ZPL (thermal printers)</Select.Item>
+            </Select.Content>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="label_page_size">Default Page Size</Label>
+          <Hint className="mt-1 block pb-1">Only used for PDF labels.</Hint>
+          <Select
+            value={form.label_page_size}
+            disabled={form.label_format !== 'pdf'}
+            onValueChange={(value) =>
+              setForm((prev) => ({ ...prev, label_page_size: value as LabelPageSize }))
+            }
+          >
+            <Select.Trigger id="label_page_size" className="mt-1">
+              <Select.Value placeholder="Select page size" />
+            </Select.Trigger>
+            <Select.Content>
+              <Select.Item value="a6">A6 (label)</Select.Item>
+              <Select.Item value="a4">A4 (page)</Select.Item>
+            </Select.Content>
+          </Select>
+        </div>
+
+        {(stockLocationsData?.stock_locations ?? []).map((location) => {
+          const labelFormat = labelFormats.find(
+            (labelFormat) => labelFormat.stock_location_id === location.id,
+          )
+          return (
+            <div key={location.id}>
+              <Label htmlFor={`label_format_${location.id}`}>{location.name}</Label>
+              <Select
+                value={
+                  labelFormat
+                    ? `${labelFormat.label_format}-${labelFormat.label_page_size}`
+                    : 'default'
+                }
+                onValueChange={(value) => updateLocationLabelFormat(location.id, value)}
+              >
+                <Select.Trigger id={`label_format_${location.id}`} className="mt-1">
+                  <Select.Value placeholder="Select format" />
+                </Select.Trigger>
+                <Select.Content>
+                  <Select.Item value="default">Same as default</Select.Item>
+                  <Select.Item value="pdf-a6">PDF, A6 (label)</Select.Item>
+                  <Select.Item value="pdf-a4">PDF, A4 (page)</Select.Item>
+                  <Select.Item value="zpl-a6">ZPL (thermal printers)</Select.Item>
+                </Select.Content>
+              </Select>
+            </div>
+          )
+        })}
+
+        <div>
+          <Label htmlFor="label_retention_days">Delete Labels After Delivery (days)</Label>
+          <Hint className="mt-1 block pb-1">
+            Label files are deleted this many days after a fulfillment was delivered. Leave empty to
+            keep them.
+          </Hint>
+          <Input
+            id="label_retention_days"
+            name="label_retention_days"
+            type="number"
+            min={1}
+            className="mt-1"
+            autoComplete="off"
+            value={form.label_retention_days ?? ''}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                label_retention_days:
+                  e.target.value === '' ? null : Math.max(1, Math.floor(Number(e.target.value))),
+              }))
+            }
+          />
+        </div>
+
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">Pickups</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Book DHL pickups for your stock locations from the DHL Pickups page, or let the daily
+            pickup be booked automatically once there are labelled parcels for the day.
+          </p>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="auto_pickup_enabled">Book Daily Pickups Automatically</Label>
+            <Switch
+              id="auto_pickup_enabled"
+              name="auto_pickup_enabled"
+              checked={form.auto_pickup_enabled}
+              onCheckedChange={(checked) =>
+                setForm((prev) => ({ ...prev, auto_pickup_enabled: checked }))
+              }
+            />
+          </div>
+          <Hint className="mb-2 mt-1">
+            On shipping days before the cut-off time, a pickup is booked for each stock location
+            with unshipped DHL labels for the day.
+          </Hint>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="pickup_time_from">Pickup From</Label>
+            <Input
+              id="pickup_time_from"
+              name="pickup_time_from"
+              type="time"
+              className="mt-1"
+              value={form.pickup_time_from ?? ''}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, pickup_time_from: e.target.value || null }))
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="pickup_time_to">Pickup Until</Label>
+            <Input
+              id="pickup_time_to"
+              name="pickup_time_to"
+              type="time"
+              className="mt-1"
+              value={form.pickup_time_to ?? ''}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, pickup_time_to: e.target.value || null }))
+              }
+            />
+          </div>
+        </div>
+        <Hint>
+          The time slot of automatic pickups. Time slots are only available in the Netherlands.
+        </Hint>
+
         <div className="border-t pt-6 mt-2">
           <h3 className="font-semibold mb-4">Webhook Settings (Track &amp; Trace Pusher)</h3>
           <p className="text-sm text-gray-600 mb-4">
-            Configure these settings to receive real-time shipment status updates from DHL via
-            webhooks. The API key will be used to authenticate incoming webhook requests.
+            Receive real-time shipment status updates from DHL via webhooks. Register the webhook
+            below to let DHL push to it with a generated API key, or enter the API key of a
+            configuration you set up with DHL yourself.
           </p>
         </div>
 
+        <WebhookConfigurationsSection onRegistered={loadWebhookApiKey} />
+
         <div>
           <Label htmlFor="webhook_api_key">Webhook API Key</Label>
           <Hint className="mt-1 block pb-1">
@@ -289,6 +997,205 @@ const DHLSettingsPageInner = () => {
             onChange={handleChange}
           />
         </div>
+        <div>
+          <Label htmlFor="webhook_secondary_api_key">Secondary Webhook API Key</Label>
+          <Hint className="mt-1 block pb-1">
+            A second key that is accepted as well, to rotate keys without downtime. Registering the
+            webhook above keeps the previous key here.
+          </Hint>
+          <Input
+            id="webhook_secondary_api_key"
+            name="webhook_secondary_api_key"
+            type="password"
+            className="mt-1"
+            autoComplete="off"
+            value={form.webhook_secondary_api_key ?? ''}
+            onChange={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                webhook_secondary_api_key: e.target.value || null,
+              }))
+            }
+          />
+        </div>
+        <div>
+          <Label htmlFor="webhook_allowed_ips">Allowed IP Addresses</Label>
+          <Hint className="mt-1 block pb-1">
+            Comma separated IP addresses or CIDR ranges DHL pushes from. Leave empty to accept
+            requests from any address.
+          </Hint>
+          <Input
+            key={form.webhook_allowed_ips.join(',')}
+            id="webhook_allowed_ips"
+            name="webhook_allowed_ips"
+            className="mt-1"
+            autoComplete="off"
+            placeholder="192.0.2.0/24, 198.51.100.7"
+            defaultValue={form.webhook_allowed_ips.join(', ')}
+            onBlur={(e) =>
+              setForm((prev) => ({
+                ...prev,
+                webhook_allowed_ips: e.target.value
+                  .split(',')
+                  .map((ip) => ip.trim())
+                  .filter(Boolean),
+              }))
+            }
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="webhook_rate_limit_per_minute">Requests per Minute per IP</Label>
+            <Input
+              id="webhook_rate_limit_per_minute"
+              name="webhook_rate_limit_per_minute"
+              type="number"
+              min={0}
+              className="mt-1"
+              value={form.webhook_rate_limit_per_minute}
+              onChange={(e) =>
+                setForm((prev) => ({
+                  ...prev,
+                  webhook_rate_limit_per_minute: Math.max(0, Math.floor(Number(e.target.value))),
+                }))
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="webhook_max_event_age_minutes">Maximum Event Age (minutes)</Label>
+            <Input
+              id="webhook_max_event_age_minutes"
+              name="webhook_max_event_age_minutes"
+              type="number"
+              min={1}
+              className="mt-1"
+              value={form.webhook_max_event_age_minutes ?? ''}
+              onChange={(e) =>
+                setForm((prev) => ({
+                  ...prev,
+                  webhook_max_event_age_minutes:
+                    e.target.value === '' ? null : Math.max(1, Math.floor(Number(e.target.value))),
+                }))
+              }
+            />
+          </div>
+        </div>
+        <Hint>
+          Requests above the rate limit are rejected; use 0 to disable it. Events created longer ago
+          than the maximum age are rejected, so they can&apos;t be replayed. Leave it empty to
+          accept events of any age.
+        </Hint>
+        {webhookStatsData && (
+          <Hint className="block">
+            {webhookStatsData.accepted} accepted and{' '}
+            {Object.values(webhookStatsData.failures).reduce((sum, count) => sum + count, 0)}{' '}
+            rejected webhook requests since the server started
+            {Object.entries(webhookStatsData.failures).some(([, count]) => count > 0)
+              ? ` (${Object.entries(webhookStatsData.failures)
+                  .filter(([, count]) => count > 0)
+                  .map(([reason, count]) => `${reason.replace(/_/g, ' ')}: ${count}`)
+                  .join(', ')})`
+              : ''}
+            .
+            {webhookStatsData.last_failure_at &&
+              ` Last rejected at ${new Date(webhookStatsData.last_failure_at).toLocaleString()}.`}
+          </Hint>
+        )}
+        <div className="border-t pt-6 mt-2">
+          <h3 className="font-semibold mb-4">DHL Accounts per Stock Location</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Ship from stock locations with their own DHL account. Stock locations that aren&apos;t
+            assigned to an account use the credentials above.
+          </p>
+        </div>
+
+        {accounts.map((account, index) => (
+          <div
+            key={account.id ?? `new-${index}`}
+            className="flex flex-col gap-y-4 border rounded-md p-4"
+          >
+            <div className="flex items-center justify-between">
+              <p className="font-medium">{account.name || `Account ${index + 1}`}</p>
+              <Button
+                type="button"
+                size="small"
+                variant="danger"
+                onClick={() => setAccounts((prev) => prev.filter((_, i) => i !== index))}
+              >
+                Remove
+              </Button>
+            </div>
+            <div>
+              <Label htmlFor={`accounts_${index}_name`}>Name</Label>
+              <Input
+                id={`accounts_${index}_name`}
+                className="mt-1"
+                autoComplete="off"
+                value={account.name}
+                onChange={(e) => updateAccount(index, { name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`accounts_${index}_user_id`}>User ID</Label>
+              <Input
+                id={`accounts_${index}_user_id`}
+                className="mt-1"
+                autoComplete="off"
+                value={account.user_id}
+                onChange={(e) => updateAccount(index, { user_id: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`accounts_${index}_api_key`}>API Key</Label>
+              <Input
+                id={`accounts_${index}_api_key`}
+                type="password"
+                className="mt-1"
+                autoComplete="off"
+                value={account.api_key}
+                onChange={(e) => updateAccount(index, { api_key: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`accounts_${index}_account_id`}>Account ID</Label>
+              <Input
+                id={`accounts_${index}_account_id`}
+                className="mt-1"
+                autoComplete="off"
+                value={account.account_id}
+                onChange={(e) => updateAccount(index, { account_id: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Stock Locations</Label>
+              <div className="mt-2 flex flex-wrap gap-4">
+                {(stockLocationsData?.stock_locations ?? []).map((location) => (
+                  <div key={location.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`accounts_${index}_location_${location.id}`}
+                      checked={account.stock_location_ids.includes(location.id)}
+                      onCheckedChange={(checked) =>
+                        toggleAccountLocation(index, location.id, checked === true)
+                      }
+                    />
+                    <Label htmlFor={`accounts_${index}_location_${location.id}`}>
+                      {location.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="secondary"
+          className="w-fit"
+          onClick={() => setAccounts((prev) => [...prev, { ...emptyAccount }])}
+        >
+          Add DHL account
+        </Button>
+
         <Button type="button" onClick={handleSave} disabled={!isValid} className="mt-4 w-fit">
           Save
         </Button>
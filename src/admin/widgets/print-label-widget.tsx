@@ -1,11 +1,17 @@
 import { defineWidgetConfig } from "@medusajs/admin-sdk";
-import { Container, Heading } from "@medusajs/ui";
+import { Button, Container, Heading, toast } from "@medusajs/ui";
 import { DetailWidgetProps, AdminOrder } from "@medusajs/framework/types";
 import { ExclamationCircle } from "@medusajs/icons";
+import { useState } from "react";
+import { sdk } from "../lib/sdk";
+
+// The admin API can be served from another origin than the admin
+const backendUrl = (import.meta.env.VITE_BACKEND_URL || "").replace(/\/$/, "");
 
 type FulfillmentDataLabelType = {
   parcelType: string;
   trackingNumber: string;
+  format?: "pdf" | "zpl";
 };
 
 type FulfillmentLabelType = {
@@ -15,18 +21,67 @@ type FulfillmentLabelType = {
   parcel_type?: string;
 };
 
+type FulfillmentDraftType = {
+  id: string;
+  status: "draft" | "promoted";
+  promote_after?: string | null;
+  pieces?: { label_id: string; tracker_code: string }[];
+};
+
+type FulfillmentEstimatedDeliveryType = {
+  shipment_date: string;
+  expected_delivery_date: string | null;
+};
+
+type FulfillmentInterventionType = {
+  tracker_code: string;
+  type: "neighbour" | "date_time" | "service_point";
+  neighbour_address?: {
+    street?: string;
+    houseNumber?: string;
+    houseNumberAddition?: string;
+    city?: string;
+  };
+  timeframe?: { from: string; to: string };
+  service_point_id?: string;
+  requested_at: string;
+  status: "requested";
+};
+
+type ProofOfDeliveryType = {
+  tracking_number: string;
+  proofs: {
+    id: string;
+    podType: "Main" | "ParcelShop";
+    signedBy: string;
+    signature: { mimetype: string; data: string };
+  }[];
+  error?: string;
+};
+
 type FulfillmentType = {
   id?: string;
   labels?: FulfillmentLabelType[];
   data?: {
     labels?: FulfillmentDataLabelType[];
+    draft?: FulfillmentDraftType;
+    estimated_delivery?: FulfillmentEstimatedDeliveryType;
+    label_files_deleted_at?: string;
+    interventions?: FulfillmentInterventionType[];
   };
   tracking_url?: string;
   canceled_at?: string | null;
+  delivered_at?: string | null;
 };
 
 // The widget
 const DHLWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [loadingPodId, setLoadingPodId] = useState<string | null>(null);
+  const [proofsOfDelivery, setProofsOfDelivery] = useState<
+    Record<string, ProofOfDeliveryType[]>
+  >({});
+
   // If no fulfillments, return an empty component
   if (!data.fulfillments || data.fulfillments.length === 0) {
     return <></>;
@@ -38,8 +93,21 @@ const DHLWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
       fulfillmentNumber: index + 1,
       fulfillmentId: fulfillment.id,
       isCanceled: !!fulfillment.canceled_at,
+      estimatedDeliveryDate:
+        fulfillment.data?.estimated_delivery?.expected_delivery_date,
+      deliveredAt: fulfillment.delivered_at,
+      interventions: fulfillment.data?.interventions ?? [],
+      // Promoted drafts without labels failed to store them and can be retried
+      draft:
+        fulfillment.data?.draft?.status === "draft" ||
+        (fulfillment.data?.draft?.pieces?.length &&
+          !fulfillment.data?.labels?.length)
+          ? fulfillment.data?.draft
+          : undefined,
       labels: (fulfillment.labels || [])
-        .filter((label) => label.label_url)
+        .filter(
+          (label) => label.label_url || fulfillment.data?.label_files_deleted_at
+        )
         .map((label) => {
           const data = fulfillment?.data?.labels?.find(
             (l) => l.trackingNumber === label.tracking_number
@@ -48,17 +116,89 @@ const DHLWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
             trackingNumber: label.tracking_number,
             trackingUrl: label.tracking_url,
             labelUrl: label.label_url,
+            // Label files are private, so they're downloaded through the admin API
+            downloadUrl: `${backendUrl}/admin/dhl/fulfillments/${
+              fulfillment.id
+            }/labels/${encodeURIComponent(label.tracking_number ?? "")}`,
             parcelType: data?.parcelType,
+            // Labels created before formats were configurable are PDFs
+            format: data?.format ?? "pdf",
+            // Labels created before they were stored as files are base64 encoded
+            isFile: /^https?:\/\//.test(label.label_url ?? ""),
           };
         }),
     }))
-    .filter((f) => f.labels.length > 0);
+    .filter((f) => f.labels.length > 0 || (f.draft && !f.isCanceled));
 
   // If no valid labels, return an empty component
   if (fulfillmentsWithLabels.length === 0) {
     return <></>;
   }
 
+  // Describes the delivery change a customer asked DHL for
+  const describeIntervention = (intervention: FulfillmentInterventionType) => {
+    switch (intervention.type) {
+      case "neighbour": {
+        const address = intervention.neighbour_address;
+        return `Deliver to neighbour ${[
+          address?.street,
+          address?.houseNumber,
+          address?.houseNumberAddition,
+        ]
+          .filter(Boolean)
+          .join(" ")}${address?.city ? `, ${address.city}` : ""}`;
+      }
+      case "date_time":
+        return `Deliver on ${
+          intervention.timeframe
+            ? `${new Date(intervention.timeframe.from).toLocaleString()} - ${new Date(
+                intervention.timeframe.to
+              ).toLocaleTimeString()}`
+            : "another date"
+        }`;
+      case "service_point":
+        return `Redirect to ServicePoint ${intervention.service_point_id ?? ""}`;
+    }
+  };
+
+  const promoteDraft = async (fulfillmentId: string) => {
+    setPromotingId(fulfillmentId);
+    try {
+      await sdk.client.fetch(
+        `/admin/dhl/fulfillments/${fulfillmentId}/promote-draft`,
+        { method: "POST" }
+      );
+      toast.success("DHL labels created");
+      window.location.reload();
+    } catch (error) {
+      toast.error("Failed to create DHL labels");
+      console.error(error);
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
+  const loadProofOfDelivery = async (fulfillmentId: string) => {
+    setLoadingPodId(fulfillmentId);
+    try {
+      const result = await sdk.client.fetch<{ labels: ProofOfDeliveryType[] }>(
+        `/admin/dhl/fulfillments/${fulfillmentId}/pod`
+      );
+      setProofsOfDelivery((prev) => ({
+        ...prev,
+        [fulfillmentId]: result.labels,
+      }));
+      if (!result.labels.some((label) => label.proofs.length > 0)) {
+        toast.info("DHL has no proof of delivery for this fulfillment yet");
+      }
+    } catch (error) {
+      toast.error("Failed to fetch the DHL proof of delivery");
+      console.error(error);
+    } finally {
+      setLoadingPodId(null);
+    }
+  };
+
   return (
     <Container className="divide-y p-0">
       <div className="flex items-center justify-between px-6 py-4">
@@ -84,6 +224,99 @@ const DHLWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
               </p>
             </div>
           )}
+          {!fulfillment.isCanceled &&
+            (fulfillment.estimatedDeliveryDate || fulfillment.deliveredAt) && (
+              <p className="font-sans txt-compact-small text-ui-fg-subtle py-1">
+                {fulfillment.estimatedDeliveryDate &&
+                  `Estimated delivery: ${new Date(
+                    fulfillment.estimatedDeliveryDate
+                  ).toLocaleDateString()}`}
+                {fulfillment.estimatedDeliveryDate &&
+                  fulfillment.deliveredAt &&
+                  " · "}
+                {fulfillment.deliveredAt &&
+                  `Delivered: ${new Date(
+                    fulfillment.deliveredAt
+                  ).toLocaleDateString()}`}
+                {fulfillment.deliveredAt && fulfillment.fulfillmentId && (
+                  <>
+                    {" · "}
+                    <button
+                      type="button"
+                      className="text-blue-600 hover:underline disabled:opacity-50"
+                      disabled={loadingPodId === fulfillment.fulfillmentId}
+                      onClick={() =>
+                        loadProofOfDelivery(fulfillment.fulfillmentId!)
+                      }
+                    >
+                      Proof of delivery
+                    </button>
+                  </>
+                )}
+              </p>
+            )}
+          {fulfillment.fulfillmentId &&
+            proofsOfDelivery[fulfillment.fulfillmentId]?.map((label) =>
+              label.proofs.map((proof) => (
+                <div
+                  key={proof.id}
+                  className="text-ui-fg-subtle grid grid-cols-2 items-start py-1"
+                >
+                  <p className="font-medium font-sans txt-compact-small">
+                    {label.tracking_number}
+                    {proof.podType === "ParcelShop" && " (ParcelShop)"}
+                  </p>
+                  <p className="font-normal font-sans txt-compact-small">
+                    <a
+                      href={`data:${proof.signature.mimetype};base64,${proof.signature.data}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                      download={`pod-${label.tracking_number}-${proof.podType.toLowerCase()}`}
+                    >
+                      Signed by {proof.signedBy || "unknown"}
+                    </a>
+                  </p>
+                </div>
+              ))
+            )}
+          {fulfillment.interventions.map((intervention, idx) => (
+            <div
+              key={`${intervention.tracker_code}-${idx}`}
+              className="text-ui-fg-subtle grid grid-cols-2 items-start py-1"
+            >
+              <p className="font-medium font-sans txt-compact-small">
+                Customer request ·{" "}
+                {new Date(intervention.requested_at).toLocaleDateString()}
+              </p>
+              <p className="font-normal font-sans txt-compact-small">
+                {describeIntervention(intervention)}
+              </p>
+            </div>
+          ))}
+          {fulfillment.draft && !fulfillment.isCanceled && (
+            <div className="flex items-center justify-between gap-2 py-2">
+              <p className="font-sans txt-compact-small text-ui-fg-subtle">
+                {fulfillment.draft.status === "promoted"
+                  ? "DHL shipment created, but its labels couldn't be stored yet."
+                  : fulfillment.draft.promote_after
+                    ? `DHL draft, labels are created automatically after ${new Date(
+                        fulfillment.draft.promote_after
+                      ).toLocaleString()}.`
+                    : "DHL draft, labels have not been created yet."}
+              </p>
+              {fulfillment.fulfillmentId && (
+                <Button
+                  size="small"
+                  variant="secondary"
+                  isLoading={promotingId === fulfillment.fulfillmentId}
+                  onClick={() => promoteDraft(fulfillment.fulfillmentId!)}
+                >
+                  Create labels
+                </Button>
+              )}
+            </div>
+          )}
           {fulfillment.labels.map((info, idx) => (
             <div
               key={idx}
@@ -125,15 +358,36 @@ const DHLWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
               <div className="text-ui-fg-subtle grid grid-cols-2 items-start">
                 <p className="font-medium font-sans txt-compact-small">Label</p>
                 <p className="font-normal font-sans txt-compact-small">
-                  <a
-                    href={`data:application/pdf;base64,${info.labelUrl}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-600 hover:underline"
-                    download={`label-${info.trackingNumber || idx}.pdf`}
-                  >
-                    Download PDF
-                  </a>
+                  {!info.labelUrl ? (
+                    "Deleted after delivery"
+                  ) : info.format === "zpl" ? (
+                    // Browsers can't display ZPL, so it's only offered as a file for the printer
+                    <a
+                      href={
+                        info.isFile
+                          ? info.downloadUrl
+                          : `data:application/octet-stream;base64,${info.labelUrl}`
+                      }
+                      className="text-blue-600 hover:underline"
+                      download={`label-${info.trackingNumber || idx}.zpl`}
+                    >
+                      Download ZPL
+                    </a>
+                  ) : (
+                    <a
+                      href={
+                        info.isFile
+                          ? info.downloadUrl
+                          : `data:application/pdf;base64,${info.labelUrl}`
+                      }
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                      download={`label-${info.trackingNumber || idx}.pdf`}
+                    >
+                      Download PDF
+                    </a>
+                  )}
                 </p>
               </div>
             </div>
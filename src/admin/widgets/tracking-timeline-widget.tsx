@@ -0,0 +1,118 @@
+import { defineWidgetConfig } from "@medusajs/admin-sdk";
+import { Badge, Button, Container, Heading } from "@medusajs/ui";
+import { DetailWidgetProps, AdminOrder } from "@medusajs/framework/types";
+import { useEffect, useState } from "react";
+import { sdk } from "../lib/sdk";
+
+type TrackingEventType = {
+  id: string;
+  fulfillment_id: string;
+  tracker_code: string;
+  status: string;
+  category: string | null;
+  type: string | null;
+  timestamp: string;
+  raw: Record<string, unknown>;
+};
+
+// Statuses that need attention are highlighted
+const statusColor = (status: string) => {
+  switch (status) {
+    case "DELIVERED":
+      return "green";
+    case "EXCEPTION":
+    case "PROBLEM":
+      return "red";
+    case "CUSTOMS":
+    case "INTERVENTION":
+      return "orange";
+    default:
+      return "grey";
+  }
+};
+
+// The widget
+const DHLTrackingTimelineWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
+  const [events, setEvents] = useState<TrackingEventType[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    sdk.client
+      .fetch<{ events: TrackingEventType[] }>(
+        `/admin/dhl/orders/${data.id}/tracking-events`
+      )
+      .then((result) => setEvents(result.events))
+      .catch((error) => console.error(error));
+  }, [data.id]);
+
+  // Only orders with DHL tracking events get a timeline
+  if (events.length === 0) {
+    return <></>;
+  }
+
+  const hasMultipleParcels =
+    new Set(events.map((event) => event.tracker_code)).size > 1;
+
+  return (
+    <Container className="divide-y p-0">
+      <div className="flex items-center justify-between px-6 py-4">
+        <Heading level="h2">DHL Tracking History</Heading>
+      </div>
+      <ol className="px-6 py-4">
+        {events.map((event, index) => (
+          <li key={event.id} className="relative flex gap-x-3 pb-4">
+            {index < events.length - 1 && (
+              <span className="bg-ui-border-base absolute left-[5px] top-4 h-full w-px" />
+            )}
+            <span className="bg-ui-fg-muted mt-1.5 h-[11px] w-[11px] shrink-0 rounded-full" />
+            <div className="flex flex-1 flex-col gap-y-1">
+              <div className="flex items-center justify-between gap-x-2">
+                <Badge size="2xsmall" color={statusColor(event.status)}>
+                  {event.status.replace(/_/g, " ")}
+                </Badge>
+                <p className="text-ui-fg-subtle font-sans txt-compact-small">
+                  {new Date(event.timestamp).toLocaleString()}
+                </p>
+              </div>
+              <p className="text-ui-fg-subtle font-sans txt-compact-small">
+                {[
+                  event.category,
+                  event.type,
+                  typeof event.raw.facility === "string"
+                    ? event.raw.facility
+                    : undefined,
+                  hasMultipleParcels ? event.tracker_code : undefined,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+              <Button
+                size="small"
+                variant="transparent"
+                className="w-fit px-0"
+                onClick={() =>
+                  setExpandedId(expandedId === event.id ? null : event.id)
+                }
+              >
+                {expandedId === event.id ? "Hide details" : "Show details"}
+              </Button>
+              {expandedId === event.id && (
+                // The event as DHL sent it, e.g. with its leg and customs details
+                <pre className="bg-ui-bg-subtle txt-compact-xsmall overflow-x-auto rounded-md p-2">
+                  {JSON.stringify(event.raw, null, 2)}
+                </pre>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </Container>
+  );
+};
+
+// The widget's configurations
+export const config = defineWidgetConfig({
+  zone: "order.details.after",
+});
+
+export default DHLTrackingTimelineWidget;
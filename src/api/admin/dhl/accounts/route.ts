@@ -0,0 +1,55 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { z } from 'zod'
+import { DHLAccountSchema, PostDHLAccounts } from './validator'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+import setupAccountsWorkflow from '../../../../workflows/setup-accounts'
+
+export type DHLAccountInput = z.infer<typeof DHLAccountSchema>
+
+export type SetupAccountsInput = z.infer<typeof PostDHLAccounts>
+
+export type DHLAccountsResponse = {
+  accounts: DHLAccountInput[]
+  errors?: string[]
+}
+
+/**
+ * List the DHL accounts and the stock locations they are assigned to.
+ * GET /admin/dhl/accounts
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse<DHLAccountsResponse>) => {
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const accounts = await dhlSettingService.listAccounts()
+  res.json({ accounts })
+}
+
+/**
+ * Replace the DHL accounts.
+ * POST /admin/dhl/accounts
+ *
+ * Stock locations that aren't assigned to an account ship with the default credentials.
+ */
+export const POST = async (req: MedusaRequest, res: MedusaResponse<DHLAccountsResponse>) => {
+  const parsed = PostDHLAccounts.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      accounts: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const { result, errors } = await setupAccountsWorkflow(req.scope).run({
+    input: parsed.data,
+    throwOnError: false,
+  })
+
+  if (errors && errors.length > 0) {
+    return res.status(400).json({
+      accounts: [],
+      errors: errors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  res.json({ accounts: result })
+}
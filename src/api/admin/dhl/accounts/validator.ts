@@ -0,0 +1,31 @@
+import { z } from 'zod'
+
+export const DHLAccountSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().min(1).max(100),
+  user_id: z.string().min(2).max(100),
+  api_key: z.string().min(2).max(100),
+  account_id: z.string().min(2).max(100),
+  stock_location_ids: z.array(z.string().min(1)).default([]),
+})
+
+export const PostDHLAccounts = z
+  .object({
+    accounts: z.array(DHLAccountSchema),
+  })
+  .superRefine(({ accounts }, ctx) => {
+    // A stock location ships with exactly one account
+    const seen = new Set<string>()
+    accounts.forEach((account, index) => {
+      account.stock_location_ids.forEach((locationId) => {
+        if (seen.has(locationId)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['accounts', index, 'stock_location_ids'],
+            message: `Stock location ${locationId} is assigned to more than one DHL account`,
+          })
+        }
+        seen.add(locationId)
+      })
+    })
+  })
@@ -0,0 +1,31 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import {
+  CapabilitiesCacheStats,
+  DEFAULT_CAPABILITIES_CACHE_TTL_SECONDS,
+  getCapabilitiesCacheStats,
+} from '../../../../dhl-api/capabilities-cache'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+
+export type GetDHLCapabilitiesCacheResponse = CapabilitiesCacheStats & {
+  ttl_seconds: number
+}
+
+/**
+ * Get the configuration and hit/miss statistics of the capabilities cache used for price quotes.
+ * GET /admin/dhl/capabilities-cache
+ *
+ * The statistics are kept per server process since it started.
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse<GetDHLCapabilitiesCacheResponse>,
+) => {
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const settings = await dhlSettingService.getCredentials()
+
+  res.json({
+    ttl_seconds: settings?.capabilities_cache_ttl_seconds ?? DEFAULT_CAPABILITIES_CACHE_TTL_SECONDS,
+    ...getCapabilitiesCacheStats(),
+  })
+}
@@ -0,0 +1,126 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { z } from 'zod'
+import { GetDHLDestinations } from './validator'
+import {
+  getDestinationCountries,
+  getDestinationCountryProperties,
+} from '../../../../dhl-api/get-destination-countries'
+import { DHLDestinationCountryProperties } from '../../../../dhl-api/types'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+import { getDhlBaseUrl } from '../../../../dhl-api/environment'
+
+export type GetDHLDestinationsQuery = z.infer<typeof GetDHLDestinations>
+
+export type DHLStockLocationDestinations = {
+  id: string
+  name: string
+  country_code: string | null
+  destination_countries: string[]
+  destination_country_properties: DHLDestinationCountryProperties[]
+  error?: string
+}
+
+export type GetDHLDestinationsResponse = {
+  stock_locations: DHLStockLocationDestinations[]
+  errors?: string[]
+}
+
+type StockLocationWithAddress = {
+  id: string
+  name: string
+  address?: { country_code?: string | null } | null
+}
+
+type QueryGraph = {
+  graph: <T>(args: {
+    entity: string
+    fields: string[]
+    filters?: Record<string, unknown>
+  }) => Promise<{ data: T[] }>
+}
+
+/**
+ * Lists the countries DHL delivers to from each stock location.
+ * GET /admin/dhl/destinations?stock_location_id=
+ *
+ * Use the result to set up the countries of the service zones of DHL shipping options,
+ * so customers are only offered DHL where it can deliver.
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse<GetDHLDestinationsResponse>) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = GetDHLDestinations.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      stock_locations: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const query: GetDHLDestinationsQuery = parsed.data
+  const queryGraph = req.scope.resolve<QueryGraph>('query')
+
+  const { data: stockLocations } = await queryGraph.graph<StockLocationWithAddress>({
+    entity: 'stock_location',
+    fields: ['id', 'name', 'address.country_code'],
+    filters: query.stock_location_id ? { id: query.stock_location_id } : {},
+  })
+
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials()
+  const debugLogger = credentials?.enable_logs ? logger : undefined
+
+  const baseUrl = getDhlBaseUrl(credentials)
+  // Stock locations often share a country, so each origin country is only looked up once
+  const destinationsByCountry = new Map<
+    string,
+    Promise<
+      Pick<DHLStockLocationDestinations, 'destination_countries' | 'destination_country_properties'>
+    >
+  >()
+  const getDestinations = (countryCode: string) => {
+    const key = countryCode.toUpperCase()
+    let destinations = destinationsByCountry.get(key)
+    if (!destinations) {
+      destinations = Promise.all([
+        getDestinationCountries(baseUrl, key, debugLogger),
+        getDestinationCountryProperties(baseUrl, key, debugLogger),
+      ]).then(([countries, properties]) => ({
+        destination_countries: countries,
+        destination_country_properties: properties,
+      }))
+      destinationsByCountry.set(key, destinations)
+    }
+    return destinations
+  }
+
+  const results = await Promise.all(
+    stockLocations.map(async (location): Promise<DHLStockLocationDestinations> => {
+      const countryCode = location.address?.country_code ?? null
+      const result: DHLStockLocationDestinations = {
+        id: location.id,
+        name: location.name,
+        country_code: countryCode,
+        destination_countries: [],
+        destination_country_properties: [],
+      }
+
+      if (!countryCode) {
+        return { ...result, error: 'Stock location has no address country' }
+      }
+
+      try {
+        return { ...result, ...(await getDestinations(countryCode)) }
+      } catch (error) {
+        logger.error(
+          `[DHL Destinations] Failed to fetch destinations for ${location.id}: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        return { ...result, error: 'Failed to fetch DHL destination countries' }
+      }
+    }),
+  )
+
+  return res.json({ stock_locations: results })
+}
@@ -0,0 +1,5 @@
+import { z } from 'zod'
+
+export const GetDHLDestinations = z.object({
+  stock_location_id: z.string().min(1).optional(),
+})
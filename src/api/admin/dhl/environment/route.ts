@@ -0,0 +1,23 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { DHLApiEnvironment, getDhlBaseUrl } from '../../../../dhl-api/environment'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+
+export type GetDHLEnvironmentResponse = {
+  environment: DHLApiEnvironment
+  base_url: string
+}
+
+/**
+ * Get the DHL API environment the plugin is currently talking to.
+ * GET /admin/dhl/environment
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse<GetDHLEnvironmentResponse>) => {
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const settings = await dhlSettingService.getCredentials()
+
+  res.json({
+    environment: settings?.api_environment ?? 'production',
+    base_url: getDhlBaseUrl(settings),
+  })
+}
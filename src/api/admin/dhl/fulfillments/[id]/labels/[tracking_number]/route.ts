@@ -0,0 +1,40 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { IFileModuleService, IFulfillmentModuleService } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { DHLLabelData } from '../../../../../../../dhl-api/types'
+import { DHL_LABEL_CONTENT_TYPES } from '../../../../../../../dhl-api/label-format'
+
+/**
+ * Download the label file of a parcel of a DHL fulfillment.
+ * GET /admin/dhl/fulfillments/:id/labels/:tracking_number
+ *
+ * Label files are private, so their file URL can't be opened in the browser with every file
+ * provider. The label is streamed through this route instead.
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+  const fulfillmentService = req.scope.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+  const fulfillment = await fulfillmentService.retrieveFulfillment(req.params.id, {
+    select: ['id', 'provider_id', 'data'],
+  })
+
+  if (fulfillment.provider_id !== 'dhl') {
+    return res.status(400).json({ errors: ['Fulfillment is not a DHL fulfillment'] })
+  }
+
+  const labels = (fulfillment.data?.labels ?? []) as Partial<DHLLabelData>[]
+  const label = labels.find((l) => l.trackingNumber === req.params.tracking_number && l.fileId)
+  if (!label?.fileId) {
+    return res.status(404).json({ errors: ['Label file not found'] })
+  }
+
+  const fileService = req.scope.resolve<IFileModuleService>(Modules.FILE)
+  const stream = await fileService.getDownloadStream(label.fileId)
+
+  const format = label.format ?? 'pdf'
+  res.setHeader('Content-Type', DHL_LABEL_CONTENT_TYPES[format])
+  res.setHeader(
+    'Content-Disposition',
+    `${format === 'pdf' ? 'inline' : 'attachment'}; filename="label-${label.trackingNumber || 'piece'}.${format}"`,
+  )
+  stream.pipe(res)
+}
@@ -0,0 +1,101 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { IFulfillmentModuleService, Logger } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { DHL_SETTINGS_MODULE } from '../../../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../../../modules/setting/service'
+import { getAuthToken } from '../../../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../../../dhl-api/environment'
+import { getProofOfDelivery } from '../../../../../../dhl-api/get-proof-of-delivery'
+import { DHLProofOfDelivery } from '../../../../../../dhl-api/types'
+
+export type DHLLabelProofOfDelivery = {
+  tracking_number: string
+  proofs: DHLProofOfDelivery[]
+  error?: string
+}
+
+export type GetDhlProofOfDeliveryResponse = {
+  labels: DHLLabelProofOfDelivery[]
+  errors?: string[]
+}
+
+/**
+ * Download DHL's proof of delivery for each label of a delivered fulfillment.
+ * GET /admin/dhl/fulfillments/:id/pod
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse<GetDhlProofOfDeliveryResponse>,
+) => {
+  const logger = req.scope.resolve<Logger>('logger')
+  const fulfillmentService = req.scope.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+  const fulfillment = await fulfillmentService.retrieveFulfillment(req.params.id, {
+    select: ['id', 'provider_id', 'location_id', 'delivered_at'],
+    relations: ['labels'],
+  })
+
+  if (fulfillment.provider_id !== 'dhl') {
+    return res.status(400).json({
+      labels: [],
+      errors: ['Fulfillment is not a DHL fulfillment'],
+    })
+  }
+
+  if (!fulfillment.delivered_at) {
+    return res.status(400).json({
+      labels: [],
+      errors: ['Fulfillment has not been delivered yet'],
+    })
+  }
+
+  // The shipment was created with the DHL account of the stock location it ships from
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials(fulfillment.location_id)
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      labels: [],
+      errors: ['DHL credentials are not configured'],
+    })
+  }
+
+  const baseUrl = getDhlBaseUrl(credentials)
+  const token = await getAuthToken(
+    baseUrl,
+    credentials.user_id,
+    credentials.api_key,
+    credentials.account_id,
+  )
+
+  const trackingNumbers = [
+    ...new Set(
+      (fulfillment.labels ?? [])
+        .map((label) => label.tracking_number)
+        .filter((trackingNumber): trackingNumber is string => !!trackingNumber),
+    ),
+  ]
+
+  const labels = await Promise.all(
+    trackingNumbers.map(async (trackingNumber): Promise<DHLLabelProofOfDelivery> => {
+      try {
+        const proofs = await getProofOfDelivery(
+          baseUrl,
+          token,
+          trackingNumber,
+          credentials.enable_logs ? logger : undefined,
+        )
+        return { tracking_number: trackingNumber, proofs }
+      } catch (error) {
+        logger.error(
+          `[DHL POD] Failed to fetch proof of delivery for ${trackingNumber}: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        return {
+          tracking_number: trackingNumber,
+          proofs: [],
+          error: 'Failed to fetch the DHL proof of delivery',
+        }
+      }
+    }),
+  )
+
+  return res.json({ labels })
+}
@@ -0,0 +1,82 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { IFulfillmentModuleService, Logger } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import promoteDraftShipmentWorkflow from '../../../../../../workflows/promote-draft-shipment'
+import { DHL_SETTINGS_MODULE } from '../../../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../../../modules/setting/service'
+import { getAuthToken } from '../../../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../../../dhl-api/environment'
+import { getDhlLabelFormat } from '../../../../../../dhl-api/label-format'
+
+export type PostDhlPromoteDraftResponse = {
+  success: boolean
+  labels: number
+  errors?: string[]
+}
+
+/**
+ * Promote the DHL draft of a fulfillment to a real shipment with labels.
+ * POST /admin/dhl/fulfillments/:id/promote-draft
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse<PostDhlPromoteDraftResponse>,
+) => {
+  const logger = req.scope.resolve<Logger>('logger')
+  const fulfillmentService = req.scope.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+  const fulfillment = await fulfillmentService.retrieveFulfillment(req.params.id, {
+    select: ['id', 'location_id'],
+  })
+
+  // The draft has to be promoted with the DHL account of the stock location it ships from
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials(fulfillment.location_id)
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      success: false,
+      labels: 0,
+      errors: ['DHL credentials are not configured'],
+    })
+  }
+
+  try {
+    const baseUrl = getDhlBaseUrl(credentials)
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+
+    const { result, errors } = await promoteDraftShipmentWorkflow(req.scope).run({
+      input: {
+        fulfillmentId: req.params.id,
+        token,
+        baseUrl,
+        labelFormat: getDhlLabelFormat(credentials),
+        debug: credentials.enable_logs,
+        _logger: credentials.enable_logs ? logger : undefined,
+      },
+      throwOnError: false,
+    })
+
+    if (errors && errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        labels: 0,
+        errors: errors.map((e) => e.error?.message ?? String(e.error)),
+      })
+    }
+
+    return res.json({ success: true, labels: result.labels })
+  } catch (error) {
+    logger.error(
+      `[DHL Drafts] Failed to promote draft: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(500).json({
+      success: false,
+      labels: 0,
+      errors: ['Internal Server Error'],
+    })
+  }
+}
@@ -0,0 +1,34 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import migrateLabelFilesWorkflow from '../../../../../workflows/migrate-label-files'
+
+export type PostDhlMigrateLabelFilesResponse = {
+  fulfillments: number
+  labels: number
+  errors?: string[]
+}
+
+/**
+ * Move the base64 labels of existing DHL fulfillments to the File module.
+ * POST /admin/dhl/label-files/migrate
+ *
+ * Only needs to run once after upgrading; fulfillments that were already moved are skipped.
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse<PostDhlMigrateLabelFilesResponse>,
+) => {
+  const { result, errors } = await migrateLabelFilesWorkflow(req.scope).run({
+    input: {},
+    throwOnError: false,
+  })
+
+  if (errors && errors.length > 0) {
+    return res.status(400).json({
+      fulfillments: 0,
+      labels: 0,
+      errors: errors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  return res.json(result)
+}
@@ -0,0 +1,55 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { z } from 'zod'
+import { DHLLocationLabelFormatSchema, PostDHLLocationLabelFormats } from './validator'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+import setupLabelFormatsWorkflow from '../../../../workflows/setup-label-formats'
+
+export type DHLLocationLabelFormatInput = z.infer<typeof DHLLocationLabelFormatSchema>
+
+export type SetupLabelFormatsInput = z.infer<typeof PostDHLLocationLabelFormats>
+
+export type DHLLabelFormatsResponse = {
+  label_formats: DHLLocationLabelFormatInput[]
+  errors?: string[]
+}
+
+/**
+ * List the label formats of the stock locations that don't use the default one.
+ * GET /admin/dhl/label-formats
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse<DHLLabelFormatsResponse>) => {
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const labelFormats = await dhlSettingService.listLocationLabelFormats()
+  res.json({ label_formats: labelFormats })
+}
+
+/**
+ * Replace the label formats of the stock locations.
+ * POST /admin/dhl/label-formats
+ *
+ * Stock locations without a label format print with the default one of the DHL settings.
+ */
+export const POST = async (req: MedusaRequest, res: MedusaResponse<DHLLabelFormatsResponse>) => {
+  const parsed = PostDHLLocationLabelFormats.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      label_formats: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const { result, errors } = await setupLabelFormatsWorkflow(req.scope).run({
+    input: parsed.data,
+    throwOnError: false,
+  })
+
+  if (errors && errors.length > 0) {
+    return res.status(400).json({
+      label_formats: [],
+      errors: errors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  res.json({ label_formats: result })
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import { DHL_LABEL_FORMATS, DHL_LABEL_PAGE_SIZES } from '../../../../dhl-api/label-format'
+
+export const DHLLocationLabelFormatSchema = z.object({
+  id: z.string().min(1).optional(),
+  stock_location_id: z.string().min(1),
+  label_format: z.enum(DHL_LABEL_FORMATS),
+  label_page_size: z.enum(DHL_LABEL_PAGE_SIZES),
+})
+
+export const PostDHLLocationLabelFormats = z
+  .object({
+    label_formats: z.array(DHLLocationLabelFormatSchema),
+  })
+  .superRefine(({ label_formats }, ctx) => {
+    // A stock location prints with exactly one label format
+    const seen = new Set<string>()
+    label_formats.forEach((labelFormat, index) => {
+      if (seen.has(labelFormat.stock_location_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['label_formats', index, 'stock_location_id'],
+          message: `Stock location ${labelFormat.stock_location_id} has more than one label format`,
+        })
+      }
+      seen.add(labelFormat.stock_location_id)
+    })
+  })
@@ -0,0 +1,73 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { PostDHLPrintLabels } from '../validator'
+import { DHL_SETTINGS_MODULE } from '../../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../../modules/setting/service'
+import { getAuthToken } from '../../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../../dhl-api/environment'
+import { getDhlLabelFormat } from '../../../../../dhl-api/label-format'
+import printLabelsWorkflow, { PrintJob } from '../../../../../workflows/print-labels'
+
+export type PostDHLPrintLabelsResponse = {
+  print_job: PrintJob | null
+  errors?: string[]
+}
+
+/**
+ * Merge the labels of DHL fulfillments into one print job.
+ * POST /admin/dhl/labels/print
+ *
+ * The fulfillments have to ship from the same stock location, so their labels belong to
+ * the same DHL account. Printing doesn't mark the labels as printed, so a batch can be
+ * printed again, e.g. after a paper jam.
+ */
+export const POST = async (req: MedusaRequest, res: MedusaResponse<PostDHLPrintLabelsResponse>) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = PostDHLPrintLabels.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      print_job: null,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials(parsed.data.stock_location_id)
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      print_job: null,
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  const baseUrl = getDhlBaseUrl(credentials)
+  const token = await getAuthToken(
+    baseUrl,
+    credentials.user_id,
+    credentials.api_key,
+    credentials.account_id,
+  )
+
+  const { result, errors } = await printLabelsWorkflow(req.scope).run({
+    input: {
+      locationId: parsed.data.stock_location_id,
+      fulfillmentIds: parsed.data.fulfillment_ids,
+      pageSize: getDhlLabelFormat(credentials).pageSize,
+      token,
+      baseUrl,
+      debug: credentials.enable_logs,
+      _logger: credentials.enable_logs ? logger : undefined,
+    },
+    throwOnError: false,
+  })
+
+  if (errors && errors.length > 0) {
+    return res.status(400).json({
+      print_job: null,
+      errors: errors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  res.json({ print_job: result })
+}
@@ -0,0 +1,39 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { PostDHLLabelsPrinted } from '../validator'
+import markLabelsPrintedWorkflow from '../../../../../workflows/mark-labels-printed'
+
+export type PostDHLLabelsPrintedResponse = {
+  printed: number
+  errors?: string[]
+}
+
+/**
+ * Mark the labels of DHL fulfillments as printed, so they're no longer listed for printing.
+ * POST /admin/dhl/labels/printed
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse<PostDHLLabelsPrintedResponse>,
+) => {
+  const parsed = PostDHLLabelsPrinted.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      printed: 0,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const { result, errors } = await markLabelsPrintedWorkflow(req.scope).run({
+    input: { fulfillmentIds: parsed.data.fulfillment_ids },
+    throwOnError: false,
+  })
+
+  if (errors && errors.length > 0) {
+    return res.status(400).json({
+      printed: 0,
+      errors: errors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  res.json(result)
+}
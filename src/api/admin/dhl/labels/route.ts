@@ -0,0 +1,33 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { GetDHLUnprintedLabels } from './validator'
+import getUnprintedLabelsWorkflow, {
+  UnprintedLabelFulfillment,
+} from '../../../../workflows/get-unprinted-labels'
+
+export type GetDHLUnprintedLabelsResponse = {
+  fulfillments: UnprintedLabelFulfillment[]
+  errors?: string[]
+}
+
+/**
+ * List the DHL fulfillments of a stock location with labels that haven't been printed yet.
+ * GET /admin/dhl/labels?stock_location_id=
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse<GetDHLUnprintedLabelsResponse>,
+) => {
+  const parsed = GetDHLUnprintedLabels.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      fulfillments: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const { result } = await getUnprintedLabelsWorkflow(req.scope).run({
+    input: { locationId: parsed.data.stock_location_id },
+  })
+
+  res.json({ fulfillments: result })
+}
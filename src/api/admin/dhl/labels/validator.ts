@@ -0,0 +1,16 @@
+import { z } from 'zod'
+
+const FulfillmentIds = z.array(z.string().min(1)).min(1).max(500)
+
+export const GetDHLUnprintedLabels = z.object({
+  stock_location_id: z.string().min(1),
+})
+
+export const PostDHLPrintLabels = z.object({
+  stock_location_id: z.string().min(1),
+  fulfillment_ids: FulfillmentIds,
+})
+
+export const PostDHLLabelsPrinted = z.object({
+  fulfillment_ids: FulfillmentIds,
+})
@@ -0,0 +1,87 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+
+export type DHLTrackingEventData = {
+  id: string
+  fulfillment_id: string
+  tracker_code: string
+  status: string
+  category: string | null
+  type: string | null
+  timestamp: string
+  raw: Record<string, unknown>
+}
+
+export type GetDHLOrderTrackingEventsResponse = {
+  events: DHLTrackingEventData[]
+  errors?: string[]
+}
+
+type OrderWithTrackingEvents = {
+  id: string
+  fulfillments?:
+    | {
+        id: string
+        dhl_tracking_events?:
+          | (Omit<DHLTrackingEventData, 'fulfillment_id' | 'timestamp'> & {
+              timestamp: string | Date
+            })[]
+          | null
+      }[]
+    | null
+}
+
+type QueryGraph = {
+  graph: (args: {
+    entity: string
+    fields: string[]
+    filters: Record<string, unknown>
+  }) => Promise<{ data: OrderWithTrackingEvents[] }>
+}
+
+/**
+ * List the DHL tracking events of the parcels of an order, newest first.
+ * GET /admin/dhl/orders/:id/tracking-events
+ *
+ * The events are read through the link between fulfillments and DHL tracking events.
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse<GetDHLOrderTrackingEventsResponse>,
+) => {
+  const query = req.scope.resolve<QueryGraph>('query')
+  const { data: orders } = await query.graph({
+    entity: 'order',
+    fields: [
+      'id',
+      'fulfillments.id',
+      'fulfillments.dhl_tracking_events.id',
+      'fulfillments.dhl_tracking_events.tracker_code',
+      'fulfillments.dhl_tracking_events.status',
+      'fulfillments.dhl_tracking_events.category',
+      'fulfillments.dhl_tracking_events.type',
+      'fulfillments.dhl_tracking_events.timestamp',
+      'fulfillments.dhl_tracking_events.raw',
+    ],
+    filters: { id: req.params.id },
+  })
+
+  const order = orders[0]
+  if (!order) {
+    return res.status(404).json({
+      events: [],
+      errors: ['Order not found'],
+    })
+  }
+
+  const events = (order.fulfillments ?? [])
+    .flatMap((fulfillment) =>
+      (fulfillment.dhl_tracking_events ?? []).map((event) => ({
+        ...event,
+        fulfillment_id: fulfillment.id,
+        timestamp: new Date(event.timestamp).toISOString(),
+      })),
+    )
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+
+  res.json({ events })
+}
@@ -0,0 +1,74 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { GetDHLPickup } from '../validator'
+import { DHL_SETTINGS_MODULE } from '../../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../../modules/setting/service'
+import { getAuthToken } from '../../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../../dhl-api/environment'
+import { getPickupRequest } from '../../../../../dhl-api/get-pickup-requests'
+import { DHLPickupRequest } from '../../../../../dhl-api/types'
+
+export type GetDHLPickupResponse = {
+  pickup: DHLPickupRequest | null
+  errors?: string[]
+}
+
+/**
+ * Retrieve a DHL pickup with its status events.
+ * GET /admin/dhl/pickups/:id?stock_location_id=
+ *
+ * Pass the stock location when the pickup was booked with the location's own DHL account.
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse<GetDHLPickupResponse>) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = GetDHLPickup.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      pickup: null,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials(parsed.data.stock_location_id)
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      pickup: null,
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  try {
+    const baseUrl = getDhlBaseUrl(credentials)
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+    const pickup = await getPickupRequest(
+      baseUrl,
+      token,
+      req.params.id,
+      credentials.enable_logs ? logger : undefined,
+    )
+
+    if (!pickup) {
+      return res.status(404).json({
+        pickup: null,
+        errors: ['Pickup not found'],
+      })
+    }
+
+    return res.json({ pickup })
+  } catch (error) {
+    logger.error(
+      `[DHL Pickups] Failed to fetch pickup ${req.params.id}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(502).json({
+      pickup: null,
+      errors: ['Failed to fetch the DHL pickup'],
+    })
+  }
+}
@@ -0,0 +1,229 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { z } from 'zod'
+import { GetDHLPickups, PostDHLPickup } from './validator'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+import { getAuthToken } from '../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../dhl-api/environment'
+import { getPickupRequests } from '../../../../dhl-api/get-pickup-requests'
+import { DHLPickupRequest } from '../../../../dhl-api/types'
+import { getLocalDate, getShipmentDate, getShippingSchedule } from '../../../../utils/shipment-date'
+import getPickupParcelsWorkflow from '../../../../workflows/get-pickup-parcels'
+import createPickupRequestWorkflow from '../../../../workflows/create-pickup-request'
+
+export type GetDHLPickupsQuery = z.infer<typeof GetDHLPickups>
+
+export type PostDHLPickupInput = z.infer<typeof PostDHLPickup>
+
+export type GetDHLPickupsResponse = {
+  pickups: DHLPickupRequest[]
+  pickup_date: string | null
+  expected_parcels: number
+  errors?: string[]
+}
+
+export type PostDHLPickupResponse = {
+  pickup: DHLPickupRequest | null
+  expected_parcels: number
+  errors?: string[]
+}
+
+type StockLocationWithAddress = {
+  id: string
+  address?: { postal_code?: string | null } | null
+}
+
+type QueryGraph = {
+  graph: <T>(args: {
+    entity: string
+    fields: string[]
+    filters?: Record<string, unknown>
+  }) => Promise<{ data: T[] }>
+}
+
+const normalizePostalCode = (postalCode?: string | null) =>
+  (postalCode ?? '').replace(/\s+/g, '').toUpperCase()
+
+/**
+ * List the upcoming DHL pickups of a stock location and the parcels waiting for a pickup.
+ * GET /admin/dhl/pickups?stock_location_id=&date=
+ *
+ * The expected parcels are the labelled DHL parcels that ship from the stock location on
+ * `date`, which defaults to the next shipping day.
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse<GetDHLPickupsResponse>) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = GetDHLPickups.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      pickups: [],
+      pickup_date: null,
+      expected_parcels: 0,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const query: GetDHLPickupsQuery = parsed.data
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials(query.stock_location_id)
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      pickups: [],
+      pickup_date: null,
+      expected_parcels: 0,
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  const queryGraph = req.scope.resolve<QueryGraph>('query')
+  const { data: stockLocations } = await queryGraph.graph<StockLocationWithAddress>({
+    entity: 'stock_location',
+    fields: ['id', 'address.postal_code'],
+    filters: { id: query.stock_location_id },
+  })
+  if (!stockLocations.length) {
+    return res.status(404).json({
+      pickups: [],
+      pickup_date: null,
+      expected_parcels: 0,
+      errors: ['Stock location not found'],
+    })
+  }
+
+  const schedule = getShippingSchedule(credentials)
+  const pickupDate = query.date ?? getShipmentDate(new Date(), schedule)
+  const today = getLocalDate(new Date(), schedule.timeZone)
+  const debugLogger = credentials.enable_logs ? logger : undefined
+
+  try {
+    const baseUrl = getDhlBaseUrl(credentials)
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+
+    const [pickups, { result: parcels }] = await Promise.all([
+      getPickupRequests(baseUrl, token, credentials.account_id, debugLogger),
+      getPickupParcelsWorkflow(req.scope).run({
+        input: {
+          locationId: query.stock_location_id,
+          pickupDate,
+          shippingSchedule: schedule,
+        },
+      }),
+    ])
+
+    // Stock locations can share a DHL account, so pickups are matched on the pickup address
+    const postalCode = normalizePostalCode(stockLocations[0].address?.postal_code)
+    const upcoming = pickups
+      .filter(
+        (pickup) =>
+          pickup.pickupDate >= today &&
+          normalizePostalCode(pickup.shipper.address.postalCode) === postalCode,
+      )
+      .sort((a, b) => a.pickupDate.localeCompare(b.pickupDate))
+
+    return res.json({
+      pickups: upcoming,
+      pickup_date: pickupDate,
+      expected_parcels: parcels.count,
+    })
+  } catch (error) {
+    logger.error(
+      `[DHL Pickups] Failed to list pickups for ${query.stock_location_id}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(502).json({
+      pickups: [],
+      pickup_date: pickupDate,
+      expected_parcels: 0,
+      errors: ['Failed to fetch DHL pickups'],
+    })
+  }
+}
+
+/**
+ * Book a DHL pickup at a stock location.
+ * POST /admin/dhl/pickups
+ *
+ * The pickup date defaults to the next shipping day and the number of packages to the
+ * labelled DHL parcels that ship from the stock location on that date.
+ */
+export const POST = async (req: MedusaRequest, res: MedusaResponse<PostDHLPickupResponse>) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = PostDHLPickup.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      pickup: null,
+      expected_parcels: 0,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const input: PostDHLPickupInput = parsed.data
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials(input.stock_location_id)
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      pickup: null,
+      expected_parcels: 0,
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  const schedule = getShippingSchedule(credentials)
+  const baseUrl = getDhlBaseUrl(credentials)
+
+  let token: string
+  try {
+    token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+  } catch (error) {
+    logger.error(
+      `[DHL Pickups] Failed to book a pickup for ${input.stock_location_id}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(502).json({
+      pickup: null,
+      expected_parcels: 0,
+      errors: ['Failed to log in to DHL'],
+    })
+  }
+
+  const { result, errors } = await createPickupRequestWorkflow(req.scope).run({
+    input: {
+      token,
+      baseUrl,
+      accountId: credentials.account_id,
+      locationId: input.stock_location_id,
+      pickupDate: input.pickup_date ?? getShipmentDate(new Date(), schedule),
+      timeSlot: input.time_slot,
+      numberOfPackages: input.number_of_packages,
+      description: input.description,
+      shippingSchedule: schedule,
+      debug: credentials.enable_logs,
+      _logger: credentials.enable_logs ? logger : undefined,
+    },
+    throwOnError: false,
+  })
+
+  if (errors && errors.length > 0) {
+    return res.status(400).json({
+      pickup: null,
+      expected_parcels: 0,
+      errors: errors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  return res.json({
+    pickup: result.pickup,
+    expected_parcels: result.parcels.count,
+  })
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod'
+
+const PickupDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+const PickupTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+
+export const GetDHLPickups = z.object({
+  stock_location_id: z.string().min(1),
+  date: PickupDate.optional(),
+})
+
+export const PostDHLPickup = z.object({
+  stock_location_id: z.string().min(1),
+  pickup_date: PickupDate.optional(),
+  time_slot: z
+    .object({
+      from: PickupTime,
+      to: PickupTime,
+    })
+    .refine((slot) => slot.from < slot.to, {
+      message: 'The time slot has to start before it ends',
+      path: ['to'],
+    })
+    .nullable()
+    .optional(),
+  number_of_packages: z.number().int().min(1).max(999).optional(),
+  description: z.string().max(255).optional(),
+})
+
+export const GetDHLPickup = z.object({
+  stock_location_id: z.string().min(1).optional(),
+})
@@ -0,0 +1,46 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { PostDHLPricingRulesPreview } from '../validator'
+import { DHL_SETTINGS_MODULE } from '../../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../../modules/setting/service'
+import { applyPricingRules, PricingRulesResult } from '../../../../../utils/pricing-rules'
+
+export type DHLPricingRulesPreviewResponse = {
+  dhl_price: number
+  amount: number
+  applied_rules: PricingRulesResult['appliedRules']
+  errors?: string[]
+}
+
+/**
+ * Preview the price of a sample cart after the pricing rules are applied.
+ * POST /admin/dhl/pricing-rules/preview
+ *
+ * Unsaved rules can be previewed by sending them as `rules`; otherwise the saved rules are used.
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse<DHLPricingRulesPreviewResponse>,
+) => {
+  const parsed = PostDHLPricingRulesPreview.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      dhl_price: 0,
+      amount: 0,
+      applied_rules: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const sample = parsed.data
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const rules = sample.rules ?? (await dhlSettingService.listPricingRules())
+
+  const { amount, appliedRules } = applyPricingRules(sample.dhl_price, rules, {
+    optionKey: sample.option_key,
+    countryCode: sample.country_code,
+    subtotal: sample.subtotal,
+    customerGroupIds: sample.customer_group_ids,
+  })
+
+  res.json({ dhl_price: sample.dhl_price, amount, applied_rules: appliedRules })
+}
@@ -0,0 +1,53 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { z } from 'zod'
+import { DHLPricingRuleSchema, PostDHLPricingRules } from './validator'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+import setupPricingRulesWorkflow from '../../../../workflows/setup-pricing-rules'
+
+export type DHLPricingRuleInput = z.infer<typeof DHLPricingRuleSchema>
+
+export type SetupPricingRulesInput = z.infer<typeof PostDHLPricingRules>
+
+export type DHLPricingRulesResponse = {
+  rules: DHLPricingRuleInput[]
+  errors?: string[]
+}
+
+/**
+ * List the pricing rules applied to DHL rates.
+ * GET /admin/dhl/pricing-rules
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse<DHLPricingRulesResponse>) => {
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const rules = await dhlSettingService.listPricingRules()
+  res.json({ rules })
+}
+
+/**
+ * Replace the pricing rules applied to DHL rates.
+ * POST /admin/dhl/pricing-rules
+ */
+export const POST = async (req: MedusaRequest, res: MedusaResponse<DHLPricingRulesResponse>) => {
+  const parsed = PostDHLPricingRules.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      rules: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const { result, errors } = await setupPricingRulesWorkflow(req.scope).run({
+    input: parsed.data,
+    throwOnError: false,
+  })
+
+  if (errors && errors.length > 0) {
+    return res.status(400).json({
+      rules: [],
+      errors: errors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  res.json({ rules: result })
+}
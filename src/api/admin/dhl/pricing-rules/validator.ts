@@ -0,0 +1,44 @@
+import { z } from 'zod'
+
+export const DHLPricingRuleSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    name: z.string().min(1).max(100),
+    is_enabled: z.boolean().default(true),
+    priority: z.number().int().default(0),
+    option_keys: z.array(z.string().min(1)).default([]),
+    country_codes: z.array(z.string().length(2)).default([]),
+    customer_group_ids: z.array(z.string().min(1)).default([]),
+    min_subtotal: z.number().min(0).nullable().default(null),
+    max_subtotal: z.number().min(0).nullable().default(null),
+    handling_fee: z.number().default(0),
+    markup_percentage: z.number().min(-100).default(0),
+    round_ending: z.number().min(0).lt(1).nullable().default(null),
+    free_shipping: z.boolean().default(false),
+  })
+  .refine(
+    (rule) =>
+      rule.min_subtotal === null ||
+      rule.max_subtotal === null ||
+      rule.min_subtotal <= rule.max_subtotal,
+    {
+      message: 'The minimum subtotal must not exceed the maximum subtotal',
+      path: ['max_subtotal'],
+    },
+  )
+
+export const PostDHLPricingRules = z.object({
+  rules: z.array(DHLPricingRuleSchema),
+})
+
+export const PostDHLPricingRulesPreview = z.object({
+  dhl_price: z.number().min(0),
+  option_key: z.string().min(1),
+  country_code: z.string().length(2),
+  subtotal: z.number().min(0),
+  customer_group_ids: z.array(z.string().min(1)).default([]),
+  /**
+   * Unsaved rules to preview; the saved rules are used when left out.
+   */
+  rules: z.array(DHLPricingRuleSchema).optional(),
+})
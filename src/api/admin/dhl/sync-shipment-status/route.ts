@@ -2,14 +2,13 @@ import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
 import cronSyncShipmentStatusWorkflow from '../../../../workflows/cron-sync-shipment-status'
 import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
 import DHLSettingsModuleService from '../../../../modules/setting/service'
-import { getAuthToken } from '../../../../dhl-api/auth'
+import { getAuthToken } from '../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../dhl-api/environment'
 
 export type PostDhlTrackingSyncResponse = {
   synced: number
 }
 
-const DHL_BASE_URL = 'https://api-gw.dhlparcel.nl'
-
 /**
  * Trigger a DHL tracking sync run.
  * This can be called from an external cron if you don't use Medusa's internal job runner.
@@ -24,8 +23,9 @@ export const POST = async (
     return res.status(400).json({ synced: 0 })
   }
 
+  const baseUrl = getDhlBaseUrl(credentials)
   const token = await getAuthToken(
-    DHL_BASE_URL,
+    baseUrl,
     credentials.user_id,
     credentials.api_key,
     credentials.account_id,
@@ -35,7 +35,7 @@ export const POST = async (
     input: {
       limit: 50,
       token,
-      baseUrl: DHL_BASE_URL,
+      baseUrl,
       debug: credentials.enable_logs,
     },
   })
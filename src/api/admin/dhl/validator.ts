@@ -1,13 +1,80 @@
 import { z } from 'zod'
+import { WEEKDAYS } from '../../../utils/shipment-date'
+import { DHL_API_ENVIRONMENTS } from '../../../dhl-api/environment'
+import { PRICE_TAX_MODES } from '../../../utils/price-tax-mode'
+import { DHL_LABEL_FORMATS, DHL_LABEL_PAGE_SIZES } from '../../../dhl-api/label-format'
+import {
+  DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE,
+  isValidIpAllowlistEntry,
+} from '../../../utils/webhook-security'
 
-export const PostDHLSettings = z.object({
-  is_enabled: z.boolean(),
-  user_id: z.string().min(2).max(100),
-  api_key: z.string().min(2).max(100),
-  account_id: z.string().min(2).max(100),
-  enable_logs: z.boolean(),
-  item_dimensions_unit: z.enum(['mm', 'cm']).default('mm'),
-  item_weight_unit: z.enum(['g', 'kg']).default('g'),
-  webhook_api_key: z.string().min(50).max(150).nullable().optional(),
-  webhook_api_key_header: z.string().min(1).max(100).default('Authorization'),
-})
+export const PostDHLSettings = z
+  .object({
+    is_enabled: z.boolean(),
+    user_id: z.string().min(2).max(100),
+    api_key: z.string().min(2).max(100),
+    account_id: z.string().min(2).max(100),
+    enable_logs: z.boolean(),
+    item_dimensions_unit: z.enum(['mm', 'cm']).default('mm'),
+    item_weight_unit: z.enum(['g', 'kg']).default('g'),
+    webhook_api_key: z.string().min(50).max(150).nullable().optional(),
+    webhook_api_key_header: z.string().min(1).max(100).default('Authorization'),
+    webhook_secondary_api_key: z.string().min(50).max(150).nullable().optional(),
+    webhook_allowed_ips: z
+      .array(
+        z.string().refine(isValidIpAllowlistEntry, {
+          message: 'Must be an IP address or a CIDR range',
+        }),
+      )
+      .max(100)
+      .default([]),
+    webhook_rate_limit_per_minute: z
+      .number()
+      .int()
+      .min(0)
+      .max(100000)
+      .default(DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE),
+    webhook_max_event_age_minutes: z.number().int().min(1).max(10080).nullable().optional(),
+    use_drafts: z.boolean().default(false),
+    draft_promotion_delay_minutes: z.number().int().min(0).max(10080).nullable().optional(),
+    shipping_cutoff_time: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .default('16:00'),
+    non_shipping_days: z.array(z.enum(WEEKDAYS)).max(6).default(['saturday', 'sunday']),
+    shipping_timezone: z.string().min(1).max(100).default('Europe/Amsterdam'),
+    api_environment: z.enum(DHL_API_ENVIRONMENTS).default('production'),
+    api_base_url: z.string().url().max(255).nullable().optional(),
+    capabilities_cache_ttl_seconds: z.number().int().min(0).max(86400).default(300),
+    price_tax_mode: z.enum(PRICE_TAX_MODES).default('gross'),
+    business_price_tax_mode: z.enum(PRICE_TAX_MODES).nullable().optional(),
+    auto_pickup_enabled: z.boolean().default(false),
+    pickup_time_from: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .nullable()
+      .optional(),
+    pickup_time_to: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .nullable()
+      .optional(),
+    label_format: z.enum(DHL_LABEL_FORMATS).default('pdf'),
+    label_page_size: z.enum(DHL_LABEL_PAGE_SIZES).default('a6'),
+    label_retention_days: z.number().int().min(1).max(3650).nullable().optional(),
+    insurance_threshold: z.number().min(0).max(1000000).nullable().optional(),
+    reference_template: z.string().min(1).max(100).default('{display_id}'),
+  })
+  .refine((settings) => settings.api_environment !== 'custom' || !!settings.api_base_url, {
+    message: 'A base URL is required for the custom environment',
+    path: ['api_base_url'],
+  })
+  .refine(
+    (settings) =>
+      !settings.pickup_time_from === !settings.pickup_time_to &&
+      (!settings.pickup_time_from || settings.pickup_time_from < settings.pickup_time_to!),
+    {
+      message: 'The pickup time slot needs a start before its end',
+      path: ['pickup_time_to'],
+    },
+  )
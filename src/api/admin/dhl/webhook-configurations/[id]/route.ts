@@ -0,0 +1,61 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { DHL_SETTINGS_MODULE } from '../../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../../modules/setting/service'
+import { getAuthToken } from '../../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../../dhl-api/environment'
+import { removePusherConfiguration } from '../../../../../dhl-api/remove-pusher-configuration'
+
+export type DeleteDHLWebhookConfigurationResponse = {
+  id: string
+  deleted: boolean
+  errors?: string[]
+}
+
+/**
+ * Delete a Track & Trace Pusher configuration, so DHL stops pushing to its URL.
+ * DELETE /admin/dhl/webhook-configurations/:id
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse<DeleteDHLWebhookConfigurationResponse>,
+) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials()
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      id: req.params.id,
+      deleted: false,
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  try {
+    const baseUrl = getDhlBaseUrl(credentials)
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+    await removePusherConfiguration(
+      baseUrl,
+      token,
+      req.params.id,
+      credentials.enable_logs ? logger : undefined,
+    )
+
+    return res.json({ id: req.params.id, deleted: true })
+  } catch (error) {
+    logger.error(
+      `[DHL Webhook] Failed to delete pusher configuration ${req.params.id}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(500).json({
+      id: req.params.id,
+      deleted: false,
+      errors: ['Internal Server Error'],
+    })
+  }
+}
@@ -0,0 +1,115 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { IFulfillmentModuleService, Logger } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { z } from 'zod'
+import { PostDHLWebhookTest } from '../../validator'
+import { DHL_SETTINGS_MODULE } from '../../../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../../../modules/setting/service'
+import { getAuthToken } from '../../../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../../../dhl-api/environment'
+import { subscribePusherUpdates } from '../../../../../../dhl-api/subscribe-pusher-updates'
+
+export type PostDHLWebhookTestInput = z.infer<typeof PostDHLWebhookTest>
+
+export type PostDHLWebhookTestResponse = {
+  tracker_code: string | null
+  requested_at: string | null
+  errors?: string[]
+}
+
+// The parcels that are searched for one to test with
+const RECENT_FULFILLMENTS = 20
+
+/**
+ * Send a test push to the webhook of a Track & Trace Pusher configuration.
+ * POST /admin/dhl/webhook-configurations/:id/test
+ *
+ * A DHL parcel, the given one or the latest labelled one, is subscribed to the configuration,
+ * after which DHL pushes its status to the webhook. The endpoint is reachable once
+ * `last_received_at` of GET /admin/dhl/webhook-configurations is after `requested_at`.
+ */
+export const POST = async (req: MedusaRequest, res: MedusaResponse<PostDHLWebhookTestResponse>) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = PostDHLWebhookTest.safeParse(req.body ?? {})
+  if (!parsed.success) {
+    return res.status(400).json({
+      tracker_code: null,
+      requested_at: null,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const input: PostDHLWebhookTestInput = parsed.data
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials()
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      tracker_code: null,
+      requested_at: null,
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  // The webhook only accepts pushes for parcels it knows, so a parcel of the store is used
+  const fulfillmentService = req.scope.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+  const fulfillments = await fulfillmentService.listFulfillments(
+    {
+      provider_id: 'dhl',
+      canceled_at: { $eq: null },
+      ...(input.tracker_code ? { labels: { tracking_number: input.tracker_code } } : {}),
+    },
+    {
+      select: ['id', 'created_at'],
+      relations: ['labels', 'delivery_address'],
+      order: { created_at: 'DESC' },
+      take: RECENT_FULFILLMENTS,
+    },
+  )
+
+  const fulfillment = fulfillments.find((f) =>
+    (f.labels ?? []).some(
+      (label) => !input.tracker_code || label.tracking_number === input.tracker_code,
+    ),
+  )
+  const trackerCode =
+    input.tracker_code ??
+    fulfillment?.labels?.find((label) => label.tracking_number)?.tracking_number
+  if (!fulfillment || !trackerCode) {
+    return res.status(404).json({
+      tracker_code: null,
+      requested_at: null,
+      errors: ['No DHL parcel found to test the webhook with'],
+    })
+  }
+
+  const requestedAt = new Date().toISOString()
+  try {
+    const baseUrl = getDhlBaseUrl(credentials)
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+    await subscribePusherUpdates(
+      baseUrl,
+      token,
+      req.params.id,
+      trackerCode,
+      fulfillment.delivery_address?.postal_code ?? undefined,
+      credentials.enable_logs ? logger : undefined,
+    )
+
+    return res.json({ tracker_code: trackerCode, requested_at: requestedAt })
+  } catch (error) {
+    logger.error(
+      `[DHL Webhook] Failed to request a test push for ${trackerCode}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(502).json({
+      tracker_code: trackerCode,
+      requested_at: null,
+      errors: ['DHL did not accept the test push'],
+    })
+  }
+}
@@ -0,0 +1,152 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { z } from 'zod'
+import { PostDHLWebhookConfiguration } from './validator'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+import { getAuthToken } from '../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../dhl-api/environment'
+import { getPusherConfigurations } from '../../../../dhl-api/get-pusher-configurations'
+import registerWebhookWorkflow, { RegisteredWebhook } from '../../../../workflows/register-webhook'
+
+export type PostDHLWebhookConfigurationInput = z.infer<typeof PostDHLWebhookConfiguration>
+
+export type DHLWebhookConfigurationData = {
+  id: string
+  name: string
+  url: string | null
+}
+
+export type GetDHLWebhookConfigurationsResponse = {
+  configurations: DHLWebhookConfigurationData[]
+  last_received_at: string | null
+  errors?: string[]
+}
+
+export type PostDHLWebhookConfigurationResponse = {
+  configuration: RegisteredWebhook | null
+  errors?: string[]
+}
+
+/**
+ * List the Track & Trace Pusher configurations DHL pushes shipment statuses with.
+ * GET /admin/dhl/webhook-configurations
+ *
+ * `last_received_at` is when the webhook last accepted a push, to check that DHL reaches it.
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse<GetDHLWebhookConfigurationsResponse>,
+) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const [settings] = await dhlSettingService.listDHLSettings()
+  const credentials = await dhlSettingService.getCredentials()
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      configurations: [],
+      last_received_at: null,
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  const lastReceivedAt = settings?.webhook_last_received_at
+    ? new Date(settings.webhook_last_received_at).toISOString()
+    : null
+
+  try {
+    const baseUrl = getDhlBaseUrl(credentials)
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+    const configurations = await getPusherConfigurations(
+      baseUrl,
+      token,
+      credentials.enable_logs ? logger : undefined,
+    )
+
+    return res.json({
+      configurations: configurations.map((configuration) => ({
+        id: configuration.id,
+        name: configuration.name,
+        url: configuration.trackTraceConfiguration?.url ?? null,
+      })),
+      last_received_at: lastReceivedAt,
+    })
+  } catch (error) {
+    logger.error(
+      `[DHL Webhook] Failed to list pusher configurations: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(500).json({
+      configurations: [],
+      last_received_at: lastReceivedAt,
+      errors: ['Internal Server Error'],
+    })
+  }
+}
+
+/**
+ * Register the webhook with DHL's Track & Trace Pusher.
+ * POST /admin/dhl/webhook-configurations
+ *
+ * A strong API key is generated and stored in the settings together with its header, so
+ * the key never has to be copied by hand. The previous key stays active as the secondary key
+ * until the next registration, so delete the previous configuration once the new one works.
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse<PostDHLWebhookConfigurationResponse>,
+) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = PostDHLWebhookConfiguration.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      configuration: null,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const input: PostDHLWebhookConfigurationInput = parsed.data
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials()
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      configuration: null,
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  const baseUrl = getDhlBaseUrl(credentials)
+  const token = await getAuthToken(
+    baseUrl,
+    credentials.user_id,
+    credentials.api_key,
+    credentials.account_id,
+  )
+
+  const { result, errors } = await registerWebhookWorkflow(req.scope).run({
+    input: {
+      name: input.name,
+      url: input.url,
+      token,
+      baseUrl,
+      debug: credentials.enable_logs,
+      _logger: logger,
+    },
+    throwOnError: false,
+  })
+
+  if (errors && errors.length > 0) {
+    return res.status(400).json({
+      configuration: null,
+      errors: errors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  res.json({ configuration: result })
+}
@@ -0,0 +1,16 @@
+import { z } from 'zod'
+
+export const PostDHLWebhookConfiguration = z.object({
+  name: z.string().min(1).max(100).default('Medusa'),
+  url: z
+    .string()
+    .url()
+    .max(255)
+    .refine((url) => url.startsWith('https://'), {
+      message: 'DHL only pushes to HTTPS URLs',
+    }),
+})
+
+export const PostDHLWebhookTest = z.object({
+  tracker_code: z.string().min(1).max(100).optional(),
+})
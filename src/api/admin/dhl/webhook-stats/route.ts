@@ -0,0 +1,15 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { getWebhookStats, WebhookStats } from '../../../../utils/webhook-security'
+
+export type GetDHLWebhookStatsResponse = WebhookStats
+
+/**
+ * Get the number of accepted and rejected DHL webhook requests, by the reason they were
+ * rejected.
+ * GET /admin/dhl/webhook-stats
+ *
+ * The statistics are kept per server process since it started.
+ */
+export const GET = async (_req: MedusaRequest, res: MedusaResponse<GetDHLWebhookStatsResponse>) => {
+  res.json(getWebhookStats())
+}
@@ -0,0 +1,11 @@
+import { authenticate, defineMiddlewares } from '@medusajs/framework/http'
+
+export default defineMiddlewares({
+  routes: [
+    {
+      // Delivery interventions change the parcels of an order, so only its customer may use them
+      matcher: '/store/dhl/interventions*',
+      middlewares: [authenticate('customer', ['session', 'bearer'])],
+    },
+  ],
+})
@@ -0,0 +1,136 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { z } from 'zod'
+import { GetDHLEstimatedDelivery } from './validator'
+import { getEstimatedDelivery } from '../../../../dhl-api/get-transit-times'
+import { DHLEstimatedDelivery } from '../../../../dhl-api/types'
+import { getDhlBaseUrl } from '../../../../dhl-api/environment'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+import { Weekday } from '../../../../utils/shipment-date'
+
+export type GetDHLEstimatedDeliveryQuery = z.infer<typeof GetDHLEstimatedDelivery>
+
+export type GetDHLEstimatedDeliveryResponse = {
+  estimated_delivery: DHLEstimatedDelivery | null
+  errors?: string[]
+}
+
+type Address = {
+  country_code?: string | null
+  postal_code?: string | null
+  company?: string | null
+}
+
+type CartWithAddress = {
+  id: string
+  shipping_address?: Address | null
+}
+
+type ShippingOptionWithLocation = {
+  id: string
+  service_zone?: {
+    fulfillment_set?: {
+      location?: { address?: Address | null } | null
+    } | null
+  } | null
+}
+
+type QueryGraph = {
+  graph: <T>(args: {
+    entity: string
+    fields: string[]
+    filters: Record<string, unknown>
+  }) => Promise<{ data: T[] }>
+}
+
+/**
+ * Estimates the DHL delivery date for a cart.
+ * GET /store/dhl/estimated-delivery?cart_id=&shipping_option_id=
+ *
+ * The parcel is assumed to ship on the next shipping day, taking the configured cut-off
+ * time and non-shipping days into account. DHL's transit times from the shipping option's
+ * stock location to the cart's shipping address determine the expected delivery date.
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse<GetDHLEstimatedDeliveryResponse>,
+) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = GetDHLEstimatedDelivery.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      estimated_delivery: null,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const query: GetDHLEstimatedDeliveryQuery = parsed.data
+  const queryGraph = req.scope.resolve<QueryGraph>('query')
+
+  const { data: carts } = await queryGraph.graph<CartWithAddress>({
+    entity: 'cart',
+    fields: [
+      'id',
+      'shipping_address.country_code',
+      'shipping_address.postal_code',
+      'shipping_address.company',
+    ],
+    filters: { id: query.cart_id },
+  })
+
+  const destination = carts[0]?.shipping_address
+  if (!destination?.country_code || !destination?.postal_code) {
+    return res.status(400).json({
+      estimated_delivery: null,
+      errors: ['Cart has no shipping address with a country and postal code'],
+    })
+  }
+
+  const { data: shippingOptions } = await queryGraph.graph<ShippingOptionWithLocation>({
+    entity: 'shipping_option',
+    fields: [
+      'id',
+      'service_zone.fulfillment_set.location.address.country_code',
+      'service_zone.fulfillment_set.location.address.postal_code',
+    ],
+    filters: { id: query.shipping_option_id },
+  })
+
+  const origin = shippingOptions[0]?.service_zone?.fulfillment_set?.location?.address
+  if (!origin?.country_code || !origin?.postal_code) {
+    return res.status(400).json({
+      estimated_delivery: null,
+      errors: ['Shipping option has no stock location address'],
+    })
+  }
+
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const settings = await dhlSettingService.getCredentials()
+
+  try {
+    const estimatedDelivery = await getEstimatedDelivery(
+      getDhlBaseUrl(settings),
+      { countryCode: origin.country_code, postalCode: origin.postal_code },
+      { countryCode: destination.country_code, postalCode: destination.postal_code },
+      !!destination.company,
+      {
+        cutoffTime: settings?.shipping_cutoff_time ?? '16:00',
+        nonShippingDays: settings?.non_shipping_days ?? (['saturday', 'sunday'] as Weekday[]),
+        timeZone: settings?.shipping_timezone ?? 'Europe/Amsterdam',
+      },
+      settings?.enable_logs ? logger : undefined,
+    )
+
+    return res.json({ estimated_delivery: estimatedDelivery })
+  } catch (error) {
+    logger.error(
+      `[DHL Estimated Delivery] Failed to estimate delivery date: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(500).json({
+      estimated_delivery: null,
+      errors: ['Internal Server Error'],
+    })
+  }
+}
@@ -0,0 +1,120 @@
+import { AuthenticatedMedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { z } from 'zod'
+import { GetDHLInterventionNeighbours } from '../validator'
+import { DHL_SETTINGS_MODULE } from '../../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../../modules/setting/service'
+import { getAuthToken } from '../../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../../dhl-api/environment'
+import { getInterventionNeighbours } from '../../../../../dhl-api/get-intervention-neighbours'
+import getCustomerDhlParcelWorkflow from '../../../../../workflows/get-customer-dhl-parcel'
+
+export type GetDHLInterventionNeighboursQuery = z.infer<typeof GetDHLInterventionNeighbours>
+
+export type DHLNeighbourAddressData = {
+  street: string
+  house_number: string
+  house_number_addition?: string
+  postal_code: string
+  city: string
+  kix_code?: string
+}
+
+export type GetDHLInterventionNeighboursResponse = {
+  neighbours: DHLNeighbourAddressData[]
+  errors?: string[]
+}
+
+/**
+ * Lists the neighbours with a house number that a parcel of the customer's order can be
+ * delivered to.
+ * GET /store/dhl/interventions/neighbours?order_id=&tracker_code=&house_number=
+ *
+ * A selected neighbour has to be sent back unchanged as `neighbour_address` to
+ * POST /store/dhl/interventions.
+ */
+export const GET = async (
+  req: AuthenticatedMedusaRequest,
+  res: MedusaResponse<GetDHLInterventionNeighboursResponse>,
+) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = GetDHLInterventionNeighbours.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      neighbours: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const query: GetDHLInterventionNeighboursQuery = parsed.data
+  const { result: parcel, errors: parcelErrors } = await getCustomerDhlParcelWorkflow(
+    req.scope,
+  ).run({
+    input: {
+      orderId: query.order_id,
+      customerId: req.auth_context.actor_id,
+      trackerCode: query.tracker_code,
+    },
+    throwOnError: false,
+  })
+
+  if (parcelErrors && parcelErrors.length > 0) {
+    return res.status(404).json({
+      neighbours: [],
+      errors: parcelErrors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials(parcel.locationId)
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      neighbours: [],
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  try {
+    const baseUrl = getDhlBaseUrl(credentials)
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+
+    const neighbours = await getInterventionNeighbours(
+      baseUrl,
+      token,
+      parcel.trackerCode,
+      parcel.postalCode,
+      query.house_number,
+      credentials.enable_logs ? logger : undefined,
+    )
+
+    return res.json({
+      neighbours: neighbours
+        .filter(
+          (neighbour) =>
+            neighbour.street && neighbour.houseNumber && neighbour.postalCode && neighbour.city,
+        )
+        .map((neighbour) => ({
+          street: neighbour.street as string,
+          house_number: neighbour.houseNumber as string,
+          house_number_addition: neighbour.houseNumberAddition,
+          postal_code: neighbour.postalCode as string,
+          city: neighbour.city as string,
+          kix_code: neighbour.kixCode,
+        })),
+    })
+  } catch (error) {
+    logger.error(
+      `[DHL Interventions] Failed to fetch neighbours: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(500).json({
+      neighbours: [],
+      errors: ['Internal Server Error'],
+    })
+  }
+}
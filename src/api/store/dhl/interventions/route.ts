@@ -0,0 +1,232 @@
+import { AuthenticatedMedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { z } from 'zod'
+import { GetDHLInterventions, PostDHLIntervention } from './validator'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+import { getAuthToken } from '../../../../dhl-api/token-manager'
+import { getDhlBaseUrl } from '../../../../dhl-api/environment'
+import { getInterventionOptions } from '../../../../dhl-api/get-intervention-options'
+import { DHLInterventionData, DHLInterventionOptions } from '../../../../dhl-api/types'
+import getCustomerDhlParcelWorkflow from '../../../../workflows/get-customer-dhl-parcel'
+import requestInterventionWorkflow from '../../../../workflows/request-intervention'
+
+export type GetDHLInterventionsQuery = z.infer<typeof GetDHLInterventions>
+
+export type PostDHLInterventionBody = z.infer<typeof PostDHLIntervention>
+
+type DHLParcelInterventionOptions = NonNullable<DHLInterventionOptions['aggregatedOptions']>
+
+export type GetDHLInterventionsResponse = {
+  options: DHLParcelInterventionOptions | null
+  timeframes: NonNullable<DHLInterventionOptions['timeFrames']>
+  service_points: NonNullable<DHLInterventionOptions['servicepoints']>
+  errors?: string[]
+}
+
+export type PostDHLInterventionResponse = {
+  intervention: DHLInterventionData | null
+  errors?: string[]
+}
+
+/**
+ * Lists the delivery interventions DHL offers for a parcel of the customer's order.
+ * GET /store/dhl/interventions?order_id=&tracker_code=
+ *
+ * Besides whether each intervention is available, the delivery timeframes and ServicePoints
+ * the parcel can be moved to are returned. Neighbours are looked up by house number with
+ * GET /store/dhl/interventions/neighbours.
+ */
+export const GET = async (
+  req: AuthenticatedMedusaRequest,
+  res: MedusaResponse<GetDHLInterventionsResponse>,
+) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = GetDHLInterventions.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      options: null,
+      timeframes: [],
+      service_points: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const query: GetDHLInterventionsQuery = parsed.data
+  const { result: parcel, errors: parcelErrors } = await getCustomerDhlParcelWorkflow(
+    req.scope,
+  ).run({
+    input: {
+      orderId: query.order_id,
+      customerId: req.auth_context.actor_id,
+      trackerCode: query.tracker_code,
+    },
+    throwOnError: false,
+  })
+
+  if (parcelErrors && parcelErrors.length > 0) {
+    return res.status(404).json({
+      options: null,
+      timeframes: [],
+      service_points: [],
+      errors: parcelErrors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  // The parcel was shipped with the DHL account of its stock location
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials(parcel.locationId)
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      options: null,
+      timeframes: [],
+      service_points: [],
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  try {
+    const baseUrl = getDhlBaseUrl(credentials)
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+
+    const options = await getInterventionOptions(
+      baseUrl,
+      token,
+      parcel.trackerCode,
+      parcel.postalCode,
+      credentials.enable_logs ? logger : undefined,
+    )
+
+    return res.json({
+      options:
+        options.interventionOptions?.[parcel.trackerCode] ?? options.aggregatedOptions ?? null,
+      timeframes: options.timeFrames ?? [],
+      service_points: options.servicepoints ?? [],
+    })
+  } catch (error) {
+    logger.error(
+      `[DHL Interventions] Failed to fetch intervention options: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(500).json({
+      options: null,
+      timeframes: [],
+      service_points: [],
+      errors: ['Internal Server Error'],
+    })
+  }
+}
+
+/**
+ * Requests a delivery intervention for a parcel of the customer's order.
+ * POST /store/dhl/interventions
+ *
+ * The parcel can be delivered to a neighbour, on another date or at a ServicePoint, as
+ * offered by GET /store/dhl/interventions. DHL's API has no endpoint to submit the
+ * intervention, so the checked request is recorded on the fulfillment data under
+ * `interventions` for support staff to carry out.
+ */
+export const POST = async (
+  req: AuthenticatedMedusaRequest,
+  res: MedusaResponse<PostDHLInterventionResponse>,
+) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = PostDHLIntervention.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      intervention: null,
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const body: PostDHLInterventionBody = parsed.data
+  const { result: parcel, errors: parcelErrors } = await getCustomerDhlParcelWorkflow(
+    req.scope,
+  ).run({
+    input: {
+      orderId: body.order_id,
+      customerId: req.auth_context.actor_id,
+      trackerCode: body.tracker_code,
+    },
+    throwOnError: false,
+  })
+
+  if (parcelErrors && parcelErrors.length > 0) {
+    return res.status(404).json({
+      intervention: null,
+      errors: parcelErrors.map((e) => e.error?.message ?? String(e.error)),
+    })
+  }
+
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const credentials = await dhlSettingService.getCredentials(parcel.locationId)
+  if (!credentials?.user_id || !credentials?.api_key || !credentials?.account_id) {
+    return res.status(400).json({
+      intervention: null,
+      errors: ['DHL is not configured'],
+    })
+  }
+
+  try {
+    const baseUrl = getDhlBaseUrl(credentials)
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id,
+    )
+
+    const { result, errors } = await requestInterventionWorkflow(req.scope).run({
+      input: {
+        fulfillmentId: parcel.fulfillmentId,
+        intervention: {
+          trackerCode: parcel.trackerCode,
+          postalCode: parcel.postalCode,
+          type: body.type,
+          ...(body.neighbour_address
+            ? {
+                neighbourAddress: {
+                  street: body.neighbour_address.street,
+                  houseNumber: body.neighbour_address.house_number,
+                  houseNumberAddition: body.neighbour_address.house_number_addition,
+                  postalCode: body.neighbour_address.postal_code,
+                  city: body.neighbour_address.city,
+                  kixCode: body.neighbour_address.kix_code,
+                },
+              }
+            : {}),
+          ...(body.timeframe ? { timeframe: body.timeframe } : {}),
+          ...(body.service_point_id ? { servicePointId: body.service_point_id } : {}),
+        },
+        token,
+        baseUrl,
+        debug: credentials.enable_logs,
+        _logger: logger,
+      },
+      throwOnError: false,
+    })
+
+    if (errors && errors.length > 0) {
+      return res.status(400).json({
+        intervention: null,
+        errors: errors.map((e) => e.error?.message ?? String(e.error)),
+      })
+    }
+
+    return res.json({ intervention: result })
+  } catch (error) {
+    logger.error(
+      `[DHL Interventions] Failed to request intervention: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(500).json({
+      intervention: null,
+      errors: ['Internal Server Error'],
+    })
+  }
+}
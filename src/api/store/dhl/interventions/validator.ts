@@ -0,0 +1,46 @@
+import { z } from 'zod'
+import { DHL_INTERVENTION_TYPES } from '../../../../dhl-api/get-intervention-options'
+
+const Parcel = z.object({
+  order_id: z.string().min(1),
+  tracker_code: z.string().min(1).max(50),
+})
+
+export const GetDHLInterventions = Parcel
+
+export const GetDHLInterventionNeighbours = Parcel.extend({
+  house_number: z.string().min(1).max(10),
+})
+
+export const PostDHLIntervention = Parcel.extend({
+  type: z.enum(DHL_INTERVENTION_TYPES),
+  neighbour_address: z
+    .object({
+      street: z.string().min(1),
+      house_number: z.string().min(1),
+      house_number_addition: z.string().optional(),
+      postal_code: z.string().min(1),
+      city: z.string().min(1),
+      kix_code: z.string().optional(),
+    })
+    .optional(),
+  timeframe: z
+    .object({
+      from: z.string().min(1),
+      to: z.string().min(1),
+    })
+    .optional(),
+  service_point_id: z.string().min(1).optional(),
+})
+  .refine((body) => body.type !== 'neighbour' || !!body.neighbour_address, {
+    message: 'A neighbour address is required for a neighbour intervention',
+    path: ['neighbour_address'],
+  })
+  .refine((body) => body.type !== 'date_time' || !!body.timeframe, {
+    message: 'A timeframe is required for a new delivery date',
+    path: ['timeframe'],
+  })
+  .refine((body) => body.type !== 'service_point' || !!body.service_point_id, {
+    message: 'A ServicePoint is required to redirect the parcel',
+    path: ['service_point_id'],
+  })
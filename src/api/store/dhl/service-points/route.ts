@@ -0,0 +1,58 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { z } from 'zod'
+import { GetDHLServicePoints } from './validator'
+import { getServicePoints } from '../../../../dhl-api/get-service-points'
+import { DHLServicePoint } from '../../../../dhl-api/types'
+import { getDhlBaseUrl } from '../../../../dhl-api/environment'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+
+export type GetDHLServicePointsQuery = z.infer<typeof GetDHLServicePoints>
+
+export type GetDHLServicePointsResponse = {
+  service_points: DHLServicePoint[]
+  errors?: string[]
+}
+
+/**
+ * Store locator for DHL service points (ParcelShops and Parcelstations).
+ * GET /store/dhl/service-points?country_code=&postal_code=
+ *
+ * The `id` of the chosen service point has to be sent as `service_point_id` in the
+ * shipping method data when adding a DHL service point (PS) shipping option to the cart.
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse<GetDHLServicePointsResponse>) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = GetDHLServicePoints.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      service_points: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const query: GetDHLServicePointsQuery = parsed.data
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const settings = await dhlSettingService.getCredentials()
+
+  try {
+    const servicePoints = await getServicePoints(
+      getDhlBaseUrl(settings),
+      query.country_code,
+      query.postal_code,
+      query.limit,
+    )
+
+    return res.json({ service_points: servicePoints })
+  } catch (error) {
+    logger.error(
+      `[DHL Service Points] Failed to fetch service points: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(500).json({
+      service_points: [],
+      errors: ['Internal Server Error'],
+    })
+  }
+}
@@ -0,0 +1,7 @@
+import { z } from 'zod'
+
+export const GetDHLServicePoints = z.object({
+  country_code: z.string().length(2),
+  postal_code: z.string().min(2).max(20),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+})
@@ -0,0 +1,135 @@
+import { MedusaRequest, MedusaResponse } from '@medusajs/framework/http'
+import { Logger } from '@medusajs/framework/types'
+import { z } from 'zod'
+import { GetDHLTimeWindows } from './validator'
+import { getTimeWindows } from '../../../../dhl-api/get-time-windows'
+import { DHLTimeWindowData } from '../../../../dhl-api/types'
+import { getDhlBaseUrl } from '../../../../dhl-api/environment'
+import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
+import DHLSettingsModuleService from '../../../../modules/setting/service'
+
+export type GetDHLTimeWindowsQuery = z.infer<typeof GetDHLTimeWindows>
+
+export type GetDHLTimeWindowsResponse = {
+  time_windows: DHLTimeWindowData[]
+  errors?: string[]
+}
+
+type Address = {
+  country_code?: string | null
+  postal_code?: string | null
+}
+
+type CartWithAddress = {
+  id: string
+  shipping_address?: Address | null
+}
+
+type ShippingOptionWithLocation = {
+  id: string
+  service_zone?: {
+    fulfillment_set?: {
+      location?: { address?: Address | null } | null
+    } | null
+  } | null
+}
+
+type QueryGraph = {
+  graph: <T>(args: {
+    entity: string
+    fields: string[]
+    filters: Record<string, unknown>
+  }) => Promise<{ data: T[] }>
+}
+
+/**
+ * Lists the DHL delivery time windows for a cart.
+ * GET /store/dhl/time-windows?cart_id=&shipping_option_id=
+ *
+ * Time windows are looked up for the cart's shipping address and are only offered
+ * when the shipping option's stock location ships within the same country.
+ * A selected window has to be sent back unchanged as `time_window` in the shipping
+ * method data when adding the shipping option to the cart.
+ */
+export const GET = async (req: MedusaRequest, res: MedusaResponse<GetDHLTimeWindowsResponse>) => {
+  const logger = req.scope.resolve<Logger>('logger')
+
+  const parsed = GetDHLTimeWindows.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({
+      time_windows: [],
+      errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    })
+  }
+
+  const query: GetDHLTimeWindowsQuery = parsed.data
+  const queryGraph = req.scope.resolve<QueryGraph>('query')
+
+  const { data: carts } = await queryGraph.graph<CartWithAddress>({
+    entity: 'cart',
+    fields: ['id', 'shipping_address.country_code', 'shipping_address.postal_code'],
+    filters: { id: query.cart_id },
+  })
+
+  const destination = carts[0]?.shipping_address
+  if (!destination?.country_code || !destination?.postal_code) {
+    return res.status(400).json({
+      time_windows: [],
+      errors: ['Cart has no shipping address with a country and postal code'],
+    })
+  }
+
+  const { data: shippingOptions } = await queryGraph.graph<ShippingOptionWithLocation>({
+    entity: 'shipping_option',
+    fields: [
+      'id',
+      'service_zone.fulfillment_set.location.address.country_code',
+      'service_zone.fulfillment_set.location.address.postal_code',
+    ],
+    filters: { id: query.shipping_option_id },
+  })
+
+  const origin = shippingOptions[0]?.service_zone?.fulfillment_set?.location?.address
+  if (!origin?.country_code) {
+    return res.status(400).json({
+      time_windows: [],
+      errors: ['Shipping option has no stock location address'],
+    })
+  }
+
+  // DHL only offers delivery time windows for domestic shipments
+  if (origin.country_code.toUpperCase() !== destination.country_code.toUpperCase()) {
+    return res.json({ time_windows: [] })
+  }
+
+  const dhlSettingService = req.scope.resolve(DHL_SETTINGS_MODULE) as DHLSettingsModuleService
+  const settings = await dhlSettingService.getCredentials()
+
+  try {
+    const timeWindows = await getTimeWindows(
+      getDhlBaseUrl(settings),
+      destination.country_code,
+      destination.postal_code,
+    )
+
+    return res.json({
+      time_windows: timeWindows
+        .filter((window) => window.deliveryDate && window.startTime && window.endTime)
+        .map((window) => ({
+          delivery_date: window.deliveryDate as string,
+          start_time: window.startTime as string,
+          end_time: window.endTime as string,
+          type: window.type,
+          option: window.option,
+        })),
+    })
+  } catch (error) {
+    logger.error(
+      `[DHL Time Windows] Failed to fetch time windows: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return res.status(500).json({
+      time_windows: [],
+      errors: ['Internal Server Error'],
+    })
+  }
+}
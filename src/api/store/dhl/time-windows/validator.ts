@@ -0,0 +1,6 @@
+import { z } from 'zod'
+
+export const GetDHLTimeWindows = z.object({
+  cart_id: z.string().min(1),
+  shipping_option_id: z.string().min(1),
+})
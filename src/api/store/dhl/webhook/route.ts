@@ -4,6 +4,16 @@ import { DHL_SETTINGS_MODULE } from '../../../../modules/setting'
 import DHLSettingsModuleService from '../../../../modules/setting/service'
 import updateFulfillmentStatusWorkflow from '../../../../workflows/update-fulfillment-status'
 import { DHLWebhookEventBody, DHLShipmentStatusResponse } from '../../../../dhl-api/types'
+import {
+  consumeWebhookRateLimit,
+  DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE,
+  isAllowedWebhookIp,
+  isValidWebhookApiKey,
+  isWithinWebhookWindow,
+  recordWebhookAccepted,
+  recordWebhookFailure,
+  WebhookFailureReason,
+} from '../../../../utils/webhook-security'
 
 type FulfillmentWithLabels = {
   id: string
@@ -75,12 +85,8 @@ function mapWebhookToShipmentStatus(body: DHLWebhookEventBody): DHLShipmentStatu
   return {
     barcode: body.barcode,
     barcodes: body.barcodes,
-    events: body.events?.map((event) => ({
-      status: event.status,
-      timestamp: event.timestamp,
-      category: event.category,
-      type: event.type,
-    })),
+    // The whole events are kept, as they're stored in the tracking history
+    events: body.events,
   } as DHLShipmentStatusResponse
 }
 
@@ -89,13 +95,24 @@ function mapWebhookToShipmentStatus(body: DHLWebhookEventBody): DHLShipmentStatu
  * POST /store/dhl/webhook
  *
  * This endpoint:
- * 1. Validates the request using the configured webhook API key
- * 2. Finds fulfillments matching the tracking codes in the payload
- * 3. Runs the updateFulfillmentStatusWorkflow in the background
- * 4. Returns quickly to acknowledge the webhook
+ * 1. Checks the source IP allowlist and the rate limit per IP address
+ * 2. Validates the request using the configured webhook API keys and records when it arrived
+ * 3. Rejects events created outside the configured window, so old events can't be replayed
+ * 4. Finds fulfillments matching the tracking codes in the payload
+ * 5. Runs the updateFulfillmentStatusWorkflow in the background
+ * 6. Returns quickly to acknowledge the webhook
+ *
+ * Rejected requests are logged and counted; the counts are shown in the admin.
  */
 export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
   const logger = req.scope.resolve<Logger>('logger')
+  const ip = req.ip ?? req.socket?.remoteAddress
+
+  const reject = (reason: WebhookFailureReason, status: number, message: string) => {
+    recordWebhookFailure(reason)
+    logger.warn(`[DHL Webhook] Rejected request from ${ip ?? 'unknown address'}: ${message}`)
+    return res.sendStatus(status)
+  }
 
   // Resolve settings to get webhook configuration
   const dhlSettingsService: DHLSettingsModuleService = req.scope.resolve(DHL_SETTINGS_MODULE)
@@ -106,10 +123,24 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
     return res.sendStatus(500)
   }
 
-  const { webhook_api_key, webhook_api_key_header, enable_logs } = settings
+  const { webhook_api_key, webhook_api_key_header, webhook_secondary_api_key, enable_logs } =
+    settings
+
+  if (!isAllowedWebhookIp(ip, settings.webhook_allowed_ips ?? [])) {
+    return reject('ip_not_allowed', 403, 'IP address is not allowed')
+  }
+
+  if (
+    !consumeWebhookRateLimit(
+      ip,
+      settings.webhook_rate_limit_per_minute ?? DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE,
+    )
+  ) {
+    return reject('rate_limited', 429, 'Rate limit exceeded')
+  }
 
   // Check if webhook is configured
-  if (!webhook_api_key) {
+  if (!webhook_api_key && !webhook_secondary_api_key) {
     logger.warn('[DHL Webhook] Webhook API key not configured')
     return res.sendStatus(500)
   }
@@ -119,29 +150,35 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
   const headerValue = req.headers[headerName.toLowerCase()]
 
   if (!headerValue || typeof headerValue !== 'string') {
-    if (enable_logs) {
-      logger.warn(`[DHL Webhook] Missing or invalid ${headerName} header`)
-    }
-    return res.sendStatus(401)
+    return reject('missing_api_key', 401, `Missing or invalid ${headerName} header`)
   }
 
-  // Compare the header value with the configured API key
+  // Compare the header value with both active API keys, so keys can be rotated
   // Strip common prefixes like "Bearer " if present
   const providedKey = headerValue.replace(/^Bearer\s+/i, '').trim()
 
-  if (providedKey !== webhook_api_key) {
-    if (enable_logs) {
-      logger.warn('[DHL Webhook] Invalid API key provided')
-    }
-    return res.sendStatus(401)
+  if (!isValidWebhookApiKey(providedKey, [webhook_api_key, webhook_secondary_api_key])) {
+    return reject('invalid_api_key', 401, 'Invalid API key provided')
   }
 
+  // Record the push, so the admin can check that DHL reaches the webhook
+  dhlSettingsService.markWebhookReceived().catch((error) => {
+    logger.warn(
+      `[DHL Webhook] Failed to record the push: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  })
+
   // Validate and parse the request body
   if (!isValidWebhookBody(req.body)) {
-    if (enable_logs) {
-      logger.warn('[DHL Webhook] Invalid webhook payload structure')
-    }
-    return res.sendStatus(400)
+    return reject('invalid_payload', 400, 'Invalid webhook payload structure')
+  }
+
+  if (!isWithinWebhookWindow(req.body.created, settings.webhook_max_event_age_minutes)) {
+    return reject(
+      'outside_window',
+      400,
+      `Event created at ${req.body.created ?? 'an unknown time'} is outside the accepted window`,
+    )
   }
 
   const webhookBody = req.body
@@ -150,12 +187,11 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
   const trackerCodes = extractTrackerCodes(webhookBody)
 
   if (trackerCodes.length === 0) {
-    if (enable_logs) {
-      logger.warn('[DHL Webhook] No tracker codes found in webhook payload')
-    }
-    return res.sendStatus(400)
+    return reject('invalid_payload', 400, 'No tracker codes found in webhook payload')
   }
 
+  recordWebhookAccepted()
+
   if (enable_logs) {
     logger.info(`[DHL Webhook] Received webhook for tracker codes: ${trackerCodes.join(', ')}`)
   }
@@ -0,0 +1,134 @@
+import { ICacheService } from '@medusajs/framework/types'
+import { CapabilitiesCacheKey } from '../capabilities-cache'
+import { DHLCapability } from '../types'
+
+type CapabilitiesCache = typeof import('../capabilities-cache')
+
+const key: CapabilitiesCacheKey = {
+  baseUrl: 'https://api-gw.dhlparcel.nl',
+  accountNumber: '12345678',
+  sender: { countryCode: 'NL', postalCode: '3542 AD' },
+  receiver: { countryCode: 'NL', postalCode: '1012AB' },
+  toBusiness: false,
+  options: ['DOOR', 'SSN'],
+}
+
+const capabilities = [{ rank: 1 }] as DHLCapability[]
+
+describe('capabilities cache', () => {
+  let cache: CapabilitiesCache
+
+  beforeEach(() => {
+    // The memory cache and statistics are module state, so every test gets a fresh module
+    jest.resetModules()
+    jest.useFakeTimers()
+    cache = jest.requireActual<CapabilitiesCache>('../capabilities-cache')
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('calls DHL once for the same request', async () => {
+    const fetchCapabilities = jest.fn().mockResolvedValue(capabilities)
+
+    await cache.getCachedCapabilities(key, 300, fetchCapabilities)
+    const result = await cache.getCachedCapabilities(
+      { ...key, receiver: { countryCode: 'nl', postalCode: '1012 ab' }, options: ['SSN', 'DOOR'] },
+      300,
+      fetchCapabilities,
+    )
+
+    expect(result).toBe(capabilities)
+    expect(fetchCapabilities).toHaveBeenCalledTimes(1)
+    expect(cache.getCapabilitiesCacheStats()).toEqual({
+      hits: 1,
+      misses: 1,
+      shared: 0,
+      store: 'memory',
+      memory_entries: 1,
+    })
+  })
+
+  it('shares one DHL call between concurrent requests', async () => {
+    const fetchCapabilities = jest.fn().mockResolvedValue(capabilities)
+
+    await Promise.all([
+      cache.getCachedCapabilities(key, 300, fetchCapabilities),
+      cache.getCachedCapabilities(key, 300, fetchCapabilities),
+    ])
+
+    expect(fetchCapabilities).toHaveBeenCalledTimes(1)
+    expect(cache.getCapabilitiesCacheStats().shared).toBe(1)
+  })
+
+  it('calls DHL again after the TTL', async () => {
+    const fetchCapabilities = jest.fn().mockResolvedValue(capabilities)
+
+    await cache.getCachedCapabilities(key, 300, fetchCapabilities)
+    jest.advanceTimersByTime(300 * 1000)
+    await cache.getCachedCapabilities(key, 300, fetchCapabilities)
+
+    expect(fetchCapabilities).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not cache with a TTL of 0', async () => {
+    const fetchCapabilities = jest.fn().mockResolvedValue(capabilities)
+
+    await cache.getCachedCapabilities(key, 0, fetchCapabilities)
+    await cache.getCachedCapabilities(key, 0, fetchCapabilities)
+
+    expect(fetchCapabilities).toHaveBeenCalledTimes(2)
+    expect(cache.getCapabilitiesCacheStats().memory_entries).toBe(0)
+  })
+
+  it('evicts expired entries', async () => {
+    const fetchCapabilities = jest.fn().mockResolvedValue(capabilities)
+
+    await cache.getCachedCapabilities(key, 60, fetchCapabilities)
+    await cache.getCachedCapabilities({ ...key, toBusiness: true }, 300, fetchCapabilities)
+    expect(cache.getCapabilitiesCacheStats().memory_entries).toBe(2)
+
+    jest.advanceTimersByTime(60 * 1000)
+
+    expect(cache.getCapabilitiesCacheStats().memory_entries).toBe(1)
+  })
+
+  it('drops the oldest entries beyond the maximum', async () => {
+    const fetchCapabilities = jest.fn().mockResolvedValue(capabilities)
+
+    for (let i = 0; i <= cache.MAX_MEMORY_CACHE_ENTRIES; i++) {
+      await cache.getCachedCapabilities({ ...key, accountNumber: `${i}` }, 300, fetchCapabilities)
+    }
+    expect(cache.getCapabilitiesCacheStats().memory_entries).toBe(cache.MAX_MEMORY_CACHE_ENTRIES)
+
+    // The first account was dropped, the second is still cached
+    await cache.getCachedCapabilities({ ...key, accountNumber: '1' }, 300, fetchCapabilities)
+    expect(fetchCapabilities).toHaveBeenCalledTimes(cache.MAX_MEMORY_CACHE_ENTRIES + 1)
+    await cache.getCachedCapabilities({ ...key, accountNumber: '0' }, 300, fetchCapabilities)
+    expect(fetchCapabilities).toHaveBeenCalledTimes(cache.MAX_MEMORY_CACHE_ENTRIES + 2)
+  })
+
+  it("uses Medusa's caching module when it's available", async () => {
+    const cacheService = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue(undefined),
+    } as unknown as ICacheService
+    const fetchShipmentOptions = jest.fn().mockResolvedValue([{ key: 'DOOR' }])
+
+    await cache.getCachedShipmentOptions(
+      { baseUrl: key.baseUrl, accountNumber: key.accountNumber },
+      300,
+      fetchShipmentOptions,
+      cacheService,
+    )
+
+    const cacheKey = 'dhl:shipment-options:https://api-gw.dhlparcel.nl:12345678'
+    expect(cacheService.get).toHaveBeenCalledWith(cacheKey)
+    expect(cacheService.set).toHaveBeenCalledWith(cacheKey, [{ key: 'DOOR' }], 300)
+    expect(cache.getCapabilitiesCacheStats()).toMatchObject({
+      store: 'cache-module',
+      memory_entries: 0,
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { getExtraOptions, validateExtraOptions } from '../extra-options'
+import { DHLShipmentOption } from '../types'
+
+const shipmentOptions = [
+  { key: 'DOOR', exclusions: [{ key: 'PS' }] },
+  { key: 'PS', exclusions: [{ key: 'DOOR' }] },
+  { key: 'HANDT' },
+  { key: 'NBB', exclusions: [{ key: 'HANDT' }] },
+  { key: 'INS', inputType: 'number' },
+] as DHLShipmentOption[]
+
+describe('getExtraOptions', () => {
+  it('returns the extra options of the shipping option data', () => {
+    const options = [{ key: 'HANDT' }, { key: 'INS', input: '750' }]
+
+    expect(getExtraOptions({ extra_options: options })).toEqual(options)
+  })
+
+  it('returns no options when they are missing or malformed', () => {
+    expect(getExtraOptions(null)).toEqual([])
+    expect(getExtraOptions({ extra_options: 'HANDT' })).toEqual([])
+    expect(getExtraOptions({ extra_options: [{ key: 'INS', input: 750 }] })).toEqual([])
+  })
+})
+
+describe('validateExtraOptions', () => {
+  it('accepts valid extra options', () => {
+    expect(
+      validateExtraOptions(
+        'DOOR',
+        [{ key: 'HANDT' }, { key: 'INS', input: '750' }],
+        shipmentOptions,
+      ),
+    ).toEqual([])
+    expect(validateExtraOptions('DOOR', undefined, shipmentOptions)).toEqual([])
+  })
+
+  it('rejects a value that is not a list of options', () => {
+    expect(validateExtraOptions('DOOR', ['HANDT'], shipmentOptions)).toEqual([
+      'extra_options has to be a list of { key, input? } objects',
+    ])
+  })
+
+  it('rejects options the account does not offer', () => {
+    expect(validateExtraOptions('DOOR', [{ key: 'SDD' }], shipmentOptions)).toEqual([
+      'SDD is not a DHL shipment option of this account',
+    ])
+  })
+
+  it('rejects the carrier option and duplicates', () => {
+    expect(
+      validateExtraOptions(
+        'DOOR',
+        [{ key: 'DOOR' }, { key: 'HANDT' }, { key: 'HANDT' }],
+        shipmentOptions,
+      ),
+    ).toEqual(['DOOR is already the carrier option', 'HANDT is added more than once'])
+  })
+
+  it('requires an input when DHL asks for one', () => {
+    expect(validateExtraOptions('DOOR', [{ key: 'INS' }], shipmentOptions)).toEqual([
+      'INS needs an input (number)',
+    ])
+  })
+
+  it('reports each pair of excluded options once', () => {
+    expect(validateExtraOptions('DOOR', [{ key: 'PS' }], shipmentOptions)).toEqual([
+      "DOOR and PS can't be combined",
+    ])
+    expect(
+      validateExtraOptions('DOOR', [{ key: 'HANDT' }, { key: 'NBB' }], shipmentOptions),
+    ).toEqual(["HANDT and NBB can't be combined"])
+  })
+})
@@ -0,0 +1,60 @@
+import { findTimeWindow, getTimeWindowOption } from '../get-time-windows'
+import { DHLTimeWindow } from '../types'
+
+const timeWindows: DHLTimeWindow[] = [
+  { deliveryDate: '21-10-2026', startTime: '0900', endTime: '1400', type: 'N', option: 'DOOR' },
+  { deliveryDate: '21-10-2026', startTime: '1800', endTime: '2200', type: 'A', option: 'EVE' },
+  { deliveryDate: '22-10-2026', startTime: '0900', endTime: '1400', type: 'N', option: 'DOOR' },
+]
+
+describe('findTimeWindow', () => {
+  it('finds the time window with the same date and times', () => {
+    const result = findTimeWindow(timeWindows, {
+      delivery_date: '21-10-2026',
+      start_time: '1800',
+      end_time: '2200',
+    })
+
+    expect(result).toBe(timeWindows[1])
+  })
+
+  it('returns undefined when DHL no longer offers the time window', () => {
+    const result = findTimeWindow(timeWindows, {
+      delivery_date: '23-10-2026',
+      start_time: '1800',
+      end_time: '2200',
+    })
+
+    expect(result).toBeUndefined()
+  })
+
+  it('requires all of the date, start and end time to match', () => {
+    const result = findTimeWindow(timeWindows, {
+      delivery_date: '22-10-2026',
+      start_time: '0900',
+      end_time: '1700',
+    })
+
+    expect(result).toBeUndefined()
+  })
+})
+
+describe('getTimeWindowOption', () => {
+  it('uses the option of the time window with the window as its input', () => {
+    const option = getTimeWindowOption(
+      { delivery_date: '21-10-2026', start_time: '1800', end_time: '2200', option: 'EVE' },
+      'DOOR',
+    )
+
+    expect(option).toEqual({ key: 'EVE', input: '21-10-2026 1800-2200' })
+  })
+
+  it('falls back to the carrier option when the time window has no option', () => {
+    const option = getTimeWindowOption(
+      { delivery_date: '22-10-2026', start_time: '0900', end_time: '1400' },
+      'DOOR',
+    )
+
+    expect(option).toEqual({ key: 'DOOR', input: '22-10-2026 0900-1400' })
+  })
+})
@@ -0,0 +1,42 @@
+import { addInsurance, DHL_MAX_INSURED_VALUE } from '../insurance'
+
+describe('addInsurance', () => {
+  it('insures shipments above the threshold for the value rounded up to whole euros', () => {
+    expect(addInsurance([{ key: 'HANDT' }], 500.01, 500, 'EUR')).toEqual({
+      options: [{ key: 'HANDT' }, { key: 'INS', input: '501' }],
+      insuredValue: 501,
+    })
+  })
+
+  it('does not insure shipments at or below the threshold', () => {
+    expect(addInsurance([], 500, 500, 'eur')).toEqual({ options: [] })
+    expect(addInsurance([], 20, 500, 'eur')).toEqual({ options: [] })
+  })
+
+  it('does not insure shipments without a threshold', () => {
+    expect(addInsurance([], 1000, null, 'eur')).toEqual({ options: [] })
+    expect(addInsurance([], 1000, undefined, 'eur')).toEqual({ options: [] })
+  })
+
+  it('only insures values in euros', () => {
+    expect(addInsurance([], 1000, 500, 'usd')).toEqual({ options: [] })
+    expect(addInsurance([], 1000, 500, null)).toEqual({ options: [] })
+  })
+
+  it('caps the insured amount at the maximum DHL insures for', () => {
+    expect(addInsurance([], 75000, 500, 'eur')).toEqual({
+      options: [{ key: 'INS', input: String(DHL_MAX_INSURED_VALUE) }],
+      insuredValue: DHL_MAX_INSURED_VALUE,
+    })
+  })
+
+  it('keeps the insured amount of shipping options that already add insurance', () => {
+    const options = [{ key: 'INS', input: '250' }]
+
+    expect(addInsurance(options, 1000, 500, 'eur')).toEqual({ options, insuredValue: 250 })
+    expect(addInsurance([{ key: 'INS' }], 1000, 500, 'eur')).toEqual({
+      options: [{ key: 'INS' }],
+      insuredValue: undefined,
+    })
+  })
+})
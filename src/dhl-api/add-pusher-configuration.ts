@@ -0,0 +1,78 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+
+/**
+ * The most requests per second DHL pushes to the webhook.
+ */
+export const DHL_PUSHER_MAX_REQUESTS_PER_SECOND = 10
+
+/**
+ * The header DHL sends the API key in for configurations added from the admin.
+ */
+export const DHL_PUSHER_API_KEY_HEADER = 'X-Api-Key'
+
+export type DHLPusherConfigurationInput = {
+  name: string
+  /**
+   * The public URL of the webhook, e.g. https://your-store.com/store/dhl/webhook.
+   */
+  url: string
+  /**
+   * The header DHL sends the API key in.
+   */
+  apiKeyHeader: string
+  apiKey: string
+}
+
+/**
+ * Add a Track & Trace Pusher configuration to
+ * /track-trace-pusher/manage/configurations, so DHL pushes the status of the
+ * organisation's parcels to the webhook.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param configuration - The webhook URL and the API key DHL authenticates with.
+ * @param logger - Optional logger instance.
+ * @returns The id of the configuration and its subscription key.
+ */
+export const addPusherConfiguration = async (
+  baseUrl: string,
+  token: string,
+  configuration: DHLPusherConfigurationInput,
+  logger?: Logger,
+): Promise<{ id: string; subscriptionKey: string }> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.trackTracePusher.addConfiguration({
+    name: configuration.name,
+    trackTraceConfiguration: {
+      url: configuration.url,
+      maxRequestsPerSecond: DHL_PUSHER_MAX_REQUESTS_PER_SECOND,
+      webhookAuthentication: {
+        type: 'ApiKeyAuthentication',
+        headerName: configuration.apiKeyHeader,
+        apiKey: configuration.apiKey,
+      },
+      // Push all parcels of the organisation, not only subscribed ones
+      enableOrganisationBasedPushing: true,
+    },
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL add pusher configuration failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL add pusher configuration failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug(`DHL pusher configuration ${result.id} added for ${configuration.url}`)
+  }
+
+  return result
+}
@@ -1,19 +1,20 @@
 import { Api } from './swagger/Api'
+import { DHLAuthTokens } from './types'
 
 /**
- * Get the DHL authentication token.
+ * Obtain a new DHL access token / refresh token pair with the API key.
  * @param baseUrl - The base URL for the DHL API.
  * @param userId - The DHL user ID.
  * @param apiKey - The DHL api key.
  * @param accountNumber - The DHL account number.
- * @returns The DHL authentication token.
+ * @returns The DHL access token and refresh token with their expiration.
  */
-export const getAuthToken = async (
+export const authenticateWithApiKey = async (
   baseUrl: string,
   userId: string,
   apiKey: string,
   accountNumber: string,
-): Promise<string> => {
+): Promise<DHLAuthTokens> => {
   const api = new Api({ baseUrl: baseUrl })
 
   if (!userId) {
@@ -36,6 +37,26 @@ export const getAuthToken = async (
     throw new Error(`DHL auth request failed: ${response.statusText}`)
   }
 
-  const { accessToken } = response.data
-  return accessToken
+  return response.data
+}
+
+/**
+ * Obtain a new DHL access token / refresh token pair with a refresh token.
+ * @param baseUrl - The base URL for the DHL API.
+ * @param refreshToken - The refresh token of an earlier authentication.
+ * @returns The DHL access token and refresh token with their expiration.
+ */
+export const refreshAuthTokens = async (
+  baseUrl: string,
+  refreshToken: string,
+): Promise<DHLAuthTokens> => {
+  const api = new Api({ baseUrl: baseUrl })
+
+  const response = await api.authenticate.refreshToken({ refreshToken: refreshToken })
+
+  if (!response.ok) {
+    throw new Error(`DHL token refresh failed: ${response.statusText}`)
+  }
+
+  return response.data
 }
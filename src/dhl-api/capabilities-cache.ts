@@ -0,0 +1,216 @@
+import { ICacheService } from '@medusajs/framework/types'
+import { DHLCapability, DHLFulfillmentOptionAddress, DHLShipmentOption } from './types'
+
+/**
+ * The default time capability responses are cached, in seconds.
+ */
+export const DEFAULT_CAPABILITIES_CACHE_TTL_SECONDS = 300
+
+/**
+ * The most responses kept in memory; the oldest are dropped first.
+ */
+export const MAX_MEMORY_CACHE_ENTRIES = 1000
+
+export type CapabilitiesCacheStats = {
+  hits: number
+  misses: number
+  shared: number
+  store: 'cache-module' | 'memory'
+  memory_entries: number
+}
+
+export type CapabilitiesCacheKey = {
+  baseUrl: string
+  accountNumber: string
+  sender: DHLFulfillmentOptionAddress
+  receiver: DHLFulfillmentOptionAddress
+  toBusiness: boolean
+  options: string[]
+}
+
+export type ShipmentOptionsCacheKey = {
+  baseUrl: string
+  accountNumber: string
+}
+
+type MemoryEntry = {
+  expiresAt: number
+  value: unknown
+}
+
+const memoryCache = new Map<string, MemoryEntry>()
+const pendingRequests = new Map<string, Promise<unknown>>()
+const stats: Omit<CapabilitiesCacheStats, 'memory_entries'> = {
+  hits: 0,
+  misses: 0,
+  shared: 0,
+  store: 'memory',
+}
+
+const normalize = (value: string): string => value.replace(/\s+/g, '').toUpperCase()
+
+const getCacheKey = (key: CapabilitiesCacheKey): string =>
+  [
+    'dhl:capabilities',
+    key.baseUrl,
+    key.accountNumber,
+    normalize(key.sender.countryCode),
+    normalize(key.sender.postalCode),
+    normalize(key.receiver.countryCode),
+    normalize(key.receiver.postalCode),
+    key.toBusiness ? 'business' : 'consumer',
+    [...key.options].sort().join(',') || '*',
+  ].join(':')
+
+const evictExpired = (now: number): void => {
+  for (const [cacheKey, entry] of memoryCache) {
+    if (entry.expiresAt <= now) {
+      memoryCache.delete(cacheKey)
+    }
+  }
+}
+
+const readCache = async <T>(cacheKey: string, cacheService?: ICacheService): Promise<T | null> => {
+  if (cacheService) {
+    return cacheService.get<T>(cacheKey)
+  }
+
+  const entry = memoryCache.get(cacheKey)
+  if (!entry) {
+    return null
+  }
+  if (entry.expiresAt <= Date.now()) {
+    memoryCache.delete(cacheKey)
+    return null
+  }
+  return entry.value as T
+}
+
+const writeCache = async <T>(
+  cacheKey: string,
+  value: T,
+  ttlSeconds: number,
+  cacheService?: ICacheService,
+): Promise<void> => {
+  if (cacheService) {
+    await cacheService.set(cacheKey, value, ttlSeconds)
+    return
+  }
+
+  const now = Date.now()
+  evictExpired(now)
+
+  // A Map keeps insertion order, so re-inserting moves the key to the end and the first key
+  // is always the oldest
+  memoryCache.delete(cacheKey)
+  while (memoryCache.size >= MAX_MEMORY_CACHE_ENTRIES) {
+    const oldest = memoryCache.keys().next().value
+    if (oldest === undefined) {
+      break
+    }
+    memoryCache.delete(oldest)
+  }
+
+  memoryCache.set(cacheKey, {
+    expiresAt: now + ttlSeconds * 1000,
+    value,
+  })
+}
+
+/**
+ * Read a DHL response from the cache, or fetch and cache it. Concurrent requests for the
+ * same key share one DHL call.
+ */
+const getCached = async <T>(
+  cacheKey: string,
+  ttlSeconds: number,
+  fetchValue: () => Promise<T>,
+  cacheService?: ICacheService,
+): Promise<T> => {
+  stats.store = cacheService ? 'cache-module' : 'memory'
+
+  if (ttlSeconds <= 0) {
+    stats.misses++
+    return fetchValue()
+  }
+
+  const cached = await readCache<T>(cacheKey, cacheService)
+  if (cached) {
+    stats.hits++
+    return cached
+  }
+
+  const pending = pendingRequests.get(cacheKey) as Promise<T> | undefined
+  if (pending) {
+    stats.shared++
+    return pending
+  }
+
+  stats.misses++
+  const request = (async () => {
+    const value = await fetchValue()
+    await writeCache(cacheKey, value, ttlSeconds, cacheService)
+    return value
+  })().finally(() => {
+    pendingRequests.delete(cacheKey)
+  })
+
+  pendingRequests.set(cacheKey, request)
+  return request
+}
+
+/**
+ * Get DHL capabilities from the cache, or fetch and cache them.
+ *
+ * Medusa's caching module is used when it's available; otherwise the capabilities
+ * are cached in memory, up to `MAX_MEMORY_CACHE_ENTRIES` responses. Concurrent requests
+ * for the same key share one DHL call. A TTL of 0 disables caching.
+ *
+ * @param key - The parameters that identify the capability request.
+ * @param ttlSeconds - How long the capabilities are cached, in seconds.
+ * @param fetchCapabilities - Fetches the capabilities from DHL on a cache miss.
+ * @param cacheService - Medusa's caching module, if registered.
+ * @returns The DHL capabilities.
+ */
+export const getCachedCapabilities = async (
+  key: CapabilitiesCacheKey,
+  ttlSeconds: number,
+  fetchCapabilities: () => Promise<DHLCapability[]>,
+  cacheService?: ICacheService,
+): Promise<DHLCapability[]> =>
+  getCached(getCacheKey(key), ttlSeconds, fetchCapabilities, cacheService)
+
+/**
+ * Get the DHL shipment options of an account from the cache, or fetch and cache them.
+ *
+ * They're cached like the capabilities, so checking the options of shipping options doesn't
+ * call DHL every time.
+ *
+ * @param key - The API and account the shipment options belong to.
+ * @param ttlSeconds - How long the shipment options are cached, in seconds.
+ * @param fetchShipmentOptions - Fetches the shipment options from DHL on a cache miss.
+ * @param cacheService - Medusa's caching module, if registered.
+ * @returns The DHL shipment options.
+ */
+export const getCachedShipmentOptions = async (
+  key: ShipmentOptionsCacheKey,
+  ttlSeconds: number,
+  fetchShipmentOptions: () => Promise<DHLShipmentOption[]>,
+  cacheService?: ICacheService,
+): Promise<DHLShipmentOption[]> =>
+  getCached(
+    ['dhl:shipment-options', key.baseUrl, key.accountNumber].join(':'),
+    ttlSeconds,
+    fetchShipmentOptions,
+    cacheService,
+  )
+
+/**
+ * Get the hit/miss statistics of the capabilities cache since the server started.
+ * @returns The cache statistics.
+ */
+export const getCapabilitiesCacheStats = (): CapabilitiesCacheStats => {
+  evictExpired(Date.now())
+
+  return { ...stats, memory_entries: memoryCache.size }
+}
@@ -0,0 +1,49 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLCustomsDeclarationInput, DHLCustomsDeclarationResult } from './types'
+
+/**
+ * Creates a DHL customs declaration with /customs/declarations.
+ *
+ * The declaration is linked to the shipment through its order reference, which has to
+ * match the order reference of the shipment. DHL's API has no endpoint to withdraw a declaration.
+ *
+ * @param baseUrl - The base URL of the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param declaration - The declaration with its shipper, receiver and goods.
+ * @param logger - (Optional) Logger instance for logging debug and error information.
+ * @returns The attachments DHL generated for the declaration, e.g. the commercial invoice.
+ * @throws Will throw an error if the DHL API request fails or returns a non-OK response.
+ */
+export const createCustomsDeclaration = async (
+  baseUrl: string,
+  token: string,
+  declaration: DHLCustomsDeclarationInput,
+  logger?: Logger | Console,
+): Promise<DHLCustomsDeclarationResult> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  if (logger) {
+    logger.log(`DHL customs declaration request: ${JSON.stringify(declaration, null, 2)}`)
+  }
+
+  const response = await api.customs.postCustomsDeclarations(declaration)
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL customs declaration failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL customs declaration failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.log(`DHL customs declaration ${declaration.id} created`)
+  }
+
+  return result
+}
@@ -0,0 +1,64 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLAddress, DHLShipmentExtras, DHLShipmentPiece } from './types'
+import { buildShipmentOptions } from './create-shipment'
+
+/**
+ * Creates a DHL draft shipment. Drafts don't generate labels and can still be
+ * deleted until they are promoted to a real shipment.
+ *
+ * @param baseUrl - The base URL of the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param accountNumber - The DHL account number to be used for the shipment.
+ * @param draftId - The UUID for the draft, also used as the shipment ID once promoted.
+ * @param shipper - The shipper details for the shipment.
+ * @param receiver - The receiver details for the shipment.
+ * @param pieces - An array of pieces to be shipped.
+ * @param carrierKey - The carrier key to be used for the shipment.
+ * @param extras - (Optional) Additional shipment fields.
+ * @param logger - (Optional) Logger instance for logging debug and error information.
+ * @returns A promise that resolves to the draft ID.
+ * @throws Will throw an error if the DHL API request fails or returns a non-OK response.
+ */
+export const createDraft = async (
+  baseUrl: string,
+  token: string,
+  accountNumber: string,
+  draftId: string,
+  shipper: DHLAddress,
+  receiver: DHLAddress,
+  pieces: DHLShipmentPiece[],
+  carrierKey: string,
+  extras: DHLShipmentExtras = {},
+  logger?: Logger | Console,
+): Promise<string> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.drafts.saveDraft({
+    id: draftId,
+    shipmentId: draftId,
+    accountId: accountNumber,
+    pieces: pieces,
+    receiver: receiver,
+    shipper: shipper,
+    ...extras,
+    options: buildShipmentOptions(carrierKey, extras.options),
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL create draft failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL create draft failed: ${response.statusText}`)
+  }
+
+  if (logger) {
+    logger.log(`DHL draft ${draftId} created`)
+  }
+
+  return draftId
+}
@@ -0,0 +1,50 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLPickupRequest, DHLPickupRequestInput } from './types'
+
+/**
+ * The request type of a regular parcel pickup.
+ */
+export const DHL_PICKUP_REQUEST_TYPE = 'Pickup'
+
+/**
+ * Books a DHL pickup with /pickup-requests.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param request - The pickup date, time slot, number of packages and shipper.
+ * @param logger - Optional logger instance.
+ * @returns The created pickup request.
+ */
+export const createPickupRequest = async (
+  baseUrl: string,
+  token: string,
+  request: DHLPickupRequestInput,
+  logger?: Logger,
+): Promise<DHLPickupRequest> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  if (logger) {
+    logger.debug('DHL pickup request: \n' + JSON.stringify(request, null, 2))
+  }
+
+  const response = await api.pickupRequests.createPickup(request)
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL create pickup request failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL create pickup request failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug('DHL pickup request response: \n' + JSON.stringify(result, null, 2))
+  }
+
+  return result
+}
@@ -1,6 +1,17 @@
 import { Logger } from "@medusajs/framework/types";
-import { DHLAddress, DHLShipmentPiece, DHLShipmentResponse } from "./types";
+import {
+  DHLAddress,
+  DHLShipmentExtras,
+  DHLShipmentPiece,
+  DHLShipmentResponse,
+  DHLShipmentResultPiece,
+} from "./types";
 import { Api } from "./swagger/Api";
+import {
+  DEFAULT_DHL_LABEL_FORMAT,
+  DHL_LABEL_CONTENT_TYPES,
+  DHLLabelFormat,
+} from "./label-format";
 
 /**
  * Creates a DHL shipment by sending a request to the DHL API.
@@ -12,6 +23,8 @@ import { Api } from "./swagger/Api";
  * @param receiver - The receiver details for the shipment, conforming to the DhlAddress type.
  * @param pieces - An array of pieces to be shipped, each conforming to the DHLShipmentPiece type.
  * @param carrierKey - The carrier key to be used for the shipment.
+ * @param extras - (Optional) Additional shipment fields, e.g. `returnLabel` for return shipments.
+ * @param labelFormat - (Optional) The file format and page size of the labels, an A6 PDF by default.
  * @param logger - (Optional) Logger instance for logging debug and error information.
  * @returns A promise that resolves to a DHLShipmentResponse object containing the tracking number, tracking URL, and labels.
  * @throws Will throw an error if the DHL API request fails or returns a non-OK response.
@@ -25,6 +38,8 @@ export const createShipment = async (
   receiver: DHLAddress,
   pieces: DHLShipmentPiece[],
   carrierKey: string,
+  extras: DHLShipmentExtras = {},
+  labelFormat: DHLLabelFormat = DEFAULT_DHL_LABEL_FORMAT,
   logger?: Logger | Console
 ): Promise<DHLShipmentResponse[]> => {
   const api = new Api({
@@ -38,7 +53,8 @@ export const createShipment = async (
     receiver: receiver,
     shipmentId: shipmentId,
     shipper: shipper,
-    options: [{ key: carrierKey }],
+    ...extras,
+    options: buildShipmentOptions(carrierKey, extras.options),
   });
 
   if (!response.ok) {
@@ -55,18 +71,61 @@ export const createShipment = async (
     );
   }
 
+  return downloadShipmentLabels(api, result.pieces || [], labelFormat, logger);
+};
+
+/**
+ * Combines the carrier key with any additional shipment options.
+ * An additional option with the carrier key replaces the bare carrier option, so it can carry an input.
+ *
+ * @param carrierKey - The carrier key to be used for the shipment.
+ * @param options - (Optional) Additional shipment options.
+ * @returns The shipment options to send to DHL.
+ */
+export const buildShipmentOptions = (
+  carrierKey: string,
+  options: DHLShipmentExtras["options"] = []
+): NonNullable<DHLShipmentExtras["options"]> => {
+  const hasCarrierOption = options.some((option) => option.key === carrierKey);
+  return [...(hasCarrierOption ? [] : [{ key: carrierKey }]), ...options];
+};
+
+/**
+ * Downloads the labels for the pieces of a created (or promoted) shipment.
+ *
+ * @param api - The DHL API client, authenticated with a Bearer token.
+ * @param pieces - The shipment pieces as returned by the DHL API.
+ * @param labelFormat - The file format and page size of the labels.
+ * @param logger - (Optional) Logger instance for logging debug information.
+ * @returns A promise that resolves to the labels, deduplicated by tracking number.
+ */
+export const downloadShipmentLabels = async (
+  api: Api<unknown>,
+  pieces: DHLShipmentResultPiece[],
+  labelFormat: DHLLabelFormat,
+  logger?: Logger | Console
+): Promise<DHLShipmentResponse[]> => {
   // Use a Map to deduplicate labels by tracking number, keeping the one with valid label data
   const labelsMap = new Map<string, DHLShipmentResponse>();
 
-  for (const piece of result.pieces || []) {
+  for (const piece of pieces) {
     if (!piece.labelId) {
       continue;
     }
 
-    const label = await api.labels.getLabel(piece.labelId, {
-      format: "blob",
-      headers: { Accept: "application/pdf" },
-    });
+    const params = {
+      format: "blob" as const,
+      headers: { Accept: DHL_LABEL_CONTENT_TYPES[labelFormat.format] },
+    };
+
+    // A single label is A6; only the multi-label endpoint can place it on an A4 page
+    const label =
+      labelFormat.format === "pdf" && labelFormat.pageSize === "a4"
+        ? await api.labels.getLabels(
+            { labelIds: [piece.labelId], pdfOptions: { pageSize: "a4" } },
+            params
+          )
+        : await api.labels.getLabel(piece.labelId, params);
 
     const labelBlob = label.data as unknown as Blob;
     const arrayBuffer = await labelBlob.arrayBuffer();
@@ -96,6 +155,9 @@ export const createShipment = async (
         trackingUrl: `https://www.dhlparcel.nl/nl/volg-uw-zending-0?tt=${trackingNumber}`,
         parcelType: piece.parcelType,
         pieceNumber: piece.pieceNumber,
+        format: labelFormat.format,
+        pageSize:
+          labelFormat.format === "pdf" ? labelFormat.pageSize : undefined,
       });
     }
   }
@@ -0,0 +1,37 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+
+/**
+ * Deletes a DHL draft shipment that hasn't been promoted yet.
+ *
+ * @param baseUrl - The base URL of the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param draftId - The UUID of the draft to delete.
+ * @param logger - (Optional) Logger instance for logging debug and error information.
+ * @throws Will throw an error if the DHL API request fails or returns a non-OK response.
+ */
+export const deleteDraft = async (
+  baseUrl: string,
+  token: string,
+  draftId: string,
+  logger?: Logger | Console,
+): Promise<void> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.drafts.deleteDraft(draftId)
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL delete draft failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL delete draft failed: ${response.statusText}`)
+  }
+
+  if (logger) {
+    logger.log(`DHL draft ${draftId} deleted`)
+  }
+}
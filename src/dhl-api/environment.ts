@@ -0,0 +1,33 @@
+/**
+ * The DHL API environments the plugin can talk to.
+ * `custom` uses `api_base_url`, e.g. for a local stand-in of the DHL API.
+ */
+export const DHL_API_ENVIRONMENTS = ['production', 'acceptance', 'custom'] as const
+
+export type DHLApiEnvironment = (typeof DHL_API_ENVIRONMENTS)[number]
+
+export const DHL_API_BASE_URLS: Record<Exclude<DHLApiEnvironment, 'custom'>, string> = {
+  production: 'https://api-gw.dhlparcel.nl',
+  acceptance: 'https://api-gw-accept.dhlparcel.nl',
+}
+
+/**
+ * Get the base URL for the DHL API of the configured environment.
+ * @param settings - The DHL settings; production is used when they are missing.
+ * @returns The base URL for the DHL API, without a trailing slash.
+ */
+export const getDhlBaseUrl = (
+  settings?: {
+    api_environment?: DHLApiEnvironment | null
+    api_base_url?: string | null
+  } | null,
+): string => {
+  if (settings?.api_environment === 'custom') {
+    if (!settings.api_base_url) {
+      throw new Error('DHL API base URL is required for the custom environment')
+    }
+    return settings.api_base_url.replace(/\/+$/, '')
+  }
+
+  return DHL_API_BASE_URLS[settings?.api_environment ?? 'production']
+}
@@ -0,0 +1,86 @@
+import { DHLShipmentOption } from './types'
+
+/**
+ * A DHL add-on option sent next to the carrier option, e.g. signature on delivery or
+ * extra insurance. Options with an `inputType` need an input, e.g. the insured amount.
+ */
+export type DHLExtraOption = {
+  key: string
+  input?: string
+}
+
+const isExtraOption = (value: unknown): value is DHLExtraOption =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as DHLExtraOption).key === 'string' &&
+  (value as DHLExtraOption).key.length > 0 &&
+  ((value as DHLExtraOption).input === undefined ||
+    typeof (value as DHLExtraOption).input === 'string')
+
+/**
+ * Get the extra options of a shipping option.
+ * @param data - The shipping option data; the options are read from `extra_options`.
+ * @returns The extra options, or an empty list when there are none or they're malformed.
+ */
+export const getExtraOptions = (data?: Record<string, unknown> | null): DHLExtraOption[] => {
+  const value = data?.extra_options
+  return Array.isArray(value) && value.every(isExtraOption) ? value : []
+}
+
+/**
+ * Check the extra options of a shipping option against the DHL shipment options.
+ *
+ * Every option has to be offered for the account, can only be added once, needs an input
+ * when DHL asks for one and can't be excluded by the carrier option or another extra option.
+ *
+ * @param carrierKey - The carrier option of the shipping option, e.g. DOOR.
+ * @param value - The `extra_options` of the shipping option data.
+ * @param shipmentOptions - The DHL shipment options of the account.
+ * @returns The problems with the extra options; empty when they're valid.
+ */
+export const validateExtraOptions = (
+  carrierKey: string,
+  value: unknown,
+  shipmentOptions: DHLShipmentOption[],
+): string[] => {
+  if (value === undefined || value === null) {
+    return []
+  }
+  if (!Array.isArray(value) || !value.every(isExtraOption)) {
+    return ['extra_options has to be a list of { key, input? } objects']
+  }
+
+  const problems: string[] = []
+  const keys = [carrierKey, ...value.map((option) => option.key)]
+  value.forEach((option, index) => {
+    const shipmentOption = shipmentOptions.find((o) => o.key === option.key)
+    if (!shipmentOption) {
+      problems.push(`${option.key} is not a DHL shipment option of this account`)
+      return
+    }
+    if (option.key === carrierKey) {
+      problems.push(`${option.key} is already the carrier option`)
+      return
+    }
+    if (keys.indexOf(option.key) !== index + 1) {
+      problems.push(`${option.key} is added more than once`)
+    }
+    if (shipmentOption.inputType && !option.input) {
+      problems.push(`${option.key} needs an input (${shipmentOption.inputType})`)
+    }
+  })
+
+  // An exclusion can be listed on both options, so each conflicting pair is reported once
+  const conflicts = new Set<string>()
+  for (const key of keys) {
+    const excluded = shipmentOptions.find((o) => o.key === key)?.exclusions ?? []
+    for (const exclusion of excluded) {
+      if (keys.includes(exclusion.key)) {
+        conflicts.add([key, exclusion.key].sort().join(' and '))
+      }
+    }
+  }
+  conflicts.forEach((conflict) => problems.push(`${conflict} can't be combined`))
+
+  return problems
+}
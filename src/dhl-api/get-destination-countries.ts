@@ -0,0 +1,107 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLDestinationCountryProperties } from './types'
+
+/**
+ * Get the countries DHL delivers to from /destination-countries/business/{fromCountry}.
+ *
+ * The endpoint is public, so no authentication token is needed.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param fromCountry - The ISO 3166-1 alpha-2 code of the origin country.
+ * @param logger - Optional logger instance.
+ * @returns The upper-cased country codes DHL delivers to from the origin country.
+ */
+export const getDestinationCountries = async (
+  baseUrl: string,
+  fromCountry: string,
+  logger?: Logger,
+): Promise<string[]> => {
+  const api = new Api({ baseUrl: baseUrl })
+
+  const response = await api.destinationCountries.destinationCountriesBusiness(
+    fromCountry.toUpperCase(),
+  )
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL destination countries failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL destination countries failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug('DHL destination countries response: \n' + JSON.stringify(result, null, 2))
+  }
+
+  return result.map((countryCode) => countryCode.toUpperCase())
+}
+
+/**
+ * Get the countries DHL delivers to including their properties from
+ * /destination-countries/business/{fromCountry}/properties.
+ *
+ * The endpoint is public, so no authentication token is needed.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param fromCountry - The ISO 3166-1 alpha-2 code of the origin country.
+ * @param logger - Optional logger instance.
+ * @returns The destination countries with their properties.
+ */
+export const getDestinationCountryProperties = async (
+  baseUrl: string,
+  fromCountry: string,
+  logger?: Logger,
+): Promise<DHLDestinationCountryProperties[]> => {
+  const api = new Api({ baseUrl: baseUrl })
+
+  const response = await api.destinationCountries.destinationCountriesWithPropertiesBusiness(
+    fromCountry.toUpperCase(),
+    {},
+    { format: 'json' },
+  )
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL destination country properties failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL destination country properties failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug(
+      'DHL destination country properties response: \n' + JSON.stringify(result, null, 2),
+    )
+  }
+
+  return Array.isArray(result) ? result : []
+}
+
+/**
+ * Check whether DHL delivers from one country to another.
+ *
+ * Domestic shipments are always supported and don't need a lookup.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param fromCountry - The ISO 3166-1 alpha-2 code of the origin country.
+ * @param toCountry - The ISO 3166-1 alpha-2 code of the destination country.
+ * @param logger - Optional logger instance.
+ * @returns Whether DHL delivers to the destination country.
+ */
+export const isDestinationSupported = async (
+  baseUrl: string,
+  fromCountry: string,
+  toCountry: string,
+  logger?: Logger,
+): Promise<boolean> => {
+  if (fromCountry.toUpperCase() === toCountry.toUpperCase()) {
+    return true
+  }
+
+  const destinations = await getDestinationCountries(baseUrl, fromCountry, logger)
+  return destinations.includes(toCountry.toUpperCase())
+}
@@ -19,6 +19,7 @@ import { DHLAddress, DHLFulfillmentOptionAddress } from './types'
  * @param receiver - The receiver's address (country code and postal code).
  * @param toBusiness - Whether the shipment is to a business.
  * @param options - The shipment options to filter by (DOOR, BOUW, etc.)
+ * @param returnProduct - Whether to get the return products, for return labels.
  * @param logger - Optional logger instance.
  * @returns The DHL capabilities response with parcel types and pricing.
  */
@@ -30,6 +31,7 @@ export const getFulfillmentOptions = async (
   receiver: DHLFulfillmentOptionAddress | DHLAddress,
   toBusiness: boolean,
   options: string[],
+  returnProduct: boolean,
   logger?: Logger,
 ) => {
   const api = new Api({
@@ -45,6 +47,7 @@ export const getFulfillmentOptions = async (
     fromPostalCode: 'address' in sender ? sender.address.postalCode : sender.postalCode,
     toPostalCode: 'address' in receiver ? receiver.address.postalCode : receiver.postalCode,
     option: options,
+    returnProduct,
   })
 
   if (!response.ok) {
@@ -0,0 +1,50 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLNeighbourAddress } from './types'
+
+/**
+ * Get the neighbour addresses a parcel can be delivered to from
+ * /intervention-options/details/neighbours.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param trackerCode - The tracker code (barcode) of the parcel.
+ * @param postalCode - The postal code the parcel is delivered to.
+ * @param houseNumber - The house number of the neighbour.
+ * @param logger - Optional logger instance.
+ * @returns The neighbour addresses with that house number.
+ */
+export const getInterventionNeighbours = async (
+  baseUrl: string,
+  token: string,
+  trackerCode: string,
+  postalCode: string,
+  houseNumber: string,
+  logger?: Logger,
+): Promise<DHLNeighbourAddress[]> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.interventionOptions.retrieveNeighboursAddresses({
+    parcelId: trackerCode,
+    postalCode,
+    houseNumber,
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL intervention neighbours failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL intervention neighbours failed: ${response.statusText}`)
+  }
+
+  const result = response.data.addresses ?? []
+  if (logger) {
+    logger.debug(`DHL intervention neighbours: ${result.length} found for ${trackerCode}`)
+  }
+
+  return result
+}
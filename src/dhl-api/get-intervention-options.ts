@@ -0,0 +1,71 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLInterventionOptions } from './types'
+
+export const DHL_INTERVENTION_TYPES = ['neighbour', 'date_time', 'service_point'] as const
+
+export type DHLInterventionType = (typeof DHL_INTERVENTION_TYPES)[number]
+
+/**
+ * The option of /intervention-options that each intervention type selects.
+ */
+export const DHL_INTERVENTION_OPTION_KEYS = {
+  neighbour: 'neighboursIntervention',
+  date_time: 'dateTimeIntervention',
+  service_point: 'servicePointIntervention',
+} as const satisfies Record<DHLInterventionType, string>
+
+/**
+ * The `Source` header /intervention-options requires, identifying who asks for the options.
+ */
+export const DHL_INTERVENTION_SOURCE = 'medusa-dhl-ecommerce-fulfillment'
+
+/**
+ * Get the delivery interventions DHL offers for a parcel from /intervention-options.
+ *
+ * The details (delivery timeframes and ServicePoints) are included, so a customer can pick
+ * a new date or a ServicePoint right away.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param trackerCode - The tracker code (barcode) of the parcel.
+ * @param postalCode - The postal code the parcel is delivered to.
+ * @param logger - Optional logger instance.
+ * @returns The intervention options of the parcel.
+ */
+export const getInterventionOptions = async (
+  baseUrl: string,
+  token: string,
+  trackerCode: string,
+  postalCode: string,
+  logger?: Logger,
+): Promise<DHLInterventionOptions> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.interventionOptions.retrieveInterventionOptions(
+    {
+      id: [trackerCode],
+      postalCode,
+      details: true,
+    },
+    { headers: { Source: DHL_INTERVENTION_SOURCE } },
+  )
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL intervention options failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL intervention options failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug(`DHL intervention options for ${trackerCode}: ${JSON.stringify(result)}`)
+  }
+
+  return result
+}
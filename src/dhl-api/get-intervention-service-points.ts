@@ -0,0 +1,53 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLInterventionServicePoint } from './types'
+
+/**
+ * Get the ServicePoints a parcel can be redirected to from
+ * /intervention-options/details/servicepoints.
+ *
+ * The swagger doesn't describe the response, so both a list of ServicePoints and the
+ * `servicepoints` of the intervention options are accepted.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param trackerCode - The tracker code (barcode) of the parcel.
+ * @param postalCode - The postal code the parcel is delivered to.
+ * @param logger - Optional logger instance.
+ * @returns The ServicePoints of the parcel.
+ */
+export const getInterventionServicePoints = async (
+  baseUrl: string,
+  token: string,
+  trackerCode: string,
+  postalCode: string,
+  logger?: Logger,
+): Promise<DHLInterventionServicePoint[]> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.interventionOptions.retrieveServicePointDetails({
+    id: trackerCode,
+    postalCode,
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL intervention ServicePoints failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL intervention ServicePoints failed: ${response.statusText}`)
+  }
+
+  const data = response.data as unknown
+  const result = (
+    Array.isArray(data) ? data : ((data as { servicepoints?: unknown } | null)?.servicepoints ?? [])
+  ) as DHLInterventionServicePoint[]
+  if (logger) {
+    logger.debug(`DHL intervention ServicePoints: ${result.length} found for ${trackerCode}`)
+  }
+
+  return result
+}
@@ -0,0 +1,53 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLInterventionTimeframe } from './types'
+
+/**
+ * Get the delivery timeframes a parcel can be moved to from
+ * /intervention-options/details/timeframes.
+ *
+ * The swagger doesn't describe the response, so both a list of timeframes and the
+ * `timeFrames` of the intervention options are accepted.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param trackerCode - The tracker code (barcode) of the parcel.
+ * @param postalCode - The postal code the parcel is delivered to.
+ * @param logger - Optional logger instance.
+ * @returns The delivery timeframes of the parcel.
+ */
+export const getInterventionTimeframes = async (
+  baseUrl: string,
+  token: string,
+  trackerCode: string,
+  postalCode: string,
+  logger?: Logger,
+): Promise<DHLInterventionTimeframe[]> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.interventionOptions.retrieveTimeFrameDetails({
+    id: trackerCode,
+    postalCode,
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL intervention timeframes failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL intervention timeframes failed: ${response.statusText}`)
+  }
+
+  const data = response.data as unknown
+  const result = (
+    Array.isArray(data) ? data : ((data as { timeFrames?: unknown } | null)?.timeFrames ?? [])
+  ) as DHLInterventionTimeframe[]
+  if (logger) {
+    logger.debug(`DHL intervention timeframes: ${result.length} found for ${trackerCode}`)
+  }
+
+  return result
+}
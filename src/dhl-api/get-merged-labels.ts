@@ -0,0 +1,55 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLLabelPageSize } from './label-format'
+
+/**
+ * Downloads the PDF labels of many parcels as one document with /labels/multi.
+ * The labels have to belong to the DHL account of the token.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param trackerCodes - The tracking numbers of the labels, in print order.
+ * @param pageSize - `a6` puts each label on its own page, `a4` combines labels on A4 pages.
+ * @param logger - Optional logger instance.
+ * @returns The merged PDF, base64 encoded.
+ */
+export const getMergedLabels = async (
+  baseUrl: string,
+  token: string,
+  trackerCodes: string[],
+  pageSize: DHLLabelPageSize,
+  logger?: Logger,
+): Promise<string> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  if (logger) {
+    logger.debug(`DHL merged labels request for ${trackerCodes.length} labels`)
+  }
+
+  const response = await api.labels.getLabels(
+    {
+      trackerCodes,
+      // A missing label would silently leave a parcel without one in the print job
+      missingLabelPolicy: 'fail',
+      pdfOptions: { pageSize: pageSize === 'a4' ? 'a4' : 'original' },
+    },
+    {
+      format: 'blob',
+      headers: { Accept: 'application/pdf' },
+    },
+  )
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL merged labels failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL merged labels failed: ${response.statusText}`)
+  }
+
+  const blob = response.data as unknown as Blob
+  return Buffer.from(await blob.arrayBuffer()).toString('base64')
+}
@@ -0,0 +1,104 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLPickupRequest } from './types'
+
+const PAGE_SIZE = 100
+
+/**
+ * Get the DHL pickup requests of an account from /pickup-requests.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param accountId - The DHL account the pickups were booked for.
+ * @param logger - Optional logger instance.
+ * @returns All pickup requests of the account.
+ */
+export const getPickupRequests = async (
+  baseUrl: string,
+  token: string,
+  accountId: string,
+  logger?: Logger,
+): Promise<DHLPickupRequest[]> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const pickups: DHLPickupRequest[] = []
+  for (let skip = 0; ; skip += PAGE_SIZE) {
+    const response = await api.pickupRequests.getPickups({
+      accountIds: [accountId],
+      limit: PAGE_SIZE,
+      skip,
+    })
+
+    if (!response.ok) {
+      const text = await response.text()
+      if (logger) {
+        logger.error(`DHL pickup requests failed [${response.status}]: ${text}`)
+      }
+      throw new Error(`DHL pickup requests failed: ${response.statusText}`)
+    }
+
+    const page = response.data.data ?? []
+    pickups.push(...page)
+
+    if (page.length < PAGE_SIZE || pickups.length >= response.data.results) {
+      break
+    }
+  }
+
+  if (logger) {
+    logger.debug(`DHL pickup requests: ${pickups.length} found for account ${accountId}`)
+  }
+
+  return pickups
+}
+
+/**
+ * Get a DHL pickup request by its id from /pickup-requests/{id}.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param id - The id of the pickup request.
+ * @param logger - Optional logger instance.
+ * @returns The pickup request, or null when DHL doesn't know it.
+ */
+export const getPickupRequest = async (
+  baseUrl: string,
+  token: string,
+  id: string,
+  logger?: Logger,
+): Promise<DHLPickupRequest | null> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  // The generated client throws the response for non-OK statuses
+  const response = await api.pickupRequests.getPickup(id).catch((error: unknown) => {
+    if (error instanceof Response && error.status === 404) {
+      return null
+    }
+    throw error
+  })
+
+  if (!response) {
+    return null
+  }
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL pickup request failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL pickup request failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug('DHL pickup request response: \n' + JSON.stringify(result, null, 2))
+  }
+
+  return result
+}
@@ -0,0 +1,54 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLProofOfDelivery } from './types'
+
+/**
+ * Get DHL's proof of delivery of a piece from /pieces/{id}/pod.
+ *
+ * A piece can have a proof of delivery at the address and one at a ParcelShop.
+ * Each contains the name of the signer and the signature image.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param trackingNumber - The tracking number (barcode) of the piece.
+ * @param logger - Optional logger instance.
+ * @returns The proofs of delivery, or an empty list if DHL has none for the piece.
+ */
+export const getProofOfDelivery = async (
+  baseUrl: string,
+  token: string,
+  trackingNumber: string,
+  logger?: Logger,
+): Promise<DHLProofOfDelivery[]> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  // The generated client throws the response for non-OK statuses
+  const response = await api.pieces.getPiecePod(trackingNumber).catch((error: unknown) => {
+    if (error instanceof Response && error.status === 404) {
+      return null
+    }
+    throw error
+  })
+
+  if (!response) {
+    return []
+  }
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL proof of delivery failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL proof of delivery failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug(`DHL proof of delivery: ${result.length} found for piece ${trackingNumber}`)
+  }
+
+  return result
+}
@@ -0,0 +1,40 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLPusherConfiguration } from './types'
+
+/**
+ * Get the Track & Trace Pusher configurations of the organisation from
+ * /track-trace-pusher/manage/configurations.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param logger - Optional logger instance.
+ * @returns The push configurations, each with the URL DHL pushes to.
+ */
+export const getPusherConfigurations = async (
+  baseUrl: string,
+  token: string,
+  logger?: Logger,
+): Promise<DHLPusherConfiguration[]> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.trackTracePusher.listConfigurations()
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL pusher configurations failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL pusher configurations failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug(`DHL pusher configurations: ${result.length} found`)
+  }
+
+  return result
+}
@@ -0,0 +1,97 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLServicePoint } from './types'
+
+/**
+ * The DHL shipment option key for delivery to a service point (ParcelShop / Parcelstation).
+ * Shipments with this option need the service point ID as option input.
+ */
+export const DHL_SERVICE_POINT_OPTION = 'PS'
+
+/**
+ * Searches DHL service points (ParcelShops and Parcelstations) near a postal code.
+ *
+ * The parcel shop locator is a public DHL endpoint, so no authentication token is needed.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param countryCode - The ISO 3166-1 alpha-2 country code to search in.
+ * @param postalCode - The postal code to search around.
+ * @param limit - The maximum number of service points to return.
+ * @param logger - Optional logger instance.
+ * @returns The service points, closest first.
+ */
+export const getServicePoints = async (
+  baseUrl: string,
+  countryCode: string,
+  postalCode: string,
+  limit: number,
+  logger?: Logger,
+): Promise<DHLServicePoint[]> => {
+  const api = new Api({ baseUrl: baseUrl })
+
+  const response = await api.parcelShopLocations.getParcelShopLocationsCountrycode(
+    countryCode.toUpperCase(),
+    {
+      postalCode: postalCode,
+      limit: limit,
+      serviceType: ['parcel-last-mile'],
+    },
+  )
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL service points failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL service points failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug('DHL service points response: \n' + JSON.stringify(result, null, 2))
+  }
+
+  return result
+}
+
+/**
+ * Gets a single DHL service point by its ID.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param countryCode - The ISO 3166-1 alpha-2 country code of the service point.
+ * @param servicePointId - The service point ID, e.g. "8004-NL-132825".
+ * @param logger - Optional logger instance.
+ * @returns The service point, or null if DHL doesn't know it.
+ */
+export const getServicePoint = async (
+  baseUrl: string,
+  countryCode: string,
+  servicePointId: string,
+  logger?: Logger,
+): Promise<DHLServicePoint | null> => {
+  const api = new Api({ baseUrl: baseUrl })
+
+  // The generated client throws the response for non-OK statuses
+  const response = await api.parcelShopLocations
+    .getParcelShopLocationsCountrycodeId(countryCode.toUpperCase(), servicePointId)
+    .catch((error: unknown) => {
+      if (error instanceof Response && error.status === 404) {
+        return null
+      }
+      throw error
+    })
+
+  if (!response) {
+    return null
+  }
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL service point failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL service point failed: ${response.statusText}`)
+  }
+
+  return response.data
+}
@@ -0,0 +1,40 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLPromotedPiece, DHLShipmentResponse } from './types'
+import { downloadShipmentLabels } from './create-shipment'
+import { DEFAULT_DHL_LABEL_FORMAT, DHLLabelFormat } from './label-format'
+
+/**
+ * Downloads the labels of the pieces of an existing shipment, e.g. a promoted draft.
+ *
+ * @param baseUrl - The base URL of the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param pieces - The pieces of the shipment.
+ * @param labelFormat - (Optional) The file format and page size of the labels, an A6 PDF by default.
+ * @param logger - (Optional) Logger instance for logging debug information.
+ * @returns A promise that resolves to the labels of the shipment.
+ */
+export const getShipmentLabels = async (
+  baseUrl: string,
+  token: string,
+  pieces: DHLPromotedPiece[],
+  labelFormat: DHLLabelFormat = DEFAULT_DHL_LABEL_FORMAT,
+  logger?: Logger | Console,
+): Promise<DHLShipmentResponse[]> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  return downloadShipmentLabels(
+    api,
+    pieces.map((piece) => ({
+      labelId: piece.label_id,
+      trackerCode: piece.tracker_code,
+      parcelType: piece.parcel_type,
+      pieceNumber: piece.piece_number,
+    })),
+    labelFormat,
+    logger,
+  )
+}
@@ -0,0 +1,81 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLExtraOption } from './extra-options'
+import { DHLTimeWindow, DHLTimeWindowData } from './types'
+
+/**
+ * Get the DHL delivery time windows for a postal code from /time-windows.
+ *
+ * DHL returns the available delivery time frames (e.g. daytime and evening) for
+ * the next 14 days. The endpoint is public, so no authentication token is needed.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param countryCode - The ISO 3166-1 alpha-2 country code of the postal code.
+ * @param postalCode - The postal code to deliver to.
+ * @param logger - Optional logger instance.
+ * @returns The available time windows.
+ */
+export const getTimeWindows = async (
+  baseUrl: string,
+  countryCode: string,
+  postalCode: string,
+  logger?: Logger,
+): Promise<DHLTimeWindow[]> => {
+  const api = new Api({ baseUrl: baseUrl })
+
+  const response = await api.timeWindows.retrieveTimeWindows({
+    countryCode: countryCode.toUpperCase(),
+    postalCode: postalCode.replace(/\s+/g, '').toUpperCase(),
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL time windows failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL time windows failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug('DHL time windows response: \n' + JSON.stringify(result, null, 2))
+  }
+
+  return result
+}
+
+/**
+ * Find the DHL time window that matches a selected time window by its date and times.
+ * @param timeWindows - The time windows DHL currently offers.
+ * @param selected - The time window selected by the customer.
+ * @returns The matching time window, or undefined when DHL doesn't offer it (anymore).
+ */
+export const findTimeWindow = (
+  timeWindows: DHLTimeWindow[],
+  selected: Pick<DHLTimeWindowData, 'delivery_date' | 'start_time' | 'end_time'>,
+): DHLTimeWindow | undefined =>
+  timeWindows.find(
+    (window) =>
+      window.deliveryDate === selected.delivery_date &&
+      window.startTime === selected.start_time &&
+      window.endTime === selected.end_time,
+  )
+
+/**
+ * Get the shipment option that books a delivery time window.
+ *
+ * The window's own option is used, e.g. EVE for evening delivery, or the carrier option for
+ * regular daytime delivery. Its input is the delivery date and times as DHL returns them,
+ * e.g. `21-10-2026 1800-2200`.
+ *
+ * @param timeWindow - The selected time window.
+ * @param carrierKey - The carrier option of the shipping option, e.g. DOOR.
+ * @returns The shipment option with the time window as its input.
+ */
+export const getTimeWindowOption = (
+  timeWindow: DHLTimeWindowData,
+  carrierKey: string,
+): DHLExtraOption => ({
+  key: timeWindow.option || carrierKey,
+  input: `${timeWindow.delivery_date} ${timeWindow.start_time}-${timeWindow.end_time}`,
+})
@@ -0,0 +1,90 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLEstimatedDelivery, DHLFulfillmentOptionAddress, DHLTransitTime } from './types'
+import { getShipmentDate, ShippingSchedule } from '../utils/shipment-date'
+
+/**
+ * Get the DHL transit time from /transit-times/business.
+ *
+ * The endpoint is public, so no authentication token is needed.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param sender - The sender's address (country code and postal code).
+ * @param receiver - The receiver's address (country code and postal code).
+ * @param toBusiness - Whether the shipment is to a business.
+ * @param shipmentDate - The date the parcel is handed to DHL, as YYYY-MM-DD.
+ * @param logger - Optional logger instance.
+ * @returns The transit time including DHL's expected delivery date.
+ */
+export const getTransitTimes = async (
+  baseUrl: string,
+  sender: DHLFulfillmentOptionAddress,
+  receiver: DHLFulfillmentOptionAddress,
+  toBusiness: boolean,
+  shipmentDate: string,
+  logger?: Logger,
+): Promise<DHLTransitTime> => {
+  const api = new Api({ baseUrl: baseUrl })
+
+  const response = await api.transitTimes.transitTimesBusiness({
+    fromCountry: sender.countryCode.toUpperCase(),
+    toCountry: receiver.countryCode.toUpperCase(),
+    toPostalCode: receiver.postalCode,
+    toBusiness: toBusiness,
+    shipmentDate: shipmentDate,
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL transit times failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL transit times failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.debug('DHL transit times response: \n' + JSON.stringify(result, null, 2))
+  }
+
+  return result
+}
+
+/**
+ * Estimate the delivery date of a shipment.
+ *
+ * The shipment date honours the shop's daily cut-off time and non-shipping days;
+ * DHL's transit times are then used to work out the expected delivery date.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param sender - The sender's address (country code and postal code).
+ * @param receiver - The receiver's address (country code and postal code).
+ * @param toBusiness - Whether the shipment is to a business.
+ * @param schedule - The shop's shipping schedule.
+ * @param logger - Optional logger instance.
+ * @returns The estimated shipment and delivery dates.
+ */
+export const getEstimatedDelivery = async (
+  baseUrl: string,
+  sender: DHLFulfillmentOptionAddress,
+  receiver: DHLFulfillmentOptionAddress,
+  toBusiness: boolean,
+  schedule: ShippingSchedule,
+  logger?: Logger,
+): Promise<DHLEstimatedDelivery> => {
+  const shipmentDate = getShipmentDate(new Date(), schedule)
+  const transitTime = await getTransitTimes(
+    baseUrl,
+    sender,
+    receiver,
+    toBusiness,
+    shipmentDate,
+    logger,
+  )
+
+  return {
+    shipment_date: transitTime.shipmentDate ?? shipmentDate,
+    expected_delivery_date: transitTime.expectedDeliveryDate ?? null,
+    transit_days: transitTime.days?.total ?? null,
+  }
+}
@@ -0,0 +1,61 @@
+import { DHLExtraOption } from './extra-options'
+
+/**
+ * The DHL option that insures a shipment for the amount given as its input.
+ */
+export const DHL_INSURANCE_OPTION = 'INS'
+
+/**
+ * The highest amount DHL insures a shipment for, in euros.
+ */
+export const DHL_MAX_INSURED_VALUE = 50000
+
+/**
+ * The currency DHL insures shipments in. Values in other currencies aren't converted.
+ */
+export const DHL_INSURANCE_CURRENCY = 'eur'
+
+/**
+ * Add the DHL insurance option to the extra options of a shipment when its value is above the
+ * insurance threshold. The insured amount is the value rounded up to whole euros and capped at
+ * the maximum DHL insures for.
+ *
+ * The threshold and the insured amount are in euros, so only values in euros are insured
+ * automatically. Shipping options that already add insurance keep their own insured amount.
+ *
+ * @param extraOptions - The extra options of the shipping option.
+ * @param value - The value of the shipped items.
+ * @param threshold - The value above which shipments are insured; no insurance when not set.
+ * @param currencyCode - The currency of the value; no insurance unless it's euros.
+ * @returns The extra options with insurance, and the insured amount when the shipment is insured.
+ */
+export const addInsurance = (
+  extraOptions: DHLExtraOption[],
+  value: number,
+  threshold: number | null | undefined,
+  currencyCode: string | null | undefined,
+): { options: DHLExtraOption[]; insuredValue?: number } => {
+  const insurance = extraOptions.find((option) => option.key === DHL_INSURANCE_OPTION)
+  if (insurance) {
+    const insuredValue = Number(insurance.input)
+    return {
+      options: extraOptions,
+      insuredValue: Number.isFinite(insuredValue) ? insuredValue : undefined,
+    }
+  }
+
+  if (
+    threshold === undefined ||
+    threshold === null ||
+    currencyCode?.toLowerCase() !== DHL_INSURANCE_CURRENCY ||
+    !(value > threshold)
+  ) {
+    return { options: extraOptions }
+  }
+
+  const insuredValue = Math.min(Math.ceil(value), DHL_MAX_INSURED_VALUE)
+  return {
+    options: [...extraOptions, { key: DHL_INSURANCE_OPTION, input: String(insuredValue) }],
+    insuredValue,
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * The label file formats DHL can render.
+ * `zpl` is meant for thermal printers, e.g. Zebra, and ignores the page size.
+ */
+export const DHL_LABEL_FORMATS = ['pdf', 'zpl'] as const
+
+export type DHLLabelFileFormat = (typeof DHL_LABEL_FORMATS)[number]
+
+/**
+ * The page sizes of PDF labels. `a6` is the label itself, `a4` places it on a full page.
+ */
+export const DHL_LABEL_PAGE_SIZES = ['a6', 'a4'] as const
+
+export type DHLLabelPageSize = (typeof DHL_LABEL_PAGE_SIZES)[number]
+
+export const DHL_LABEL_CONTENT_TYPES: Record<DHLLabelFileFormat, string> = {
+  pdf: 'application/pdf',
+  zpl: 'application/zpl',
+}
+
+export type DHLLabelFormat = {
+  format: DHLLabelFileFormat
+  pageSize: DHLLabelPageSize
+}
+
+export const DEFAULT_DHL_LABEL_FORMAT: DHLLabelFormat = { format: 'pdf', pageSize: 'a6' }
+
+/**
+ * Get the label format of the configured settings.
+ * @param settings - The DHL settings, or the label format of a stock location.
+ * @returns The label format; an A6 PDF when the settings are missing.
+ */
+export const getDhlLabelFormat = (
+  settings?: {
+    label_format?: DHLLabelFileFormat | null
+    label_page_size?: DHLLabelPageSize | null
+  } | null,
+): DHLLabelFormat => ({
+  format: settings?.label_format ?? DEFAULT_DHL_LABEL_FORMAT.format,
+  pageSize: settings?.label_page_size ?? DEFAULT_DHL_LABEL_FORMAT.pageSize,
+})
@@ -0,0 +1,66 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+import { DHLPromotedPiece } from './types'
+
+/**
+ * Promotes a DHL draft to a real shipment.
+ * DHL deletes the draft once it has been promoted, so the returned shipment is the only way
+ * to its labels.
+ *
+ * @param baseUrl - The base URL of the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param draftId - The UUID of the draft to promote.
+ * @param logger - (Optional) Logger instance for logging debug and error information.
+ * @returns A promise that resolves to the ID and pieces of the created shipment.
+ * @throws Will throw an error if the DHL API request fails or the draft could not be promoted.
+ */
+export const promoteDraft = async (
+  baseUrl: string,
+  token: string,
+  draftId: string,
+  logger?: Logger | Console,
+): Promise<{ shipmentId: string; pieces: DHLPromotedPiece[] }> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.drafts.promoteDrafts({
+    drafts: { ids: [draftId] },
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL promote draft failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL promote draft failed: ${response.statusText}`)
+  }
+
+  const result = response.data
+  if (logger) {
+    logger.log(`DHL promote draft response: ${JSON.stringify(result, null, 2)}`)
+  }
+
+  // The endpoint reports one result per draft, even when a single draft is promoted
+  const promotions = Array.isArray(result) ? result : [result]
+  const promotion = promotions.find((p) => p.reference?.draftId === draftId) ?? promotions[0]
+
+  if (!promotion || promotion.type !== 'PromoteDraftSuccess' || !promotion.shipment) {
+    throw new Error(
+      `DHL promote draft failed: ${JSON.stringify(promotion?.error ?? 'No shipment created')}`,
+    )
+  }
+
+  return {
+    shipmentId: promotion.shipment.shipmentId ?? draftId,
+    pieces: (promotion.shipment.pieces ?? [])
+      .filter((piece) => piece.labelId)
+      .map((piece) => ({
+        label_id: piece.labelId as string,
+        tracker_code: piece.trackerCode ?? '',
+        parcel_type: piece.parcelType,
+        piece_number: piece.pieceNumber,
+      })),
+  }
+}
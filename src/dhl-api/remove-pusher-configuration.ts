@@ -0,0 +1,38 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+
+/**
+ * Remove a Track & Trace Pusher configuration from
+ * /track-trace-pusher/manage/configurations/{configurationId}. DHL stops pushing to its URL.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param configurationId - The id of the push configuration.
+ * @param logger - Optional logger instance.
+ * @throws Will throw an error if the configuration couldn't be removed.
+ */
+export const removePusherConfiguration = async (
+  baseUrl: string,
+  token: string,
+  configurationId: string,
+  logger?: Logger,
+): Promise<void> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.trackTracePusher.removeConfiguration(configurationId)
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL remove pusher configuration failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL remove pusher configuration failed: ${response.statusText}`)
+  }
+
+  if (logger) {
+    logger.debug(`DHL pusher configuration ${configurationId} removed`)
+  }
+}
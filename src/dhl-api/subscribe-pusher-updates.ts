@@ -0,0 +1,47 @@
+import { Logger } from '@medusajs/framework/types'
+import { Api } from './swagger/Api'
+
+/**
+ * Subscribe a parcel to a Track & Trace Pusher configuration at
+ * /track-trace-pusher/subscriptions. DHL pushes the current status of the parcel right away
+ * and every status change after that.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param token - The Bearer token used for authentication with the DHL API.
+ * @param configurationId - The id of the push configuration.
+ * @param trackerCode - The tracker code (barcode) of the parcel.
+ * @param postalCode - The postal code the parcel is delivered to.
+ * @param logger - Optional logger instance.
+ * @throws Will throw an error if DHL doesn't accept the subscription.
+ */
+export const subscribePusherUpdates = async (
+  baseUrl: string,
+  token: string,
+  configurationId: string,
+  trackerCode: string,
+  postalCode: string | undefined,
+  logger?: Logger,
+): Promise<void> => {
+  const api = new Api({
+    baseUrl: baseUrl,
+    baseApiParams: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const response = await api.trackTracePusher.subscribeToUpdates({
+    configurationId,
+    barcode: trackerCode,
+    ...(postalCode ? { postalCode } : {}),
+  })
+
+  if (!response.ok) {
+    const text = await response.text()
+    if (logger) {
+      logger.error(`DHL pusher subscription failed [${response.status}]: ${text}`)
+    }
+    throw new Error(`DHL pusher subscription failed: ${response.statusText}`)
+  }
+
+  if (logger) {
+    logger.debug(`DHL pusher subscription added for ${trackerCode}`)
+  }
+}
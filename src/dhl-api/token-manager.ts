@@ -0,0 +1,95 @@
+import { createHash } from 'crypto'
+import { authenticateWithApiKey, refreshAuthTokens } from './auth'
+import { DHLAuthTokens } from './types'
+
+/**
+ * Tokens are renewed this long before they expire, so they don't expire mid-request.
+ */
+const EXPIRY_MARGIN_MS = 60 * 1000
+
+type CachedTokens = {
+  accessToken: string
+  accessTokenExpiresAt: number
+  refreshToken: string
+  refreshTokenExpiresAt: number
+}
+
+const tokenCache = new Map<string, CachedTokens>()
+const pendingTokens = new Map<string, Promise<string>>()
+
+/**
+ * DHL returns expirations as epoch seconds; milliseconds are accepted as well.
+ */
+const toEpochMs = (expiration: number): number =>
+  expiration < 1e12 ? expiration * 1000 : expiration
+
+const toCachedTokens = (tokens: DHLAuthTokens): CachedTokens => ({
+  accessToken: tokens.accessToken,
+  accessTokenExpiresAt: toEpochMs(tokens.accessTokenExpiration),
+  refreshToken: tokens.refreshToken,
+  refreshTokenExpiresAt: toEpochMs(tokens.refreshTokenExpiration),
+})
+
+const getCacheKey = (
+  baseUrl: string,
+  userId: string,
+  apiKey: string,
+  accountNumber: string,
+): string =>
+  createHash('sha256').update([baseUrl, userId, apiKey, accountNumber].join('|')).digest('hex')
+
+/**
+ * Get a DHL access token.
+ *
+ * Tokens are cached in memory per set of credentials until just before they expire.
+ * Expired access tokens are renewed with the refresh token, falling back to the API key
+ * when the refresh token has expired or is rejected. Concurrent calls share a single
+ * authentication request.
+ *
+ * @param baseUrl - The base URL for the DHL API.
+ * @param userId - The DHL user ID.
+ * @param apiKey - The DHL api key.
+ * @param accountNumber - The DHL account number.
+ * @returns The DHL authentication token.
+ */
+export const getAuthToken = async (
+  baseUrl: string,
+  userId: string,
+  apiKey: string,
+  accountNumber: string,
+): Promise<string> => {
+  const key = getCacheKey(baseUrl, userId, apiKey, accountNumber)
+
+  const cached = tokenCache.get(key)
+  if (cached && cached.accessTokenExpiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.accessToken
+  }
+
+  const pending = pendingTokens.get(key)
+  if (pending) {
+    return pending
+  }
+
+  const request = (async () => {
+    let tokens: DHLAuthTokens | undefined
+    if (cached && cached.refreshTokenExpiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      try {
+        tokens = await refreshAuthTokens(baseUrl, cached.refreshToken)
+      } catch {
+        // A rejected refresh token is replaced by authenticating with the API key again
+      }
+    }
+
+    if (!tokens) {
+      tokens = await authenticateWithApiKey(baseUrl, userId, apiKey, accountNumber)
+    }
+
+    tokenCache.set(key, toCachedTokens(tokens))
+    return tokens.accessToken
+  })().finally(() => {
+    pendingTokens.delete(key)
+  })
+
+  pendingTokens.set(key, request)
+  return request
+}
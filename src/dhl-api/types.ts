@@ -1,4 +1,6 @@
 import { Api } from './swagger/Api'
+import { DHLLabelFileFormat, DHLLabelPageSize } from './label-format'
+import { DHLInterventionType } from './get-intervention-options'
 
 export type DHLAddress = Parameters<
   InstanceType<typeof Api>['shipments']['createShipmentPublic']
@@ -8,6 +10,16 @@ export type DHLShipmentPiece = Parameters<
   InstanceType<typeof Api>['shipments']['createShipmentPublic']
 >[0]['pieces'][number]
 
+/**
+ * Optional shipment fields that are passed through to `createShipmentPublic` as-is.
+ */
+export type DHLShipmentExtras = Partial<
+  Pick<
+    Parameters<InstanceType<typeof Api>['shipments']['createShipmentPublic']>[0],
+    'returnLabel' | 'product' | 'options' | 'orderReference'
+  >
+>
+
 export type DHLShipmentStatusResponse = Awaited<
   ReturnType<InstanceType<typeof Api>['trackTrace']['getTrackAndTrace']>
 >['data'][number]
@@ -26,12 +38,62 @@ export type DHLShipmentStatusEvent =
   | 'UNDERWAY'
   | 'UNKNOWN'
 
+export type DHLShipmentResultPiece = NonNullable<
+  Awaited<
+    ReturnType<InstanceType<typeof Api>['shipments']['createShipmentPublic']>
+  >['data']['pieces']
+>[number]
+
 export type DHLShipmentResponse = {
   trackingNumber: string
   trackingUrl: string
   label: string
   parcelType?: string
   pieceNumber?: number
+  /**
+   * The file format of `label`, base64 encoded. Labels created before formats were configurable are PDFs.
+   */
+  format?: DHLLabelFileFormat
+  pageSize?: DHLLabelPageSize
+}
+
+/**
+ * Label metadata stored on the fulfillment data. The label itself is a file in Medusa's File module.
+ * Labels created before they were stored as files carry the base64 `label` instead.
+ */
+export type DHLLabelData = Omit<DHLShipmentResponse, 'label'> & {
+  fileId: string
+  fileUrl: string
+}
+
+/**
+ * Draft state stored on the fulfillment data when shipments are created as drafts first.
+ */
+export type DHLDraftData = {
+  id: string
+  status: 'draft' | 'promoted'
+  /**
+   * The stock location the draft ships from, used to pick the DHL account that owns the draft.
+   */
+  location_id?: string
+  promote_after?: string | null
+  promoted_at?: string | null
+  /**
+   * The shipment DHL created from the draft, saved as soon as it's promoted so its labels can
+   * be downloaded again when storing them fails.
+   */
+  shipment_id?: string
+  pieces?: DHLPromotedPiece[]
+}
+
+/**
+ * A piece of a promoted draft, with the label to download and its tracker code.
+ */
+export type DHLPromotedPiece = {
+  label_id: string
+  tracker_code: string
+  parcel_type?: string
+  piece_number?: number
 }
 
 export type DHLFulfillmentOptionAddress = {
@@ -65,3 +127,125 @@ export type DHLWebhookEventBody = Awaited<
 export type DHLShipmentOption = Awaited<
   ReturnType<InstanceType<typeof Api>['shipmentOptions']['shipmentOptionsBusiness']>
 >['data'][number]
+
+export type DHLServicePoint = Awaited<
+  ReturnType<InstanceType<typeof Api>['parcelShopLocations']['getParcelShopLocationsCountrycode']>
+>['data'][number]
+
+/**
+ * The selected service point as stored on the shipping method and fulfillment data.
+ */
+export type DHLServicePointData = Pick<DHLServicePoint, 'id' | 'name' | 'address'>
+
+export type DHLTimeWindow = Awaited<
+  ReturnType<InstanceType<typeof Api>['timeWindows']['retrieveTimeWindows']>
+>['data'][number]
+
+/**
+ * The selected delivery time window as stored on the shipping method and fulfillment data.
+ */
+export type DHLTimeWindowData = {
+  delivery_date: string
+  start_time: string
+  end_time: string
+  type?: string
+  option?: string
+}
+
+export type DHLTransitTime = Awaited<
+  ReturnType<InstanceType<typeof Api>['transitTimes']['transitTimesBusiness']>
+>['data']
+
+/**
+ * The estimated delivery as returned by the store route and stored on the fulfillment data.
+ */
+export type DHLEstimatedDelivery = {
+  shipment_date: string
+  expected_delivery_date: string | null
+  transit_days: number | null
+}
+
+/**
+ * A destination country with its properties. DHL doesn't document the shape of the
+ * properties, so they are passed through as returned.
+ */
+export type DHLDestinationCountryProperties = Record<string, unknown>
+
+export type DHLAuthTokens = Awaited<
+  ReturnType<InstanceType<typeof Api>['authenticate']['apiKey']>
+>['data']
+
+export type DHLCapability = Awaited<
+  ReturnType<InstanceType<typeof Api>['capabilities']['capabilitiesBusiness']>
+>['data'][number]
+
+export type DHLPickupRequestInput = Parameters<
+  InstanceType<typeof Api>['pickupRequests']['createPickup']
+>[0]
+
+export type DHLPickupRequest = Awaited<
+  ReturnType<InstanceType<typeof Api>['pickupRequests']['getPickup']>
+>['data']
+
+export type DHLCustomsDeclarationInput = Parameters<
+  InstanceType<typeof Api>['customs']['postCustomsDeclarations']
+>[0]
+
+export type DHLCustomsDeclarationResult = Awaited<
+  ReturnType<InstanceType<typeof Api>['customs']['postCustomsDeclarations']>
+>['data']
+
+/**
+ * Customs declaration stored on the fulfillment data of shipments that leave the EU.
+ */
+export type DHLCustomsDeclarationData = {
+  id: string
+  order_reference: string
+  attachments: NonNullable<DHLCustomsDeclarationResult['generatedAttachments']>
+}
+
+/**
+ * Insured value stored on the fulfillment data of insured shipments, for claims.
+ */
+export type DHLInsuredValueData = {
+  amount: number
+  currency_code: string | null
+}
+
+export type DHLProofOfDelivery = Awaited<
+  ReturnType<InstanceType<typeof Api>['pieces']['getPiecePod']>
+>['data'][number]
+
+export type DHLInterventionOptions = Awaited<
+  ReturnType<InstanceType<typeof Api>['interventionOptions']['retrieveInterventionOptions']>
+>['data']
+
+export type DHLInterventionTimeframe = NonNullable<DHLInterventionOptions['timeFrames']>[number]
+
+export type DHLInterventionServicePoint = NonNullable<
+  DHLInterventionOptions['servicepoints']
+>[number]
+
+export type DHLNeighbourAddress = NonNullable<
+  Awaited<
+    ReturnType<InstanceType<typeof Api>['interventionOptions']['retrieveNeighboursAddresses']>
+  >['data']['addresses']
+>[number]
+
+/**
+ * A delivery intervention a customer requested for a parcel, stored on the fulfillment data
+ * under `interventions` so support staff can carry it out.
+ */
+export type DHLInterventionData = {
+  tracker_code: string
+  type: DHLInterventionType
+  neighbour_address?: DHLNeighbourAddress
+  timeframe?: { from: string; to: string }
+  service_point_id?: string
+  requested_at: string
+  status: 'requested'
+}
+
+export type DHLPusherConfiguration = Awaited<
+  ReturnType<InstanceType<typeof Api>['trackTracePusher']['listConfigurations']>
+>['data'][number]
@@ -0,0 +1,151 @@
+import {
+  IStockLocationService,
+  Logger,
+  MedusaContainer,
+} from "@medusajs/framework/types";
+import { Modules } from "@medusajs/framework/utils";
+import createPickupRequestWorkflow from "../workflows/create-pickup-request";
+import getPickupParcelsWorkflow from "../workflows/get-pickup-parcels";
+import { DHL_SETTINGS_MODULE } from "../modules/setting";
+import DHLSettingsModuleService from "../modules/setting/service";
+import { getAuthToken } from "../dhl-api/token-manager";
+import { getDhlBaseUrl } from "../dhl-api/environment";
+import { getPickupRequests } from "../dhl-api/get-pickup-requests";
+import {
+  getLocalDate,
+  getShipmentDate,
+  getShippingSchedule,
+} from "../utils/shipment-date";
+
+/**
+ * Books the daily DHL pickup of each stock location.
+ *
+ * Only runs when automatic pickups are enabled in the settings. A pickup is booked
+ * on shipping days before the cut-off time, once there are labelled DHL parcels for
+ * the day and no pickup has been booked for the stock location yet.
+ */
+export const config = {
+  name: "dhl-book-pickups",
+  // every 30 minutes
+  schedule: "*/30 * * * *",
+};
+
+const normalizePostalCode = (postalCode?: string | null) =>
+  (postalCode ?? "").replace(/\s+/g, "").toUpperCase();
+
+export default async function handler(container: MedusaContainer) {
+  const logger = container.resolve<Logger>("logger");
+  const dhlSettingService = container.resolve(
+    DHL_SETTINGS_MODULE
+  ) as DHLSettingsModuleService;
+  const settings = await dhlSettingService.getCredentials();
+
+  if (
+    !settings?.auto_pickup_enabled ||
+    !settings?.user_id ||
+    !settings?.api_key ||
+    !settings?.account_id
+  ) {
+    return;
+  }
+
+  const schedule = getShippingSchedule(settings);
+  const now = new Date();
+  const today = getLocalDate(now, schedule.timeZone);
+  // After the cut-off time or on non-shipping days parcels ship on a later day
+  if (getShipmentDate(now, schedule) !== today) {
+    return;
+  }
+
+  const stockLocationService = container.resolve<IStockLocationService>(
+    Modules.STOCK_LOCATION
+  );
+  const locations = await stockLocationService.listStockLocations(
+    {},
+    { relations: ["address"] }
+  );
+
+  for (const location of locations) {
+    try {
+      const { result: parcels } = await getPickupParcelsWorkflow(container).run(
+        {
+          input: {
+            locationId: location.id,
+            pickupDate: today,
+            shippingSchedule: schedule,
+          },
+        }
+      );
+
+      if (parcels.count === 0) {
+        continue;
+      }
+
+      // Pickups are booked with the DHL account and settings of the stock location
+      const credentials =
+        (await dhlSettingService.getCredentials(location.id)) ?? settings;
+      const baseUrl = getDhlBaseUrl(credentials);
+      const debugLogger = credentials.enable_logs ? logger : undefined;
+      const token = await getAuthToken(
+        baseUrl,
+        credentials.user_id,
+        credentials.api_key,
+        credentials.account_id
+      );
+
+      const postalCode = normalizePostalCode(location.address?.postal_code);
+      const pickups = await getPickupRequests(
+        baseUrl,
+        token,
+        credentials.account_id,
+        debugLogger
+      );
+      const isBooked = pickups.some(
+        (pickup) =>
+          pickup.pickupDate === today &&
+          normalizePostalCode(pickup.shipper.address.postalCode) === postalCode
+      );
+      if (isBooked) {
+        continue;
+      }
+
+      const { errors } = await createPickupRequestWorkflow(container).run({
+        input: {
+          token,
+          baseUrl,
+          accountId: credentials.account_id,
+          locationId: location.id,
+          pickupDate: today,
+          timeSlot:
+            credentials.pickup_time_from && credentials.pickup_time_to
+              ? {
+                  from: credentials.pickup_time_from,
+                  to: credentials.pickup_time_to,
+                }
+              : null,
+          shippingSchedule: schedule,
+          debug: credentials.enable_logs,
+          _logger: debugLogger,
+        },
+        throwOnError: false,
+      });
+
+      if (errors && errors.length > 0) {
+        logger.error(
+          `Failed to book DHL pickup for stock location ${location.id}: ${JSON.stringify(errors)}`
+        );
+        continue;
+      }
+
+      logger.info(
+        `Booked DHL pickup for stock location ${location.id} on ${today} (${parcels.count} parcels)`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to book DHL pickup for stock location ${location.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { Logger, MedusaContainer } from "@medusajs/framework/types";
+import deleteExpiredLabelFilesWorkflow from "../workflows/delete-expired-label-files";
+import { DHL_SETTINGS_MODULE } from "../modules/setting";
+import DHLSettingsModuleService from "../modules/setting/service";
+
+/**
+ * Deletes the label files of DHL fulfillments that were delivered longer ago
+ * than the label retention period. Only runs when a retention period is set.
+ */
+export const config = {
+  name: "dhl-delete-label-files",
+  // every day at 03:00
+  schedule: "0 3 * * *",
+};
+
+export default async function handler(container: MedusaContainer) {
+  const logger = container.resolve<Logger>("logger");
+  const dhlSettingService = container.resolve(
+    DHL_SETTINGS_MODULE
+  ) as DHLSettingsModuleService;
+  const settings = await dhlSettingService.getCredentials();
+
+  if (!settings?.label_retention_days) {
+    return;
+  }
+
+  const { result, errors } = await deleteExpiredLabelFilesWorkflow(
+    container
+  ).run({
+    input: { retentionDays: settings.label_retention_days },
+    throwOnError: false,
+  });
+
+  if (errors && errors.length > 0) {
+    logger.error(
+      `Failed to delete expired DHL label files: ${JSON.stringify(errors)}`
+    );
+    return;
+  }
+
+  if (result.files > 0) {
+    logger.info(
+      `Deleted ${result.files} DHL label files of ${result.fulfillments} delivered fulfillments`
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  IFulfillmentModuleService,
+  Logger,
+  MedusaContainer,
+} from "@medusajs/framework/types";
+import { Modules } from "@medusajs/framework/utils";
+import promoteDraftShipmentWorkflow, {
+  hasPendingDraftLabels,
+} from "../workflows/promote-draft-shipment";
+import { DHL_SETTINGS_MODULE } from "../modules/setting";
+import DHLSettingsModuleService from "../modules/setting/service";
+import { getAuthToken } from "../dhl-api/token-manager";
+import { DHLDraftData } from "../dhl-api/types";
+import { getDhlBaseUrl } from "../dhl-api/environment";
+import { getDhlLabelFormat } from "../dhl-api/label-format";
+
+/**
+ * Promotes DHL drafts whose configured promotion delay has passed.
+ *
+ * Drafts are only created when "draft first" mode is enabled. Drafts without
+ * a promotion delay are left alone and have to be promoted from the admin.
+ * Promoted drafts whose labels couldn't be stored are retried on every run.
+ */
+export const config = {
+  name: "dhl-promote-drafts",
+  // every 5 minutes
+  schedule: "*/5 * * * *",
+};
+
+const PAGE_SIZE = 100;
+
+export default async function handler(container: MedusaContainer) {
+  const logger = container.resolve<Logger>("logger");
+  const dhlSettingService = container.resolve(
+    DHL_SETTINGS_MODULE
+  ) as DHLSettingsModuleService;
+  const credentials = await dhlSettingService.getCredentials();
+
+  if (
+    !credentials?.use_drafts ||
+    !credentials?.user_id ||
+    !credentials?.api_key ||
+    !credentials?.account_id
+  ) {
+    return;
+  }
+
+  const baseUrl = getDhlBaseUrl(credentials);
+  const fulfillmentService = container.resolve<IFulfillmentModuleService>(
+    Modules.FULFILLMENT
+  );
+
+  const now = Date.now();
+  const dueFulfillments: { id: string; locationId: string }[] = [];
+  for (let skip = 0; ; skip += PAGE_SIZE) {
+    const fulfillments = await fulfillmentService.listFulfillments(
+      {
+        provider_id: "dhl",
+        canceled_at: { $eq: null },
+        shipped_at: { $eq: null },
+      },
+      { select: ["id", "data", "location_id"], take: PAGE_SIZE, skip }
+    );
+
+    for (const fulfillment of fulfillments) {
+      const draft = fulfillment.data?.draft as DHLDraftData | undefined;
+      if (
+        (draft?.status === "draft" &&
+          draft.promote_after &&
+          new Date(draft.promote_after).getTime() <= now) ||
+        hasPendingDraftLabels(fulfillment.data)
+      ) {
+        dueFulfillments.push({
+          id: fulfillment.id,
+          locationId: fulfillment.location_id,
+        });
+      }
+    }
+
+    if (fulfillments.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  for (const { id: fulfillmentId, locationId } of dueFulfillments) {
+    // Drafts are promoted with the DHL account of the stock location they ship from
+    const locationCredentials =
+      (await dhlSettingService.getCredentials(locationId)) ?? credentials;
+
+    // A failing DHL login only postpones this draft to the next run
+    let token: string;
+    try {
+      token = await getAuthToken(
+        baseUrl,
+        locationCredentials.user_id,
+        locationCredentials.api_key,
+        locationCredentials.account_id
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to promote DHL draft for fulfillment ${fulfillmentId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      continue;
+    }
+
+    const { errors } = await promoteDraftShipmentWorkflow(container).run({
+      input: {
+        fulfillmentId,
+        token,
+        baseUrl,
+        labelFormat: getDhlLabelFormat(locationCredentials),
+        debug: credentials.enable_logs,
+        _logger: credentials.enable_logs ? logger : undefined,
+      },
+      throwOnError: false,
+    });
+
+    if (errors && errors.length > 0) {
+      logger.error(
+        `Failed to promote DHL draft for fulfillment ${fulfillmentId}: ${JSON.stringify(errors)}`
+      );
+    }
+  }
+}
@@ -2,7 +2,8 @@ import { MedusaContainer } from "@medusajs/framework/types";
 import cronSyncShipmentStatusWorkflow from "../workflows/cron-sync-shipment-status";
 import { DHL_SETTINGS_MODULE } from "../modules/setting";
 import DHLSettingsModuleService from "../modules/setting/service";
-import { getAuthToken } from "../dhl-api/auth";
+import { getAuthToken } from "../dhl-api/token-manager";
+import { getDhlBaseUrl } from "../dhl-api/environment";
 
 /**
  * Best-effort scheduled job.
@@ -16,8 +17,6 @@ export const config = {
   schedule: "*/15 * * * *",
 };
 
-const DHL_BASE_URL = "https://api-gw.dhlparcel.nl";
-
 // Medusa passes a context object containing `container` in most job runner setups.
 export default async function handler(container: MedusaContainer) {
   const dhlSettingService = container.resolve(
@@ -33,8 +32,9 @@ export default async function handler(container: MedusaContainer) {
     return;
   }
 
+  const baseUrl = getDhlBaseUrl(credentials);
   const token = await getAuthToken(
-    DHL_BASE_URL,
+    baseUrl,
     credentials.user_id,
     credentials.api_key,
     credentials.account_id
@@ -44,7 +44,7 @@ export default async function handler(container: MedusaContainer) {
     input: {
       limit: 50,
       token,
-      baseUrl: DHL_BASE_URL,
+      baseUrl,
       debug: credentials.enable_logs,
     },
   });
@@ -0,0 +1,12 @@
+import { defineLink } from '@medusajs/framework/utils'
+import FulfillmentModule from '@medusajs/medusa/fulfillment'
+import DHLTrackingModule from '../modules/tracking'
+
+/**
+ * Links the DHL tracking events of a parcel to its fulfillment, available as
+ * `fulfillment.dhl_tracking_events`.
+ */
+export default defineLink(FulfillmentModule.linkable.fulfillment, {
+  linkable: DHLTrackingModule.linkable.dhlTrackingEvent,
+  isList: true,
+})
@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019120000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      ADD COLUMN IF NOT EXISTS "use_drafts" boolean NOT NULL DEFAULT false,
+      ADD COLUMN IF NOT EXISTS "draft_promotion_delay_minutes" integer;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      DROP COLUMN IF EXISTS "use_drafts",
+      DROP COLUMN IF EXISTS "draft_promotion_delay_minutes";
+    `)
+  }
+}
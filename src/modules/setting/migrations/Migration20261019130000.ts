@@ -0,0 +1,21 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019130000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      ADD COLUMN IF NOT EXISTS "shipping_cutoff_time" text NOT NULL DEFAULT '16:00',
+      ADD COLUMN IF NOT EXISTS "non_shipping_days" text[] NOT NULL DEFAULT '{saturday,sunday}',
+      ADD COLUMN IF NOT EXISTS "shipping_timezone" text NOT NULL DEFAULT 'Europe/Amsterdam';
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      DROP COLUMN IF EXISTS "shipping_cutoff_time",
+      DROP COLUMN IF EXISTS "non_shipping_days",
+      DROP COLUMN IF EXISTS "shipping_timezone";
+    `)
+  }
+}
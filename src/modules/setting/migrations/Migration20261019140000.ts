@@ -0,0 +1,23 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019140000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      create table if not exists "dhl_account" (
+        "id" text not null primary key,
+        "name" text not null,
+        "user_id" text not null,
+        "api_key" text not null,
+        "account_id" text not null,
+        "stock_location_ids" text[] not null default '{}',
+        "created_at" timestamptz not null default now(),
+        "updated_at" timestamptz not null default now(),
+        "deleted_at" timestamptz
+      );
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql('drop table if exists "dhl_account" cascade;')
+  }
+}
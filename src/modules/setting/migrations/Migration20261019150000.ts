@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019150000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      ADD COLUMN IF NOT EXISTS "api_environment" text NOT NULL DEFAULT 'production',
+      ADD COLUMN IF NOT EXISTS "api_base_url" text NULL;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      DROP COLUMN IF EXISTS "api_environment",
+      DROP COLUMN IF EXISTS "api_base_url";
+    `)
+  }
+}
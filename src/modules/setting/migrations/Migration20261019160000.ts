@@ -0,0 +1,17 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019160000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      ADD COLUMN IF NOT EXISTS "capabilities_cache_ttl_seconds" integer NOT NULL DEFAULT 300;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      DROP COLUMN IF EXISTS "capabilities_cache_ttl_seconds";
+    `)
+  }
+}
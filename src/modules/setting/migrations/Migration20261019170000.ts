@@ -0,0 +1,30 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019170000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      create table if not exists "dhl_pricing_rule" (
+        "id" text not null primary key,
+        "name" text not null,
+        "is_enabled" boolean not null default true,
+        "priority" integer not null default 0,
+        "option_keys" text[] not null default '{}',
+        "country_codes" text[] not null default '{}',
+        "customer_group_ids" text[] not null default '{}',
+        "min_subtotal" real,
+        "max_subtotal" real,
+        "handling_fee" real not null default 0,
+        "markup_percentage" real not null default 0,
+        "round_ending" real,
+        "free_shipping" boolean not null default false,
+        "created_at" timestamptz not null default now(),
+        "updated_at" timestamptz not null default now(),
+        "deleted_at" timestamptz
+      );
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql('drop table if exists "dhl_pricing_rule" cascade;')
+  }
+}
@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019180000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      ADD COLUMN IF NOT EXISTS "price_tax_mode" text NOT NULL DEFAULT 'gross',
+      ADD COLUMN IF NOT EXISTS "business_price_tax_mode" text NULL;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      DROP COLUMN IF EXISTS "price_tax_mode",
+      DROP COLUMN IF EXISTS "business_price_tax_mode";
+    `)
+  }
+}
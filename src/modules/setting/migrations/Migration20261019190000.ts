@@ -0,0 +1,21 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019190000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      ADD COLUMN IF NOT EXISTS "auto_pickup_enabled" boolean NOT NULL DEFAULT false,
+      ADD COLUMN IF NOT EXISTS "pickup_time_from" text NULL,
+      ADD COLUMN IF NOT EXISTS "pickup_time_to" text NULL;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      DROP COLUMN IF EXISTS "auto_pickup_enabled",
+      DROP COLUMN IF EXISTS "pickup_time_from",
+      DROP COLUMN IF EXISTS "pickup_time_to";
+    `)
+  }
+}
@@ -0,0 +1,34 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019200000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      ADD COLUMN IF NOT EXISTS "label_format" text NOT NULL DEFAULT 'pdf',
+      ADD COLUMN IF NOT EXISTS "label_page_size" text NOT NULL DEFAULT 'a6';
+    `)
+    this.addSql(`
+      create table if not exists "dhl_location_label_format" (
+        "id" text not null primary key,
+        "stock_location_id" text not null,
+        "label_format" text not null default 'pdf',
+        "label_page_size" text not null default 'a6',
+        "created_at" timestamptz not null default now(),
+        "updated_at" timestamptz not null default now(),
+        "deleted_at" timestamptz
+      );
+    `)
+    this.addSql(
+      'CREATE UNIQUE INDEX IF NOT EXISTS "IDX_dhl_location_label_format_stock_location_id_unique" ON "dhl_location_label_format" (stock_location_id) WHERE deleted_at IS NULL;',
+    )
+  }
+
+  async down(): Promise<void> {
+    this.addSql('drop table if exists "dhl_location_label_format" cascade;')
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      DROP COLUMN IF EXISTS "label_format",
+      DROP COLUMN IF EXISTS "label_page_size";
+    `)
+  }
+}
@@ -0,0 +1,23 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019234000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      ADD COLUMN IF NOT EXISTS "webhook_secondary_api_key" text NULL,
+      ADD COLUMN IF NOT EXISTS "webhook_allowed_ips" text[] NOT NULL DEFAULT '{}',
+      ADD COLUMN IF NOT EXISTS "webhook_rate_limit_per_minute" integer NOT NULL DEFAULT 600,
+      ADD COLUMN IF NOT EXISTS "webhook_max_event_age_minutes" integer NULL;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      DROP COLUMN IF EXISTS "webhook_secondary_api_key",
+      DROP COLUMN IF EXISTS "webhook_allowed_ips",
+      DROP COLUMN IF EXISTS "webhook_rate_limit_per_minute",
+      DROP COLUMN IF EXISTS "webhook_max_event_age_minutes";
+    `)
+  }
+}
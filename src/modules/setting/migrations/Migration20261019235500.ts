@@ -0,0 +1,24 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019235500 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      ALTER COLUMN "insurance_threshold" TYPE numeric USING "insurance_threshold"::numeric,
+      ADD COLUMN IF NOT EXISTS "raw_insurance_threshold" jsonb NULL;
+    `)
+    this.addSql(`
+      UPDATE "dhl_setting"
+      SET "raw_insurance_threshold" = jsonb_build_object('value', "insurance_threshold"::text, 'precision', 20)
+      WHERE "insurance_threshold" IS NOT NULL AND "raw_insurance_threshold" IS NULL;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "dhl_setting"
+      DROP COLUMN IF EXISTS "raw_insurance_threshold",
+      ALTER COLUMN "insurance_threshold" TYPE integer USING ceil("insurance_threshold")::integer;
+    `)
+  }
+}
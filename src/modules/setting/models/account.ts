@@ -0,0 +1,10 @@
+import { model } from '@medusajs/framework/utils'
+
+export const DHLAccount = model.define('dhl_account', {
+  id: model.id().primaryKey(),
+  name: model.text(),
+  user_id: model.text(),
+  api_key: model.text(),
+  account_id: model.text(),
+  stock_location_ids: model.array().default([]),
+})
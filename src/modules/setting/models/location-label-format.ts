@@ -0,0 +1,8 @@
+import { model } from '@medusajs/framework/utils'
+
+export const DHLLocationLabelFormat = model.define('dhl_location_label_format', {
+  id: model.id().primaryKey(),
+  stock_location_id: model.text().unique(),
+  label_format: model.enum(['pdf', 'zpl']).default('pdf'),
+  label_page_size: model.enum(['a6', 'a4']).default('a6'),
+})
@@ -0,0 +1,17 @@
+import { model } from '@medusajs/framework/utils'
+
+export const DHLPricingRule = model.define('dhl_pricing_rule', {
+  id: model.id().primaryKey(),
+  name: model.text(),
+  is_enabled: model.boolean().default(true),
+  priority: model.number().default(0),
+  option_keys: model.array().default([]),
+  country_codes: model.array().default([]),
+  customer_group_ids: model.array().default([]),
+  min_subtotal: model.float().nullable(),
+  max_subtotal: model.float().nullable(),
+  handling_fee: model.float().default(0),
+  markup_percentage: model.float().default(0),
+  round_ending: model.float().nullable(),
+  free_shipping: model.boolean().default(false),
+})
@@ -11,4 +11,27 @@ export const DHLSetting = model.define('dhl_setting', {
   item_weight_unit: model.enum(['g', 'kg']).default('g'),
   webhook_api_key: model.text().nullable(),
   webhook_api_key_header: model.text().default('Authorization'),
+  webhook_last_received_at: model.dateTime().nullable(),
+  webhook_secondary_api_key: model.text().nullable(),
+  webhook_allowed_ips: model.array().default([]),
+  webhook_rate_limit_per_minute: model.number().default(600),
+  webhook_max_event_age_minutes: model.number().nullable(),
+  use_drafts: model.boolean().default(false),
+  draft_promotion_delay_minutes: model.number().nullable(),
+  shipping_cutoff_time: model.text().default('16:00'),
+  non_shipping_days: model.array().default(['saturday', 'sunday']),
+  shipping_timezone: model.text().default('Europe/Amsterdam'),
+  api_environment: model.enum(['production', 'acceptance', 'custom']).default('production'),
+  api_base_url: model.text().nullable(),
+  capabilities_cache_ttl_seconds: model.number().default(300),
+  price_tax_mode: model.enum(['gross', 'net']).default('gross'),
+  business_price_tax_mode: model.enum(['gross', 'net']).nullable(),
+  auto_pickup_enabled: model.boolean().default(false),
+  pickup_time_from: model.text().nullable(),
+  pickup_time_to: model.text().nullable(),
+  label_format: model.enum(['pdf', 'zpl']).default('pdf'),
+  label_page_size: model.enum(['a6', 'a4']).default('a6'),
+  label_retention_days: model.number().nullable(),
+  insurance_threshold: model.bigNumber().nullable(),
+  reference_template: model.text().default('{display_id}'),
 })
@@ -1,9 +1,24 @@
 import { DHLSetting } from './models/setting'
+import { DHLAccount } from './models/account'
+import { DHLPricingRule } from './models/pricing-rule'
+import { DHLLocationLabelFormat } from './models/location-label-format'
 import { MedusaService } from '@medusajs/framework/utils'
 import { SetupCredentialsInput } from '../../api/admin/dhl/route'
+import { DHLAccountInput } from '../../api/admin/dhl/accounts/route'
+import { DHLPricingRuleInput } from '../../api/admin/dhl/pricing-rules/route'
+import { DHLLocationLabelFormatInput } from '../../api/admin/dhl/label-formats/route'
+
+export type DHLWebhookApiKey = {
+  webhook_api_key: string | null
+  webhook_api_key_header: string
+  webhook_secondary_api_key: string | null
+}
 
 class DHLSettingsModuleService extends MedusaService({
   DHLSetting,
+  DHLAccount,
+  DHLPricingRule,
+  DHLLocationLabelFormat,
 }) {
   /**
    * Updates the DHL API credentials.
@@ -28,15 +43,284 @@ class DHLSettingsModuleService extends MedusaService({
 
   /**
    * Retrieves the DHL API credentials.
+   * When a stock location is given, its DHL account and label format are applied with
+   * `applyLocationCredentials`.
+   * @param locationId The stock location that ships, if known.
    * @returns The DHL API credentials or null if not found.
    */
-  async getCredentials(): Promise<SetupCredentialsInput | null> {
+  async getCredentials(locationId?: string | null): Promise<SetupCredentialsInput | null> {
     const dhlSettings = await this.listDHLSettings()
     if (dhlSettings.length) {
-      return dhlSettings[0]
+      // Array columns are typed as string[]; their values are checked when saved
+      return this.applyLocationCredentials(dhlSettings[0] as SetupCredentialsInput, locationId)
     }
     return null
   }
+
+  /**
+   * Applies the DHL account and label format of a stock location to the credentials.
+   * This is the one place location credentials are resolved; the provider, routes and jobs
+   * all go through it.
+   * @param credentials The default credentials.
+   * @param locationId The stock location that ships, if known.
+   * @returns The credentials of the stock location's DHL account and label format, or the
+   * given credentials when it uses the defaults.
+   */
+  async applyLocationCredentials(
+    credentials: SetupCredentialsInput,
+    locationId?: string | null,
+  ): Promise<SetupCredentialsInput> {
+    const labelFormat = await this.getLabelFormatForLocation(locationId)
+    const account = await this.getAccountForLocation(locationId)
+    return {
+      ...credentials,
+      ...(labelFormat
+        ? {
+            label_format: labelFormat.label_format,
+            label_page_size: labelFormat.label_page_size,
+          }
+        : {}),
+      ...(account
+        ? {
+            user_id: account.user_id,
+            api_key: account.api_key,
+            account_id: account.account_id,
+          }
+        : {}),
+    }
+  }
+
+  /**
+   * Replaces the API key that authenticates the DHL webhook.
+   * The previous key stays active as the secondary key when it's sent in the same header,
+   * so pushes with either key are accepted while DHL switches over.
+   * @param apiKey The new API key, or null to stop accepting webhook requests.
+   * @param header The header DHL sends the API key in.
+   * @param secondaryApiKey The secondary key to set instead of the previous key.
+   * @returns The previous API keys and header, or null when DHL isn't set up yet.
+   */
+  async updateWebhookApiKey(
+    apiKey: string | null,
+    header: string,
+    secondaryApiKey?: string | null,
+  ): Promise<DHLWebhookApiKey | null> {
+    const dhlSettings = await this.listDHLSettings()
+    if (!dhlSettings.length) {
+      return null
+    }
+    const { id, webhook_api_key, webhook_api_key_header, webhook_secondary_api_key } =
+      dhlSettings[0]
+    await this.updateDHLSettings({
+      id,
+      webhook_api_key: apiKey,
+      webhook_api_key_header: header,
+      webhook_secondary_api_key:
+        secondaryApiKey !== undefined
+          ? secondaryApiKey
+          : header === webhook_api_key_header
+            ? webhook_api_key
+            : null,
+    })
+    return { webhook_api_key, webhook_api_key_header, webhook_secondary_api_key }
+  }
+
+  /**
+   * Records when the DHL webhook last received an authenticated push.
+   * @param receivedAt The time of the push.
+   */
+  async markWebhookReceived(receivedAt: Date = new Date()): Promise<void> {
+    const dhlSettings = await this.listDHLSettings({}, { select: ['id'] })
+    if (dhlSettings.length) {
+      await this.updateDHLSettings({ id: dhlSettings[0].id, webhook_last_received_at: receivedAt })
+    }
+  }
+
+  /**
+   * Retrieves the DHL account assigned to a stock location.
+   * @param locationId The stock location that ships.
+   * @returns The assigned DHL account or null if the location uses the default account.
+   */
+  async getAccountForLocation(locationId?: string | null): Promise<DHLAccountInput | null> {
+    if (!locationId) {
+      return null
+    }
+    const accounts = await this.listAccounts()
+    return accounts.find((account) => account.stock_location_ids.includes(locationId)) ?? null
+  }
+
+  /**
+   * Retrieves all DHL accounts.
+   * @returns The DHL accounts ordered by name.
+   */
+  async listAccounts(): Promise<DHLAccountInput[]> {
+    const accounts = await this.listDHLAccounts({}, { order: { name: 'ASC' } })
+    return accounts.map((account) => ({
+      id: account.id,
+      name: account.name,
+      user_id: account.user_id,
+      api_key: account.api_key,
+      account_id: account.account_id,
+      stock_location_ids: account.stock_location_ids,
+    }))
+  }
+
+  /**
+   * Replaces the DHL accounts.
+   * Accounts with an id are updated, accounts without one are created and
+   * accounts that are no longer in the list are deleted.
+   * @param accounts The complete list of DHL accounts.
+   * @returns The saved DHL accounts.
+   */
+  async updateAccounts(accounts: DHLAccountInput[]): Promise<DHLAccountInput[]> {
+    const existing = await this.listDHLAccounts({}, { select: ['id'] })
+    const keepIds = new Set(accounts.map((account) => account.id).filter(Boolean))
+    const removedIds = existing.map((account) => account.id).filter((id) => !keepIds.has(id))
+
+    if (removedIds.length) {
+      await this.deleteDHLAccounts(removedIds)
+    }
+
+    const updates = accounts.filter(
+      (account): account is DHLAccountInput & { id: string } => !!account.id,
+    )
+    if (updates.length) {
+      await this.updateDHLAccounts(updates)
+    }
+
+    const creates = accounts.filter((account) => !account.id)
+    if (creates.length) {
+      await this.createDHLAccounts(creates)
+    }
+
+    return this.listAccounts()
+  }
+
+  /**
+   * Retrieves all DHL pricing rules.
+   * @returns The pricing rules ordered by priority.
+   */
+  async listPricingRules(): Promise<DHLPricingRuleInput[]> {
+    const rules = await this.listDHLPricingRules({}, { order: { priority: 'ASC', name: 'ASC' } })
+    return rules.map((rule) => ({
+      id: rule.id,
+      name: rule.name,
+      is_enabled: rule.is_enabled,
+      priority: rule.priority,
+      option_keys: rule.option_keys,
+      country_codes: rule.country_codes,
+      customer_group_ids: rule.customer_group_ids,
+      min_subtotal: rule.min_subtotal,
+      max_subtotal: rule.max_subtotal,
+      handling_fee: rule.handling_fee,
+      markup_percentage: rule.markup_percentage,
+      round_ending: rule.round_ending,
+      free_shipping: rule.free_shipping,
+    }))
+  }
+
+  /**
+   * Replaces the DHL pricing rules.
+   * Rules with an id are updated, rules without one are created and
+   * rules that are no longer in the list are deleted.
+   * @param rules The complete list of pricing rules.
+   * @returns The saved pricing rules.
+   */
+  async updatePricingRules(rules: DHLPricingRuleInput[]): Promise<DHLPricingRuleInput[]> {
+    const existing = await this.listDHLPricingRules({}, { select: ['id'] })
+    const keepIds = new Set(rules.map((rule) => rule.id).filter(Boolean))
+    const removedIds = existing.map((rule) => rule.id).filter((id) => !keepIds.has(id))
+
+    if (removedIds.length) {
+      await this.deleteDHLPricingRules(removedIds)
+    }
+
+    const updates = rules.filter((rule): rule is DHLPricingRuleInput & { id: string } => !!rule.id)
+    if (updates.length) {
+      await this.updateDHLPricingRules(updates)
+    }
+
+    const creates = rules.filter((rule) => !rule.id)
+    if (creates.length) {
+      await this.createDHLPricingRules(creates)
+    }
+
+    return this.listPricingRules()
+  }
+
+  /**
+   * Retrieves the label format of a stock location.
+   * @param locationId The stock location that ships.
+   * @returns The label format or null if the location uses the default one.
+   */
+  async getLabelFormatForLocation(
+    locationId?: string | null,
+  ): Promise<DHLLocationLabelFormatInput | null> {
+    if (!locationId) {
+      return null
+    }
+    const [labelFormat] = await this.listDHLLocationLabelFormats({ stock_location_id: locationId })
+    return labelFormat
+      ? {
+          id: labelFormat.id,
+          stock_location_id: labelFormat.stock_location_id,
+          label_format: labelFormat.label_format,
+          label_page_size: labelFormat.label_page_size,
+        }
+      : null
+  }
+
+  /**
+   * Retrieves the label formats of all stock locations that don't use the default one.
+   * @returns The label formats of the stock locations.
+   */
+  async listLocationLabelFormats(): Promise<DHLLocationLabelFormatInput[]> {
+    const labelFormats = await this.listDHLLocationLabelFormats(
+      {},
+      { order: { stock_location_id: 'ASC' } },
+    )
+    return labelFormats.map((labelFormat) => ({
+      id: labelFormat.id,
+      stock_location_id: labelFormat.stock_location_id,
+      label_format: labelFormat.label_format,
+      label_page_size: labelFormat.label_page_size,
+    }))
+  }
+
+  /**
+   * Replaces the label formats of the stock locations.
+   * Label formats with an id are updated, label formats without one are created and
+   * label formats that are no longer in the list are deleted.
+   * @param labelFormats The complete list of label formats.
+   * @returns The saved label formats.
+   */
+  async updateLocationLabelFormats(
+    labelFormats: DHLLocationLabelFormatInput[],
+  ): Promise<DHLLocationLabelFormatInput[]> {
+    const existing = await this.listDHLLocationLabelFormats({}, { select: ['id'] })
+    const keepIds = new Set(labelFormats.map((labelFormat) => labelFormat.id).filter(Boolean))
+    const removedIds = existing
+      .map((labelFormat) => labelFormat.id)
+      .filter((id) => !keepIds.has(id))
+
+    if (removedIds.length) {
+      await this.deleteDHLLocationLabelFormats(removedIds)
+    }
+
+    const updates = labelFormats.filter(
+      (labelFormat): labelFormat is DHLLocationLabelFormatInput & { id: string } =>
+        !!labelFormat.id,
+    )
+    if (updates.length) {
+      await this.updateDHLLocationLabelFormats(updates)
+    }
+
+    const creates = labelFormats.filter((labelFormat) => !labelFormat.id)
+    if (creates.length) {
+      await this.createDHLLocationLabelFormats(creates)
+    }
+
+    return this.listLocationLabelFormats()
+  }
 }
 
 export default DHLSettingsModuleService
@@ -0,0 +1,8 @@
+import { Module } from '@medusajs/framework/utils'
+import DHLTrackingModuleService from './service'
+
+export const DHL_TRACKING_MODULE = 'dhl_tracking'
+
+export default Module(DHL_TRACKING_MODULE, {
+  service: DHLTrackingModuleService,
+})
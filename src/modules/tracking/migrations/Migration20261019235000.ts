@@ -0,0 +1,33 @@
+import { Migration } from '@mikro-orm/migrations'
+
+export class Migration20261019235000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      create table if not exists "dhl_tracking_event" (
+        "id" text not null primary key,
+        "event_key" text not null,
+        "tracker_code" text not null,
+        "status" text not null,
+        "category" text,
+        "type" text,
+        "timestamp" timestamptz not null,
+        "raw" jsonb not null,
+        "created_at" timestamptz not null default now(),
+        "updated_at" timestamptz not null default now(),
+        "deleted_at" timestamptz
+      );
+    `)
+    this.addSql(`
+      create unique index if not exists "IDX_dhl_tracking_event_event_key_unique"
+      on "dhl_tracking_event" ("event_key") where "deleted_at" is null;
+    `)
+    this.addSql(`
+      create index if not exists "IDX_dhl_tracking_event_tracker_code"
+      on "dhl_tracking_event" ("tracker_code") where "deleted_at" is null;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql('drop table if exists "dhl_tracking_event" cascade;')
+  }
+}
@@ -0,0 +1,13 @@
+import { model } from '@medusajs/framework/utils'
+
+export const DHLTrackingEvent = model.define('dhl_tracking_event', {
+  id: model.id().primaryKey(),
+  // Identifies the event, so events pushed by the webhook and fetched by the sync are stored once
+  event_key: model.text().unique(),
+  tracker_code: model.text().index(),
+  status: model.text(),
+  category: model.text().nullable(),
+  type: model.text().nullable(),
+  timestamp: model.dateTime(),
+  raw: model.json(),
+})
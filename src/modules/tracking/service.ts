@@ -0,0 +1,95 @@
+import { createHash } from 'crypto'
+import { InferTypeOf } from '@medusajs/framework/types'
+import { MedusaService } from '@medusajs/framework/utils'
+import { DHLTrackingEvent } from './models/tracking-event'
+
+export type DHLTrackingEventDTO = InferTypeOf<typeof DHLTrackingEvent>
+
+export type DHLTrackingEventInput = {
+  tracker_code: string
+  status: string
+  category?: string | null
+  type?: string | null
+  timestamp: Date
+  /**
+   * The event as DHL sent it.
+   */
+  raw: Record<string, unknown>
+}
+
+/**
+ * Gets the key that identifies a tracking event of a parcel.
+ */
+const getEventKey = (event: DHLTrackingEventInput): string =>
+  createHash('sha256')
+    .update(
+      [
+        event.tracker_code,
+        event.status,
+        event.category ?? '',
+        event.type ?? '',
+        event.timestamp.toISOString(),
+      ].join('|'),
+    )
+    .digest('hex')
+
+class DHLTrackingModuleService extends MedusaService({
+  DHLTrackingEvent,
+}) {
+  /**
+   * Stores DHL tracking events. Events that were stored before are skipped.
+   * @param events The events to store.
+   * @returns The events that were stored.
+   */
+  async recordTrackingEvents(events: DHLTrackingEventInput[]): Promise<DHLTrackingEventDTO[]> {
+    const eventsByKey = new Map(events.map((event) => [getEventKey(event), event]))
+    if (!eventsByKey.size) {
+      return []
+    }
+
+    const existing = await this.listDHLTrackingEvents(
+      { event_key: [...eventsByKey.keys()] },
+      { select: ['event_key'] },
+    )
+    for (const event of existing) {
+      eventsByKey.delete(event.event_key)
+    }
+
+    const creates = [...eventsByKey].map(([event_key, event]) => ({ ...event, event_key }))
+    if (!creates.length) {
+      return []
+    }
+
+    try {
+      return await this.createDHLTrackingEvents(creates)
+    } catch {
+      // The webhook and the sync can store the same event at the same time, which fails the
+      // batch on the unique key; the events are then stored one by one
+      const created: DHLTrackingEventDTO[] = []
+      for (const create of creates) {
+        const event = await this.createDHLTrackingEvents(create).catch(() => null)
+        if (event) {
+          created.push(event)
+        }
+      }
+      return created
+    }
+  }
+
+  /**
+   * Retrieves the tracking events of parcels, oldest first.
+   * @param trackerCodes The tracker codes of the parcels.
+   * @returns The tracking events.
+   */
+  async listTrackingEvents(trackerCodes: string[]): Promise<DHLTrackingEventDTO[]> {
+    if (!trackerCodes.length) {
+      return []
+    }
+    return this.listDHLTrackingEvents(
+      { tracker_code: trackerCodes },
+      { order: { timestamp: 'ASC' } },
+    )
+  }
+}
+
+export default DHLTrackingModuleService
@@ -1,24 +1,64 @@
-import { AbstractFulfillmentProviderService } from "@medusajs/framework/utils";
+import {
+  AbstractFulfillmentProviderService,
+  MathBN,
+} from "@medusajs/framework/utils";
 import {
   CalculatedShippingOptionPrice,
   CalculateShippingOptionPriceDTO,
   CartLineItemDTO,
   CreateFulfillmentResult,
+  CreateShippingOptionDTO,
   FulfillmentDTO,
   FulfillmentItemDTO,
   FulfillmentOption,
   FulfillmentOrderDTO,
   Logger,
   ProductVariantDTO,
+  ValidateFulfillmentDataContext,
 } from "@medusajs/framework/types";
-import { getAuthToken } from "../../dhl-api/auth";
+import { getAuthToken } from "../../dhl-api/token-manager";
 import { calculateBestFulfillment } from "../../dhl-api/calculate-best-fulfillment";
-import { getFulfillmentOptions } from "../../dhl-api/get-fulfillment-options";
 import { getShipmentOptions } from "../../dhl-api/get-shipment-options";
+import {
+  getExtraOptions,
+  validateExtraOptions,
+} from "../../dhl-api/extra-options";
+import { addInsurance } from "../../dhl-api/insurance";
+import { deleteDraft } from "../../dhl-api/delete-draft";
+import {
+  DHL_SERVICE_POINT_OPTION,
+  getServicePoint,
+} from "../../dhl-api/get-service-points";
+import { findTimeWindow, getTimeWindows } from "../../dhl-api/get-time-windows";
+import { isDestinationSupported } from "../../dhl-api/get-destination-countries";
+import { Weekday } from "../../utils/shipment-date";
+import { DEFAULT_REFERENCE_TEMPLATE } from "../../utils/order-reference";
+import { DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE } from "../../utils/webhook-security";
+import {
+  isPriceTaxMode,
+  PriceTaxMode,
+  resolvePriceTaxMode,
+} from "../../utils/price-tax-mode";
+import { DHLApiEnvironment, getDhlBaseUrl } from "../../dhl-api/environment";
+import {
+  DHLLabelFileFormat,
+  DHLLabelPageSize,
+  getDhlLabelFormat,
+} from "../../dhl-api/label-format";
+import { DEFAULT_CAPABILITIES_CACHE_TTL_SECONDS } from "../../dhl-api/capabilities-cache";
 import createDHLShipmentWorkflow from "../../workflows/create-shipment";
 import getDhlCredentials from "../../workflows/get-credentials";
+import getDhlLocationCredentials from "../../workflows/get-location-credentials";
+import getDhlCapabilities from "../../workflows/get-capabilities";
+import getDhlShipmentOptions from "../../workflows/get-shipment-options";
+import applyDhlPricingRules from "../../workflows/apply-pricing-rules";
 import { SetupCredentialsInput } from "../../api/admin/dhl/route";
-import { DHLFulfillmentOptionAddress } from "../../dhl-api/types";
+import {
+  DHLDraftData,
+  DHLFulfillmentOptionAddress,
+  DHLServicePointData,
+  DHLTimeWindowData,
+} from "../../dhl-api/types";
 
 type InjectedDependencies = {
   logger: Logger;
@@ -34,6 +74,28 @@ type Options = {
   itemWeightUnit?: "g" | "kg";
   webhookApiKey?: string;
   webhookApiKeyHeader?: string;
+  webhookSecondaryApiKey?: string;
+  webhookAllowedIps?: string[];
+  webhookRateLimitPerMinute?: number;
+  webhookMaxEventAgeMinutes?: number;
+  useDrafts?: boolean;
+  draftPromotionDelayMinutes?: number;
+  shippingCutoffTime?: string;
+  nonShippingDays?: Weekday[];
+  shippingTimezone?: string;
+  apiEnvironment?: DHLApiEnvironment;
+  apiBaseUrl?: string;
+  capabilitiesCacheTtlSeconds?: number;
+  priceTaxMode?: PriceTaxMode;
+  businessPriceTaxMode?: PriceTaxMode;
+  autoPickupEnabled?: boolean;
+  pickupTimeFrom?: string;
+  pickupTimeTo?: string;
+  labelFormat?: DHLLabelFileFormat;
+  labelPageSize?: DHLLabelPageSize;
+  labelRetentionDays?: number;
+  insuranceThreshold?: number;
+  referenceTemplate?: string;
 };
 
 class DHLProviderService extends AbstractFulfillmentProviderService {
@@ -69,9 +131,40 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
 
   /**
    * Get DHL credentials.
+   *
+   * When a stock location is given, the DHL account and label format it's assigned to in
+   * the admin are applied, the same way the settings module does for routes and jobs.
+   *
+   * @param locationId - The stock location that ships, if known.
    * @returns {Promise<SetupCredentialsInput>}
    */
-  async getCredentials(): Promise<SetupCredentialsInput> {
+  async getCredentials(
+    locationId?: string | null
+  ): Promise<SetupCredentialsInput> {
+    const credentials = await this.getDefaultCredentials();
+    if (!locationId) {
+      return credentials;
+    }
+
+    const { result, errors } = await getDhlLocationCredentials().run({
+      input: { credentials, location_id: locationId },
+    });
+
+    if (errors && errors.length > 0) {
+      this.logger_.error(
+        "Error getting DHL credentials for stock location:" +
+          JSON.stringify(errors, null, 2)
+      );
+    }
+
+    return result ?? credentials;
+  }
+
+  /**
+   * Get the default DHL credentials from the admin settings or the provider options.
+   * @returns {Promise<SetupCredentialsInput>}
+   */
+  private async getDefaultCredentials(): Promise<SetupCredentialsInput> {
     const { result, errors } = await getDhlCredentials().run({
       input: {},
     });
@@ -95,6 +188,38 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
         webhook_api_key: this.options_.webhookApiKey,
         webhook_api_key_header:
           this.options_.webhookApiKeyHeader ?? "Authorization",
+        webhook_secondary_api_key: this.options_.webhookSecondaryApiKey,
+        webhook_allowed_ips: this.options_.webhookAllowedIps ?? [],
+        webhook_rate_limit_per_minute:
+          this.options_.webhookRateLimitPerMinute ??
+          DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE,
+        webhook_max_event_age_minutes:
+          this.options_.webhookMaxEventAgeMinutes ?? null,
+        use_drafts: this.options_.useDrafts ?? false,
+        draft_promotion_delay_minutes:
+          this.options_.draftPromotionDelayMinutes ?? null,
+        shipping_cutoff_time: this.options_.shippingCutoffTime ?? "16:00",
+        non_shipping_days: this.options_.nonShippingDays ?? [
+          "saturday",
+          "sunday",
+        ],
+        shipping_timezone: this.options_.shippingTimezone ?? "Europe/Amsterdam",
+        api_environment: this.options_.apiEnvironment ?? "production",
+        api_base_url: this.options_.apiBaseUrl ?? null,
+        capabilities_cache_ttl_seconds:
+          this.options_.capabilitiesCacheTtlSeconds ??
+          DEFAULT_CAPABILITIES_CACHE_TTL_SECONDS,
+        price_tax_mode: this.options_.priceTaxMode ?? "gross",
+        business_price_tax_mode: this.options_.businessPriceTaxMode ?? null,
+        auto_pickup_enabled: this.options_.autoPickupEnabled ?? false,
+        pickup_time_from: this.options_.pickupTimeFrom ?? null,
+        pickup_time_to: this.options_.pickupTimeTo ?? null,
+        label_format: this.options_.labelFormat ?? "pdf",
+        label_page_size: this.options_.labelPageSize ?? "a6",
+        label_retention_days: this.options_.labelRetentionDays ?? null,
+        insurance_threshold: this.options_.insuranceThreshold ?? null,
+        reference_template:
+          this.options_.referenceTemplate ?? DEFAULT_REFERENCE_TEMPLATE,
       };
     }
 
@@ -102,23 +227,110 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
   }
 
   /**
-   * Get the base URL for the DHL API.
+   * Get the base URL for the DHL API of the configured environment.
+   * @param credentials - The DHL credentials and settings.
    * @returns The base URL for the DHL API.
    */
-  getBaseUrl(): string {
-    return "https://api-gw.dhlparcel.nl";
+  getBaseUrl(credentials: SetupCredentialsInput): string {
+    return getDhlBaseUrl(credentials);
   }
 
   /**
-   * Check if the DHL provider can calculate shipping rates.
+   * Check if the DHL provider can calculate shipping rates for a shipping option.
+   *
+   * The provider has to be configured and the option's DHL option key has to be
+   * offered for the account. Optional `extra_options` are checked against the DHL
+   * exclusions; invalid ones are logged with the reasons. The shipment options of the
+   * account are cached like the capabilities. Failures return false instead of throwing.
+   *
+   * @param data - The shipping option that is being created.
    * @returns {Promise<boolean>}
    */
-  async canCalculate(): Promise<boolean> {
-    const credentials = await this.getCredentials();
-    return (
-      credentials.is_enabled &&
-      !!(credentials.user_id && credentials.api_key && credentials.account_id)
-    );
+  async canCalculate(data: CreateShippingOptionDTO): Promise<boolean> {
+    const optionData = (data.data ?? {}) as Record<string, unknown>;
+    if (!(await this.validateOption(optionData))) {
+      return false;
+    }
+
+    try {
+      const credentials = await this.getCredentials();
+      if (
+        !credentials.is_enabled ||
+        !(credentials.user_id && credentials.api_key && credentials.account_id)
+      ) {
+        return false;
+      }
+
+      const baseUrl = this.getBaseUrl(credentials);
+      const token = await getAuthToken(
+        baseUrl,
+        credentials.user_id,
+        credentials.api_key,
+        credentials.account_id
+      );
+
+      const { result: shipmentOptions } = await getDhlShipmentOptions().run({
+        input: {
+          token,
+          baseUrl,
+          accountNumber: credentials.account_id,
+          ttlSeconds: credentials.capabilities_cache_ttl_seconds,
+          debug: credentials.enable_logs,
+          _logger: credentials.enable_logs ? this.logger_ : undefined,
+        },
+      });
+
+      if (
+        !shipmentOptions.some((option) => option.key === optionData.carrier_key)
+      ) {
+        return false;
+      }
+
+      const problems = validateExtraOptions(
+        optionData.carrier_key as string,
+        optionData.extra_options,
+        shipmentOptions
+      );
+      if (problems.length > 0) {
+        this.logger_.warn(`Invalid DHL extra options: ${problems.join("; ")}`);
+        return false;
+      }
+
+      return true;
+    } catch (error: unknown) {
+      this.logger_.error(
+        `Error checking DHL shipping option: ${this.formatUnknownErrorMessage(
+          error
+        )}`
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Validate the data of a shipping option when it's created.
+   *
+   * The option needs a `carrier_key`, and an optional `price_tax_mode` has to be `gross`
+   * or `net`. These checks don't call DHL, as flat rate options never need it; calculated
+   * options are checked against DHL in `canCalculate`.
+   *
+   * @param data - The shipping option data (contains the selected DHL option key).
+   * @returns {Promise<boolean>}
+   */
+  async validateOption(data: Record<string, unknown>): Promise<boolean> {
+    if (typeof data?.carrier_key !== "string") {
+      return false;
+    }
+
+    if (
+      data.price_tax_mode !== undefined &&
+      data.price_tax_mode !== null &&
+      !isPriceTaxMode(data.price_tax_mode)
+    ) {
+      return false;
+    }
+
+    return true;
   }
 
   /**
@@ -150,7 +362,7 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
         return [];
       }
 
-      const baseUrl = this.getBaseUrl();
+      const baseUrl = this.getBaseUrl(credentials);
       const token = await getAuthToken(
         baseUrl,
         credentials.user_id,
@@ -185,6 +397,13 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
 
   /**
    * Calculate shipping price using DHL API.
+   *
+   * DHL's gross (VAT included) or net rate is used depending on the price tax mode of
+   * the shipping option, the cart (business or consumer) and the settings. Net prices
+   * are returned as tax exclusive, so Medusa's tax module adds the regional VAT.
+   * Surcharges of extra options, including insurance for carts above the insurance
+   * threshold, are added to the rate.
+   *
    * @param optionData - The shipping option data (contains the selected DHL option key).
    * @param data - The shipping data.
    * @param context - The context for the shipping request.
@@ -195,8 +414,8 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
     data: CalculateShippingOptionPriceDTO["data"],
     context: CalculateShippingOptionPriceDTO["context"]
   ): Promise<CalculatedShippingOptionPrice> {
-    const credentials = await this.getCredentials();
-    const baseUrl = this.getBaseUrl();
+    const credentials = await this.getCredentials(context.from_location?.id);
+    const baseUrl = this.getBaseUrl(credentials);
     const token = await getAuthToken(
       baseUrl,
       credentials.user_id,
@@ -243,6 +462,13 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
       throw new Error("Missing store address country in context");
     }
 
+    await this.assertDestinationSupported(
+      baseUrl,
+      context.from_location.address.country_code,
+      context.shipping_address.country_code,
+      credentials.enable_logs ? this.logger_ : undefined
+    );
+
     const originAddress: DHLFulfillmentOptionAddress = {
       postalCode: context.from_location.address.postal_code,
       countryCode: context.from_location.address.country_code,
@@ -253,19 +479,56 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
       countryCode: context.shipping_address.country_code,
     };
 
-    const shippingOptions = await getFulfillmentOptions(
-      token,
-      baseUrl,
-      credentials.account_id,
-      originAddress,
-      destinationAddress,
+    const toBusiness =
       context.shipping_address.company !== undefined &&
-        context.shipping_address.company !== ""
-        ? true
-        : false,
-      [option],
-      credentials.enable_logs ? this.logger_ : undefined
+      context.shipping_address.company !== null &&
+      context.shipping_address.company !== "";
+
+    const priceTaxMode = resolvePriceTaxMode({
+      optionMode: optionData?.price_tax_mode,
+      defaultMode: credentials.price_tax_mode,
+      businessMode: credentials.business_price_tax_mode,
+      toBusiness,
+    });
+
+    // The cart value decides the insurance and the pricing rules that apply
+    const subtotal = context.items.reduce(
+      (sum, item) =>
+        sum +
+        MathBN.convert(
+          item.subtotal ?? MathBN.mult(item.unit_price, item.quantity)
+        ).toNumber(),
+      0
+    );
+
+    // The capabilities of all options are requested at once, so the DHL shipping options
+    // of a cart share a single cached capabilities call. Options with extras ask for the
+    // parcel types that support all of them. Carts above the insurance threshold are
+    // quoted with the insurance surcharge.
+    const { options: extraOptions } = addInsurance(
+      getExtraOptions(optionData),
+      subtotal,
+      credentials.insurance_threshold,
+      typeof context.currency_code === "string"
+        ? context.currency_code
+        : undefined
     );
+    const { result: shippingOptions } = await getDhlCapabilities().run({
+      input: {
+        token,
+        baseUrl,
+        accountNumber: credentials.account_id,
+        sender: originAddress,
+        receiver: destinationAddress,
+        toBusiness,
+        options: extraOptions.length
+          ? [option, ...extraOptions.map((extraOption) => extraOption.key)]
+          : [],
+        ttlSeconds: credentials.capabilities_cache_ttl_seconds,
+        debug: credentials.enable_logs,
+        _logger: credentials.enable_logs ? this.logger_ : undefined,
+      },
+    });
 
     const fulfillmentOptionsDimensions = shippingOptions
       .map((fulfillment) => {
@@ -273,7 +536,25 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
           (fulfillmentOption) => fulfillmentOption.key == option
         );
 
-        if (fulfillmentOption) {
+        // Extra options are surcharges on top of the price of the carrier option
+        const extraCapabilityOptions = extraOptions.map((extraOption) =>
+          fulfillment.options.find(
+            (capabilityOption) => capabilityOption.key === extraOption.key
+          )
+        );
+
+        if (
+          fulfillmentOption &&
+          extraCapabilityOptions.every((extraOption) => !!extraOption)
+        ) {
+          const price = [fulfillmentOption, ...extraCapabilityOptions].reduce(
+            (sum, capabilityOption) =>
+              sum +
+              ((priceTaxMode === "net"
+                ? capabilityOption?.price?.withoutTax
+                : capabilityOption?.price?.withTax) ?? 0),
+            0
+          );
           return {
             key: fulfillment.parcelType.key,
             maxWeight: fulfillment.parcelType.maxWeightGrams,
@@ -282,7 +563,7 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
             width: fulfillment.parcelType.dimensions.maxWidthCm,
             length: fulfillment.parcelType.dimensions.maxLengthCm,
             sum: fulfillment.parcelType.dimensions.maxSumCm ?? 0,
-            price: fulfillmentOption.price?.withTax ?? 0,
+            price,
           };
         }
         return undefined;
@@ -327,28 +608,278 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
       0
     );
 
+    // Adjust the DHL rate with the configured markups, fees, rounding and free shipping
+    const customerId =
+      (context as { customer_id?: string | null }).customer_id ??
+      (context as { customer?: { id?: string } | null }).customer?.id;
+
+    const { result: pricing } = await applyDhlPricingRules().run({
+      input: {
+        amount: totalPrice,
+        optionKey: option,
+        countryCode: context.shipping_address.country_code,
+        subtotal,
+        customerId,
+      },
+    });
+
+    if (credentials.enable_logs && pricing.appliedRules.length) {
+      this.logger_.debug(
+        `DHL rate ${totalPrice} adjusted to ${pricing.amount} by pricing rules: ${pricing.appliedRules
+          .map((rule) => rule.name)
+          .join(", ")}`
+      );
+    }
+
     return {
-      calculated_amount: totalPrice,
-      is_calculated_price_tax_inclusive: true,
+      calculated_amount: pricing.amount,
+      is_calculated_price_tax_inclusive: priceTaxMode === "gross",
     };
   }
 
   /**
    * Validate the fulfillment data for a given shipping option.
-   * @returns A promise that resolves to a boolean indicating whether the fulfillment data is valid.
+   *
+   * DHL has to deliver from the stock location's country to the shipping address'
+   * country. Service point (PS) options require a `service_point_id` that DHL knows
+   * for the shipping address' country. An optional `time_window` must be one of the delivery
+   * time windows DHL currently offers for the shipping address. Verified values are
+   * stored on the data.
+   *
+   * @param optionData - The shipping option data (contains the selected DHL option key).
+   * @param data - The shipping method data provided by the storefront.
+   * @param context - The cart context.
+   * @returns A promise that resolves to the validated shipping method data.
+   */
+  async validateFulfillmentData(
+    optionData: Record<string, unknown>,
+    data: Record<string, unknown>,
+    context: ValidateFulfillmentDataContext
+  ): Promise<Record<string, unknown>> {
+    const validatedData: Record<string, unknown> = { ...data };
+    const isServicePointOption =
+      optionData?.carrier_key === DHL_SERVICE_POINT_OPTION;
+
+    // The stock location that ships decides the DHL account, as for prices and shipments
+    const credentials = await this.getCredentials(context.from_location?.id);
+    const baseUrl = this.getBaseUrl(credentials);
+    const logger = credentials.enable_logs ? this.logger_ : undefined;
+
+    const countryCode = context.shipping_address?.country_code;
+    const originCountryCode = context.from_location?.address?.country_code;
+    if (countryCode && originCountryCode) {
+      await this.assertDestinationSupported(
+        baseUrl,
+        originCountryCode,
+        countryCode,
+        logger
+      );
+    }
+
+    if (!isServicePointOption && data?.time_window === undefined) {
+      return validatedData;
+    }
+
+    if (!countryCode) {
+      throw new Error("Missing shipping address country code in context");
+    }
+
+    if (isServicePointOption) {
+      const servicePoint = await this.validateServicePoint(
+        baseUrl,
+        data?.service_point_id,
+        countryCode,
+        logger
+      );
+      validatedData.service_point_id = servicePoint.id;
+      validatedData.service_point = servicePoint;
+    }
+
+    if (data?.time_window !== undefined) {
+      if (isServicePointOption) {
+        throw new Error(
+          "DHL delivery time windows can't be combined with service point delivery"
+        );
+      }
+
+      const postalCode = context.shipping_address?.postal_code;
+      if (!postalCode) {
+        throw new Error("Missing shipping address postal code in context");
+      }
+
+      validatedData.time_window = await this.validateTimeWindow(
+        baseUrl,
+        data.time_window,
+        countryCode,
+        postalCode,
+        logger
+      );
+    }
+
+    return validatedData;
+  }
+
+  /**
+   * Check that DHL delivers from the origin country to the destination country.
+   * @param baseUrl - The base URL for the DHL API.
+   * @param fromCountry - The stock location country code.
+   * @param toCountry - The shipping address country code.
+   * @param logger - Optional logger instance.
+   */
+  private async assertDestinationSupported(
+    baseUrl: string,
+    fromCountry: string,
+    toCountry: string,
+    logger?: Logger
+  ): Promise<void> {
+    const supported = await isDestinationSupported(
+      baseUrl,
+      fromCountry,
+      toCountry,
+      logger
+    );
+
+    if (!supported) {
+      throw new Error(
+        `DHL doesn't deliver from ${fromCountry.toUpperCase()} to ${toCountry.toUpperCase()}`
+      );
+    }
+  }
+
+  /**
+   * Check that a service point exists at DHL for the given country.
+   * @param baseUrl - The base URL for the DHL API.
+   * @param servicePointId - The service point ID selected by the customer.
+   * @param countryCode - The shipping address country code.
+   * @param logger - Optional logger instance.
+   * @returns The verified service point.
+   */
+  private async validateServicePoint(
+    baseUrl: string,
+    servicePointId: unknown,
+    countryCode: string,
+    logger?: Logger
+  ): Promise<DHLServicePointData> {
+    if (typeof servicePointId !== "string" || !servicePointId.trim()) {
+      throw new Error(
+        "A DHL service point must be selected for this shipping option"
+      );
+    }
+
+    const servicePoint = await getServicePoint(
+      baseUrl,
+      countryCode,
+      servicePointId.trim(),
+      logger
+    );
+
+    if (!servicePoint) {
+      throw new Error(
+        `DHL service point ${servicePointId} is not valid for country ${countryCode.toUpperCase()}`
+      );
+    }
+
+    return {
+      id: servicePoint.id,
+      name: servicePoint.name,
+      address: servicePoint.address,
+    };
+  }
+
+  /**
+   * Check that a delivery time window is currently offered by DHL for the given address.
+   * @param baseUrl - The base URL for the DHL API.
+   * @param timeWindow - The time window selected by the customer.
+   * @param countryCode - The shipping address country code.
+   * @param postalCode - The shipping address postal code.
+   * @param logger - Optional logger instance.
+   * @returns The verified time window.
    */
-  async validateFulfillmentData(): Promise<boolean> {
-    // Nothing to review and approve for now
-    return Promise.resolve(true);
+  private async validateTimeWindow(
+    baseUrl: string,
+    timeWindow: unknown,
+    countryCode: string,
+    postalCode: string,
+    logger?: Logger
+  ): Promise<DHLTimeWindowData> {
+    const selected = (timeWindow ?? {}) as Partial<DHLTimeWindowData>;
+    if (
+      typeof selected.delivery_date !== "string" ||
+      typeof selected.start_time !== "string" ||
+      typeof selected.end_time !== "string"
+    ) {
+      throw new Error(
+        "A DHL delivery time window needs a delivery_date, start_time and end_time"
+      );
+    }
+
+    const timeWindows = await getTimeWindows(
+      baseUrl,
+      countryCode,
+      postalCode,
+      logger
+    );
+
+    const match = findTimeWindow(timeWindows, {
+      delivery_date: selected.delivery_date,
+      start_time: selected.start_time,
+      end_time: selected.end_time,
+    });
+
+    if (!match) {
+      throw new Error(
+        `DHL delivery time window ${selected.delivery_date} ${selected.start_time}-${selected.end_time} is not available`
+      );
+    }
+
+    return {
+      delivery_date: selected.delivery_date,
+      start_time: selected.start_time,
+      end_time: selected.end_time,
+      type: match.type,
+      option: match.option,
+    };
   }
 
   /**
    * Cancel a fulfillment.
-   * @param fulfillment - The fulfillment to cancel.
+   *
+   * Fulfillments that are still a DHL draft are cancelled by deleting the draft.
+   * Drafts that have been promoted already have live labels and can't be cancelled.
+   *
+   * @param fulfillment - The data of the fulfillment to cancel.
    * @returns A promise that resolves when the fulfillment is cancelled.
    */
   async cancelFulfillment(fulfillment: Record<string, unknown>): Promise<void> {
-    // DHL doesn't have a cancellation API, so we just acknowledge the cancellation
+    const draft = fulfillment.draft as DHLDraftData | undefined;
+
+    if (draft?.status === "promoted") {
+      throw new Error(
+        `DHL shipment ${draft.id} has already been promoted and its labels are live at DHL. ` +
+          "It can't be cancelled anymore; remove the shipment manually in DHL eCommerce."
+      );
+    }
+
+    if (draft?.status === "draft") {
+      const credentials = await this.getCredentials(draft.location_id);
+      const baseUrl = this.getBaseUrl(credentials);
+      const token = await getAuthToken(
+        baseUrl,
+        credentials.user_id,
+        credentials.api_key,
+        credentials.account_id
+      );
+
+      await deleteDraft(
+        baseUrl,
+        token,
+        draft.id,
+        credentials.enable_logs ? this.logger_ : undefined
+      );
+      return;
+    }
+
+    // DHL doesn't have a cancellation API for shipments, so we just acknowledge the cancellation
     // The shipment will need to be handled manually if already created
     this.logger_.info(
       `Cancelling DHL fulfillment: ${JSON.stringify(fulfillment)}`
@@ -369,8 +900,8 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
     order: Partial<FulfillmentOrderDTO> | undefined,
     fulfillment: Partial<Omit<FulfillmentDTO, "provider_id" | "data" | "items">>
   ): Promise<CreateFulfillmentResult> {
-    const credentials = await this.getCredentials();
-    const baseUrl = this.getBaseUrl();
+    const credentials = await this.getCredentials(fulfillment.location_id);
+    const baseUrl = this.getBaseUrl(credentials);
 
     const token = await getAuthToken(
       baseUrl,
@@ -412,6 +943,16 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
           fulfillment,
           dimensionUnitOfMeasure: credentials.item_dimensions_unit,
           weightUnitOfMeasure: credentials.item_weight_unit,
+          useDrafts: credentials.use_drafts,
+          draftPromotionDelayMinutes: credentials.draft_promotion_delay_minutes,
+          shippingSchedule: {
+            cutoffTime: credentials.shipping_cutoff_time,
+            nonShippingDays: credentials.non_shipping_days,
+            timeZone: credentials.shipping_timezone,
+          },
+          labelFormat: getDhlLabelFormat(credentials),
+          insuranceThreshold: credentials.insurance_threshold,
+          referenceTemplate: credentials.reference_template,
           debug: credentials.enable_logs,
         },
       });
@@ -423,6 +964,81 @@ class DHLProviderService extends AbstractFulfillmentProviderService {
       throw new Error(`DHL create fulfillment failed: ${message}`);
     }
   }
+
+  /**
+   * Create a return fulfillment (return label) for a given return.
+   *
+   * The customer's shipping address is used as the shipper and the stock
+   * location of the return as the receiver.
+   *
+   * @param fulfillment - The return fulfillment, including its items and shipping option.
+   * @returns A promise that resolves to the fulfillment result with the return label.
+   */
+  async createReturnFulfillment(
+    fulfillment: Record<string, unknown>
+  ): Promise<CreateFulfillmentResult> {
+    const credentials = await this.getCredentials(
+      (fulfillment as Partial<FulfillmentDTO>).location_id
+    );
+    const baseUrl = this.getBaseUrl(credentials);
+
+    const token = await getAuthToken(
+      baseUrl,
+      credentials.user_id,
+      credentials.api_key,
+      credentials.account_id
+    );
+
+    try {
+      const returnFulfillment = fulfillment as Partial<FulfillmentDTO>;
+      const locationId = returnFulfillment.location_id;
+      const shippingOptionId = returnFulfillment.shipping_option_id;
+
+      if (!locationId) {
+        this.logger_.error(
+          "DHL create return fulfillment failed: Missing location ID"
+        );
+        throw new Error(
+          "DHL create return fulfillment failed: Missing location ID"
+        );
+      }
+
+      if (!shippingOptionId) {
+        this.logger_.error(
+          "DHL create return fulfillment failed: Missing shipping option ID"
+        );
+        throw new Error(
+          "DHL create return fulfillment failed: Missing shipping option ID"
+        );
+      }
+
+      const { result } = await createDHLShipmentWorkflow().run({
+        input: {
+          token,
+          baseUrl,
+          accountNumber: credentials.account_id,
+          locationId,
+          shippingOptionId,
+          data: returnFulfillment.data ?? {},
+          items: returnFulfillment.items ?? [],
+          order: undefined,
+          fulfillment: { id: returnFulfillment.id },
+          dimensionUnitOfMeasure: credentials.item_dimensions_unit,
+          weightUnitOfMeasure: credentials.item_weight_unit,
+          isReturn: true,
+          labelFormat: getDhlLabelFormat(credentials),
+          referenceTemplate: credentials.reference_template,
+          debug: credentials.enable_logs,
+        },
+      });
+
+      return result.shipment;
+    } catch (error: unknown) {
+      const message = this.formatUnknownErrorMessage(error);
+      this.logger_.error(`DHL create return fulfillment failed: ${message}`);
+      throw new Error(`DHL create return fulfillment failed: ${message}`);
+    }
+  }
 }
 
 export default DHLProviderService;
@@ -0,0 +1,84 @@
+import { buildCustomsGoods, CustomsLineItem, requiresCustomsDeclaration } from '../customs'
+
+const item: CustomsLineItem = {
+  id: 'item_1',
+  title: 'Cotton T-shirt',
+  quantity: 3,
+  unitPrice: 19.99,
+  hsCode: '6109.10',
+  originCountry: 'pt',
+  weightGrams: 180,
+}
+
+describe('requiresCustomsDeclaration', () => {
+  it('does not require a declaration within the EU customs union', () => {
+    expect(requiresCustomsDeclaration('NL', 'NL')).toBe(false)
+    expect(requiresCustomsDeclaration('NL', 'be')).toBe(false)
+  })
+
+  it('requires a declaration across the EU customs border', () => {
+    expect(requiresCustomsDeclaration('NL', 'GB')).toBe(true)
+    expect(requiresCustomsDeclaration('ch', 'NL')).toBe(true)
+    expect(requiresCustomsDeclaration('GB', 'CH')).toBe(true)
+  })
+
+  it('does not require a declaration without both countries', () => {
+    expect(requiresCustomsDeclaration('NL', undefined)).toBe(false)
+    expect(requiresCustomsDeclaration(null, 'GB')).toBe(false)
+  })
+})
+
+describe('buildCustomsGoods', () => {
+  it('builds the declared goods from the line items', () => {
+    expect(buildCustomsGoods([item])).toEqual([
+      {
+        code: '61091000',
+        description: 'Cotton T-shirt',
+        origin: 'PT',
+        quantity: 3,
+        value: 59.97,
+        weight: 0.54,
+      },
+    ])
+  })
+
+  it('keeps HS codes of 8 and 10 digits', () => {
+    const goods = buildCustomsGoods([
+      { ...item, hsCode: '61091000' },
+      { ...item, id: 'item_2', hsCode: '6109 1000 10' },
+    ])
+
+    expect(goods.map(({ code }) => code)).toEqual(['61091000', '6109100010'])
+  })
+
+  it('leaves out the weight when the item has none', () => {
+    expect(buildCustomsGoods([{ ...item, weightGrams: null }])[0]).not.toHaveProperty('weight')
+  })
+
+  it('rejects HS codes that are not 6, 8 or 10 digits', () => {
+    expect(() => buildCustomsGoods([{ ...item, hsCode: '6109100' }])).toThrow(
+      'Customs declaration failed: "Cotton T-shirt" (item_1) is missing a valid HS code of 6, 8 or 10 digits (got "6109100")',
+    )
+    expect(() => buildCustomsGoods([{ ...item, hsCode: '6109AB' }])).toThrow(
+      'a valid HS code of 6, 8 or 10 digits',
+    )
+  })
+
+  it('reports all items with missing data in one error', () => {
+    expect(() =>
+      buildCustomsGoods([
+        item,
+        { ...item, id: 'item_2', hsCode: null, originCountry: null },
+        { ...item, id: 'item_3', title: '', unitPrice: 0 },
+      ]),
+    ).toThrow(
+      'Customs declaration failed: "Cotton T-shirt" (item_2) is missing HS code, origin country; "item_3" (item_3) is missing description, unit value',
+    )
+  })
+
+  it('throws without line items', () => {
+    expect(() => buildCustomsGoods([])).toThrow(
+      'Customs declaration failed: no line items to declare',
+    )
+  })
+})
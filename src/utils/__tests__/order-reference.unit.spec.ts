@@ -0,0 +1,41 @@
+import { formatOrderReference, getDeliveryInstructions } from '../order-reference'
+
+describe('formatOrderReference', () => {
+  const values = { display_id: 1042, order_id: 'order_01', fulfillment_id: 'ful_01' }
+
+  it('uses the display id without a template', () => {
+    expect(formatOrderReference(null, values, 'ful_01')).toBe('1042')
+    expect(formatOrderReference('', values, 'ful_01')).toBe('1042')
+  })
+
+  it('fills in the placeholders of the template', () => {
+    expect(formatOrderReference('#{display_id} / {order_id}', values, 'ful_01')).toBe(
+      '#1042 / order_01',
+    )
+    expect(formatOrderReference('{fulfillment_id} {unknown}', values, 'ful_01')).toBe(
+      'ful_01 {unknown}',
+    )
+  })
+
+  it('leaves placeholders without a value empty', () => {
+    expect(formatOrderReference('#{display_id} {order_id}', { display_id: 7 }, 'ful_01')).toBe('#7')
+  })
+
+  it('uses the fallback when nothing is left of the reference', () => {
+    expect(formatOrderReference('{display_id}', { display_id: null }, 'ful_01')).toBe('ful_01')
+  })
+})
+
+describe('getDeliveryInstructions', () => {
+  it('returns the trimmed delivery instructions', () => {
+    expect(getDeliveryInstructions({ delivery_instructions: '  Leave at the back door ' })).toBe(
+      'Leave at the back door',
+    )
+  })
+
+  it('returns undefined without instructions', () => {
+    expect(getDeliveryInstructions(null)).toBeUndefined()
+    expect(getDeliveryInstructions({ delivery_instructions: '   ' })).toBeUndefined()
+    expect(getDeliveryInstructions({ delivery_instructions: 42 })).toBeUndefined()
+  })
+})
@@ -0,0 +1,86 @@
+import { extractAddressComponents, parseAddress } from '../parse-address'
+
+describe('parseAddress', () => {
+  it('parses addresses with the number last', () => {
+    expect(parseAddress('Hoofdstraat 123', 'NL')).toEqual({
+      street: 'Hoofdstraat',
+      number: '123',
+      addition: '',
+    })
+    expect(parseAddress('Hoofdstraat 123a', 'nl')).toEqual({
+      street: 'Hoofdstraat',
+      number: '123',
+      addition: 'a',
+    })
+    expect(parseAddress('Rue de la Loi 16-bis', 'BE')).toEqual({
+      street: 'Rue de la Loi',
+      number: '16',
+      addition: 'bis',
+    })
+    expect(parseAddress('Lange Voorhout 123 II', 'NL')).toEqual({
+      street: 'Lange Voorhout',
+      number: '123',
+      addition: 'II',
+    })
+    expect(parseAddress('Hauptstraße 12/3', 'DE')).toEqual({
+      street: 'Hauptstraße',
+      number: '12',
+      addition: '3',
+    })
+  })
+
+  it('parses addresses with the number first', () => {
+    expect(parseAddress('123 High Street', 'GB')).toEqual({
+      street: 'High Street',
+      number: '123',
+      addition: '',
+    })
+    expect(parseAddress('123A High Street', 'IE')).toEqual({
+      street: 'High Street',
+      number: '123',
+      addition: 'A',
+    })
+    expect(parseAddress('Flat 4, 123 High Street', 'GB')).toEqual({
+      street: 'High Street',
+      number: '123',
+      addition: 'Flat 4',
+    })
+  })
+
+  it('falls back to the number last for number first countries', () => {
+    expect(parseAddress('High Street 123', 'GB')).toEqual({
+      street: 'High Street',
+      number: '123',
+      addition: '',
+    })
+  })
+
+  it('returns the whole line as the street without a number', () => {
+    expect(parseAddress('Postbus', 'NL')).toEqual({ street: 'Postbus', number: '', addition: '' })
+    expect(parseAddress(null, 'NL')).toEqual({ street: '', number: '', addition: '' })
+  })
+})
+
+describe('extractAddressComponents', () => {
+  it('prefers the structured address in the metadata', () => {
+    expect(
+      extractAddressComponents(
+        {
+          address_1: 'Hoofdstraat 123a',
+          metadata: { street: 'Kerkstraat', house_number: '5', addition: 'b' },
+        },
+        'NL',
+      ),
+    ).toEqual({ street: 'Kerkstraat', number: '5', addition: 'b' })
+  })
+
+  it('parses the address line without a structured address', () => {
+    expect(
+      extractAddressComponents(
+        { address_1: 'Hoofdstraat 123a', metadata: { street: 'Kerkstraat' } },
+        'NL',
+      ),
+    ).toEqual({ street: 'Hoofdstraat', number: '123', addition: 'a' })
+    expect(extractAddressComponents(null, 'NL')).toEqual({ street: '', number: '', addition: '' })
+  })
+})
@@ -0,0 +1,45 @@
+import { isPriceTaxMode, resolvePriceTaxMode } from '../price-tax-mode'
+
+describe('isPriceTaxMode', () => {
+  it('accepts the gross and net modes only', () => {
+    expect(isPriceTaxMode('gross')).toBe(true)
+    expect(isPriceTaxMode('net')).toBe(true)
+    expect(isPriceTaxMode('NET')).toBe(false)
+    expect(isPriceTaxMode(undefined)).toBe(false)
+  })
+})
+
+describe('resolvePriceTaxMode', () => {
+  it('uses gross prices without any mode', () => {
+    expect(resolvePriceTaxMode({ toBusiness: false })).toBe('gross')
+    expect(resolvePriceTaxMode({ defaultMode: null, toBusiness: true })).toBe('gross')
+  })
+
+  it("uses the shop's default mode", () => {
+    expect(resolvePriceTaxMode({ defaultMode: 'net', toBusiness: false })).toBe('net')
+  })
+
+  it('uses the business mode for business carts only', () => {
+    const context = { defaultMode: 'gross', businessMode: 'net' } as const
+
+    expect(resolvePriceTaxMode({ ...context, toBusiness: true })).toBe('net')
+    expect(resolvePriceTaxMode({ ...context, toBusiness: false })).toBe('gross')
+  })
+
+  it("prefers the shipping option's mode", () => {
+    expect(
+      resolvePriceTaxMode({
+        optionMode: 'gross',
+        defaultMode: 'net',
+        businessMode: 'net',
+        toBusiness: true,
+      }),
+    ).toBe('gross')
+  })
+
+  it('ignores an invalid mode on the shipping option', () => {
+    expect(resolvePriceTaxMode({ optionMode: 'vat', defaultMode: 'net', toBusiness: false })).toBe(
+      'net',
+    )
+  })
+})
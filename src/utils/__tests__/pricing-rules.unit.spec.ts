@@ -0,0 +1,108 @@
+import { DHLPricingRuleInput } from '../../api/admin/dhl/pricing-rules/route'
+import { DHLPricingRuleSchema } from '../../api/admin/dhl/pricing-rules/validator'
+import { applyPricingRules, PricingRuleContext } from '../pricing-rules'
+
+const rule = (input: Partial<DHLPricingRuleInput> & { id: string }): DHLPricingRuleInput =>
+  DHLPricingRuleSchema.parse({ name: input.id, ...input })
+
+const context: PricingRuleContext = {
+  optionKey: 'DOOR',
+  countryCode: 'NL',
+  subtotal: 50,
+  customerGroupIds: [],
+}
+
+describe('applyPricingRules', () => {
+  it('returns the DHL price without matching rules', () => {
+    expect(applyPricingRules(6.2, [], context)).toEqual({ amount: 6.2, appliedRules: [] })
+  })
+
+  it('applies the markup before the handling fee', () => {
+    const result = applyPricingRules(
+      10,
+      [rule({ id: 'markup', markup_percentage: 10, handling_fee: 1.5 })],
+      context,
+    )
+
+    expect(result).toEqual({ amount: 12.5, appliedRules: [{ id: 'markup', name: 'markup' }] })
+  })
+
+  it('applies the rules by ascending priority', () => {
+    const result = applyPricingRules(
+      10,
+      [
+        rule({ id: 'fee', priority: 2, handling_fee: 2 }),
+        rule({ id: 'markup', priority: 1, markup_percentage: 50 }),
+      ],
+      context,
+    )
+
+    expect(result.amount).toBe(17)
+    expect(result.appliedRules.map(({ id }) => id)).toEqual(['markup', 'fee'])
+  })
+
+  it('rounds up to the price ending', () => {
+    expect(
+      applyPricingRules(6.2, [rule({ id: 'round', round_ending: 0.95 })], context).amount,
+    ).toBe(6.95)
+    expect(
+      applyPricingRules(6.96, [rule({ id: 'round', round_ending: 0.95 })], context).amount,
+    ).toBe(7.95)
+    expect(
+      applyPricingRules(6.95, [rule({ id: 'round', round_ending: 0.95 })], context).amount,
+    ).toBe(6.95)
+  })
+
+  it('makes the price 0 with a matching free shipping rule', () => {
+    const result = applyPricingRules(
+      6.2,
+      [
+        rule({ id: 'fee', handling_fee: 1 }),
+        rule({ id: 'free', free_shipping: true, min_subtotal: 50 }),
+      ],
+      context,
+    )
+
+    expect(result).toEqual({ amount: 0, appliedRules: [{ id: 'free', name: 'free' }] })
+  })
+
+  it('never drops the price below 0', () => {
+    expect(applyPricingRules(5, [rule({ id: 'discount', handling_fee: -10 })], context)).toEqual({
+      amount: 0,
+      appliedRules: [{ id: 'discount', name: 'discount' }],
+    })
+  })
+
+  it('skips rules that do not match the cart', () => {
+    const rules = [
+      rule({ id: 'disabled', is_enabled: false }),
+      rule({ id: 'option', option_keys: ['PS'] }),
+      rule({ id: 'country', country_codes: ['BE'] }),
+      rule({ id: 'group', customer_group_ids: ['cusgroup_vip'] }),
+      rule({ id: 'min', min_subtotal: 50.01 }),
+      rule({ id: 'max', max_subtotal: 49.99 }),
+    ].map((skipped) => ({ ...skipped, handling_fee: 1 }))
+
+    expect(applyPricingRules(6.2, rules, context)).toEqual({ amount: 6.2, appliedRules: [] })
+  })
+
+  it('matches the option, country, customer group and subtotal range', () => {
+    const result = applyPricingRules(
+      6.2,
+      [
+        rule({
+          id: 'match',
+          handling_fee: 1,
+          option_keys: ['DOOR'],
+          country_codes: ['nl'],
+          customer_group_ids: ['cusgroup_vip'],
+          min_subtotal: 50,
+          max_subtotal: 50,
+        }),
+      ],
+      { ...context, customerGroupIds: ['cusgroup_vip'] },
+    )
+
+    expect(result).toEqual({ amount: 7.2, appliedRules: [{ id: 'match', name: 'match' }] })
+  })
+})
@@ -0,0 +1,103 @@
+import {
+  getLocalDate,
+  getShipmentDate,
+  getShippingSchedule,
+  ShippingSchedule,
+} from '../shipment-date'
+
+const schedule: ShippingSchedule = {
+  cutoffTime: '16:00',
+  nonShippingDays: ['saturday', 'sunday'],
+  timeZone: 'Europe/Amsterdam',
+}
+
+describe('getShipmentDate', () => {
+  it('ships the same day before the cut-off time', () => {
+    // Monday 15:59 in Amsterdam (UTC+2)
+    expect(getShipmentDate(new Date('2026-10-19T13:59:00Z'), schedule)).toBe('2026-10-19')
+  })
+
+  it('ships the next day from the cut-off time', () => {
+    // Monday 16:00 in Amsterdam
+    expect(getShipmentDate(new Date('2026-10-19T14:00:00Z'), schedule)).toBe('2026-10-20')
+  })
+
+  it('skips non-shipping days', () => {
+    // Friday 17:00 in Amsterdam ships on Monday
+    expect(getShipmentDate(new Date('2026-10-23T15:00:00Z'), schedule)).toBe('2026-10-26')
+    // Saturday morning ships on Monday
+    expect(getShipmentDate(new Date('2026-10-24T08:00:00Z'), schedule)).toBe('2026-10-26')
+  })
+
+  it('uses the calendar date of the time zone', () => {
+    // Monday 23:30 UTC is already Tuesday 01:30 in Amsterdam
+    expect(getShipmentDate(new Date('2026-10-19T23:30:00Z'), schedule)).toBe('2026-10-20')
+    // ...but still Monday 19:30 in New York, after the cut-off time
+    expect(
+      getShipmentDate(new Date('2026-10-19T23:30:00Z'), {
+        ...schedule,
+        timeZone: 'America/New_York',
+      }),
+    ).toBe('2026-10-20')
+    // Monday 12:00 in New York, before the cut-off time
+    expect(
+      getShipmentDate(new Date('2026-10-19T16:00:00Z'), {
+        ...schedule,
+        timeZone: 'America/New_York',
+      }),
+    ).toBe('2026-10-19')
+  })
+
+  it('ships every day without non-shipping days', () => {
+    expect(
+      getShipmentDate(new Date('2026-10-24T08:00:00Z'), { ...schedule, nonShippingDays: [] }),
+    ).toBe('2026-10-24')
+  })
+
+  it('throws when every day is a non-shipping day', () => {
+    expect(() =>
+      getShipmentDate(new Date('2026-10-19T08:00:00Z'), {
+        ...schedule,
+        nonShippingDays: [
+          'monday',
+          'tuesday',
+          'wednesday',
+          'thursday',
+          'friday',
+          'saturday',
+          'sunday',
+        ],
+      }),
+    ).toThrow('At least one shipping day is required')
+  })
+
+  it('throws on an invalid cut-off time', () => {
+    expect(() =>
+      getShipmentDate(new Date('2026-10-19T08:00:00Z'), { ...schedule, cutoffTime: '4pm' }),
+    ).toThrow('Invalid cut-off time "4pm", expected HH:mm')
+  })
+})
+
+describe('getLocalDate', () => {
+  it('returns the calendar date in the time zone', () => {
+    expect(getLocalDate(new Date('2026-10-19T23:30:00Z'), 'Europe/Amsterdam')).toBe('2026-10-20')
+    expect(getLocalDate(new Date('2026-10-19T23:30:00Z'), 'America/New_York')).toBe('2026-10-19')
+  })
+})
+
+describe('getShippingSchedule', () => {
+  it('uses the defaults for missing settings', () => {
+    expect(getShippingSchedule(null)).toEqual(schedule)
+    expect(getShippingSchedule({ shipping_cutoff_time: null })).toEqual(schedule)
+  })
+
+  it('uses the configured settings', () => {
+    expect(
+      getShippingSchedule({
+        shipping_cutoff_time: '14:30',
+        non_shipping_days: ['sunday'],
+        shipping_timezone: 'Europe/Berlin',
+      }),
+    ).toEqual({ cutoffTime: '14:30', nonShippingDays: ['sunday'], timeZone: 'Europe/Berlin' })
+  })
+})
@@ -0,0 +1,121 @@
+import {
+  consumeWebhookRateLimit,
+  getWebhookStats,
+  isAllowedWebhookIp,
+  isValidIpAllowlistEntry,
+  isValidWebhookApiKey,
+  isWithinWebhookWindow,
+  recordWebhookAccepted,
+  recordWebhookFailure,
+} from '../webhook-security'
+
+describe('isValidWebhookApiKey', () => {
+  it('accepts any of the active keys', () => {
+    expect(isValidWebhookApiKey('new-key', ['old-key', 'new-key'])).toBe(true)
+    expect(isValidWebhookApiKey('old-key', ['old-key', null])).toBe(true)
+  })
+
+  it('rejects other keys', () => {
+    expect(isValidWebhookApiKey('new-key-2', ['old-key', 'new-key'])).toBe(false)
+    expect(isValidWebhookApiKey('', [null, undefined, ''])).toBe(false)
+  })
+})
+
+describe('isValidIpAllowlistEntry', () => {
+  it('accepts IP addresses and CIDR ranges', () => {
+    expect(isValidIpAllowlistEntry('192.0.2.1')).toBe(true)
+    expect(isValidIpAllowlistEntry('192.0.2.0/24')).toBe(true)
+    expect(isValidIpAllowlistEntry('2001:db8::/32')).toBe(true)
+  })
+
+  it('rejects anything else', () => {
+    expect(isValidIpAllowlistEntry('dhl.com')).toBe(false)
+    expect(isValidIpAllowlistEntry('192.0.2.0/33')).toBe(false)
+    expect(isValidIpAllowlistEntry('192.0.2.0/')).toBe(false)
+    expect(isValidIpAllowlistEntry('192.0.2.0/24/8')).toBe(false)
+  })
+})
+
+describe('isAllowedWebhookIp', () => {
+  const allowlist = ['192.0.2.0/24', '198.51.100.7', '2001:db8::/32', 'not-an-ip']
+
+  it('allows every address with an empty allowlist', () => {
+    expect(isAllowedWebhookIp('203.0.113.1', [])).toBe(true)
+    expect(isAllowedWebhookIp(undefined, [])).toBe(true)
+  })
+
+  it('allows addresses in the allowlist', () => {
+    expect(isAllowedWebhookIp('192.0.2.200', allowlist)).toBe(true)
+    expect(isAllowedWebhookIp('198.51.100.7', allowlist)).toBe(true)
+    expect(isAllowedWebhookIp('2001:db8::1', allowlist)).toBe(true)
+  })
+
+  it('allows IPv4-mapped IPv6 addresses', () => {
+    expect(isAllowedWebhookIp('::ffff:192.0.2.10', allowlist)).toBe(true)
+  })
+
+  it('rejects other addresses', () => {
+    expect(isAllowedWebhookIp('192.0.3.1', allowlist)).toBe(false)
+    expect(isAllowedWebhookIp('198.51.100.8', allowlist)).toBe(false)
+    expect(isAllowedWebhookIp(undefined, allowlist)).toBe(false)
+  })
+})
+
+describe('consumeWebhookRateLimit', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z')
+
+  it('rejects requests above the limit per minute', () => {
+    expect(consumeWebhookRateLimit('192.0.2.1', 2, now)).toBe(true)
+    expect(consumeWebhookRateLimit('192.0.2.1', 2, now + 1000)).toBe(true)
+    expect(consumeWebhookRateLimit('192.0.2.1', 2, now + 2000)).toBe(false)
+    // Other addresses have their own limit
+    expect(consumeWebhookRateLimit('192.0.2.2', 2, now + 2000)).toBe(true)
+  })
+
+  it('starts a new window after a minute', () => {
+    expect(consumeWebhookRateLimit('192.0.2.3', 1, now)).toBe(true)
+    expect(consumeWebhookRateLimit('192.0.2.3', 1, now + 59 * 1000)).toBe(false)
+    expect(consumeWebhookRateLimit('192.0.2.3', 1, now + 60 * 1000)).toBe(true)
+  })
+
+  it('does not limit with a limit of 0', () => {
+    for (let i = 0; i < 5; i++) {
+      expect(consumeWebhookRateLimit('192.0.2.4', 0, now)).toBe(true)
+    }
+  })
+})
+
+describe('isWithinWebhookWindow', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z')
+
+  it('accepts every event without a window', () => {
+    expect(isWithinWebhookWindow(undefined, null, now)).toBe(true)
+    expect(isWithinWebhookWindow('2026-10-01T12:00:00Z', 0, now)).toBe(true)
+  })
+
+  it('accepts events within the window', () => {
+    expect(isWithinWebhookWindow('2026-10-19T11:55:00Z', 5, now)).toBe(true)
+    expect(isWithinWebhookWindow('2026-10-19T12:04:00Z', 5, now)).toBe(true)
+  })
+
+  it('rejects events outside the window or without a valid timestamp', () => {
+    expect(isWithinWebhookWindow('2026-10-19T11:54:59Z', 5, now)).toBe(false)
+    expect(isWithinWebhookWindow('yesterday', 5, now)).toBe(false)
+    expect(isWithinWebhookWindow(undefined, 5, now)).toBe(false)
+  })
+})
+
+describe('webhook statistics', () => {
+  it('counts the accepted and rejected requests', () => {
+    const before = getWebhookStats()
+
+    recordWebhookAccepted()
+    recordWebhookFailure('invalid_api_key')
+
+    const after = getWebhookStats()
+    expect(after.accepted).toBe(before.accepted + 1)
+    expect(after.failures.invalid_api_key).toBe(before.failures.invalid_api_key + 1)
+    expect(after.last_failure_reason).toBe('invalid_api_key')
+    expect(after.last_failure_at).not.toBeNull()
+  })
+})
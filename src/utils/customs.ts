@@ -0,0 +1,137 @@
+/**
+ * Customs utility for working out when a DHL shipment needs a customs declaration
+ * and building the declared goods from the shipped line items.
+ */
+
+/**
+ * Countries in the EU customs union. Shipments between them don't need a declaration.
+ */
+export const EU_COUNTRY_CODES = [
+  'AT',
+  'BE',
+  'BG',
+  'CY',
+  'CZ',
+  'DE',
+  'DK',
+  'EE',
+  'ES',
+  'FI',
+  'FR',
+  'GR',
+  'HR',
+  'HU',
+  'IE',
+  'IT',
+  'LT',
+  'LU',
+  'LV',
+  'MC',
+  'MT',
+  'NL',
+  'PL',
+  'PT',
+  'RO',
+  'SE',
+  'SI',
+  'SK',
+] as const
+
+export interface CustomsLineItem {
+  /** The line item or variant id, used in error messages */
+  id: string
+  title: string
+  quantity: number
+  /** Value of a single unit in the order currency */
+  unitPrice: number
+  hsCode?: string | null
+  originCountry?: string | null
+  /** Weight of a single unit in grams */
+  weightGrams?: number | null
+}
+
+export interface CustomsGood {
+  code: string
+  description: string
+  origin: string
+  quantity: number
+  /** Total value of the line */
+  value: number
+  /** Total net weight of the line in kilograms */
+  weight?: number
+}
+
+/**
+ * Checks whether a shipment between two countries crosses the EU customs border.
+ */
+export function requiresCustomsDeclaration(
+  originCountryCode: string | null | undefined,
+  destinationCountryCode: string | null | undefined,
+): boolean {
+  const origin = (originCountryCode ?? '').toUpperCase()
+  const destination = (destinationCountryCode ?? '').toUpperCase()
+  if (!origin || !destination || origin === destination) {
+    return false
+  }
+
+  const isEU = (countryCode: string) =>
+    (EU_COUNTRY_CODES as readonly string[]).includes(countryCode)
+
+  return !(isEU(origin) && isEU(destination))
+}
+
+/**
+ * Builds the declared goods of a customs declaration.
+ *
+ * Every item needs a description, a value, an HS code of 6, 8 or 10 digits and an origin
+ * country. All items with missing data are reported in one error.
+ *
+ * DHL takes HS codes of 8 or 10 digits, so the international 6 digit codes are completed with
+ * the `00` subheading of the EU's Combined Nomenclature.
+ *
+ * @throws When an item misses customs data.
+ */
+export function buildCustomsGoods(items: CustomsLineItem[]): CustomsGood[] {
+  if (!items.length) {
+    throw new Error('Customs declaration failed: no line items to declare')
+  }
+
+  const problems: string[] = []
+  const goods = items.map((item): CustomsGood => {
+    const missing: string[] = []
+    const hsCode = (item.hsCode ?? '').replace(/[\s.]/g, '')
+    if (!hsCode) {
+      missing.push('HS code')
+    } else if (!/^(\d{6}|\d{8}|\d{10})$/.test(hsCode)) {
+      missing.push(`a valid HS code of 6, 8 or 10 digits (got "${item.hsCode}")`)
+    }
+    const code = hsCode.length === 6 ? `${hsCode}00` : hsCode
+    if (!item.originCountry) {
+      missing.push('origin country')
+    }
+    if (!item.title) {
+      missing.push('description')
+    }
+    if (!(item.unitPrice > 0)) {
+      missing.push('unit value')
+    }
+    if (missing.length) {
+      problems.push(`"${item.title || item.id}" (${item.id}) is missing ${missing.join(', ')}`)
+    }
+
+    return {
+      code,
+      description: item.title,
+      origin: (item.originCountry ?? '').toUpperCase(),
+      quantity: item.quantity,
+      value: Math.round(item.unitPrice * item.quantity * 100) / 100,
+      ...(item.weightGrams ? { weight: Math.round(item.weightGrams * item.quantity) / 1000 } : {}),
+    }
+  })
+
+  if (problems.length) {
+    throw new Error(`Customs declaration failed: ${problems.join('; ')}`)
+  }
+
+  return goods
+}
@@ -0,0 +1,48 @@
+/**
+ * Order reference and delivery instruction utilities for the DHL shipments of an order.
+ */
+
+export const DEFAULT_REFERENCE_TEMPLATE = '{display_id}'
+
+/**
+ * The order (or cart) metadata key that holds the customer's delivery instructions.
+ */
+export const DELIVERY_INSTRUCTIONS_METADATA_KEY = 'delivery_instructions'
+
+export interface OrderReferenceValues {
+  /** The order number shown to the customer */
+  display_id?: number | string | null
+  order_id?: string | null
+  fulfillment_id?: string | null
+}
+
+/**
+ * Formats the order reference of a shipment from a template such as `#{display_id}`.
+ *
+ * Placeholders without a value become empty. When nothing is left of the reference,
+ * the fallback is used.
+ */
+export function formatOrderReference(
+  template: string | null | undefined,
+  values: OrderReferenceValues,
+  fallback: string,
+): string {
+  const reference = (template || DEFAULT_REFERENCE_TEMPLATE)
+    .replace(/\{(display_id|order_id|fulfillment_id)\}/g, (_, key: keyof OrderReferenceValues) =>
+      values[key] === undefined || values[key] === null ? '' : String(values[key]),
+    )
+    .trim()
+
+  return reference || fallback
+}
+
+/**
+ * Gets the delivery instructions the customer left in the order metadata. Cart metadata is
+ * carried over to the order when the cart is completed.
+ */
+export function getDeliveryInstructions(
+  metadata: Record<string, unknown> | null | undefined,
+): string | undefined {
+  const instructions = metadata?.[DELIVERY_INSTRUCTIONS_METADATA_KEY]
+  return typeof instructions === 'string' && instructions.trim() ? instructions.trim() : undefined
+}
@@ -0,0 +1,45 @@
+/**
+ * Price tax mode utility for choosing between DHL's gross (VAT included) and
+ * net (VAT excluded) rates.
+ */
+
+export const PRICE_TAX_MODES = ['gross', 'net'] as const
+
+export type PriceTaxMode = (typeof PRICE_TAX_MODES)[number]
+
+export const isPriceTaxMode = (value: unknown): value is PriceTaxMode =>
+  PRICE_TAX_MODES.includes(value as PriceTaxMode)
+
+export interface PriceTaxModeContext {
+  /** The mode set on the shipping option's data, if any */
+  optionMode?: unknown
+  /** The shop's default mode */
+  defaultMode?: PriceTaxMode | null
+  /** The mode for business carts, if it differs from the default */
+  businessMode?: PriceTaxMode | null
+  /** Whether the cart ships to a business */
+  toBusiness: boolean
+}
+
+/**
+ * Resolves the price tax mode of a rate quote.
+ *
+ * A mode on the shipping option wins, then the business mode for business carts,
+ * then the shop's default. Without any of them, gross prices are used.
+ */
+export function resolvePriceTaxMode({
+  optionMode,
+  defaultMode,
+  businessMode,
+  toBusiness,
+}: PriceTaxModeContext): PriceTaxMode {
+  if (isPriceTaxMode(optionMode)) {
+    return optionMode
+  }
+
+  if (toBusiness && businessMode) {
+    return businessMode
+  }
+
+  return defaultMode ?? 'gross'
+}
@@ -0,0 +1,103 @@
+/**
+ * Pricing rules engine that adjusts DHL rates with markups, handling fees,
+ * rounding and free shipping.
+ */
+
+import { DHLPricingRuleInput } from '../api/admin/dhl/pricing-rules/route'
+
+/**
+ * The cart details pricing rules are matched against.
+ */
+export type PricingRuleContext = {
+  optionKey: string
+  countryCode: string
+  subtotal: number
+  customerGroupIds: string[]
+}
+
+export type PricingRulesResult = {
+  amount: number
+  appliedRules: Pick<DHLPricingRuleInput, 'id' | 'name'>[]
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100
+
+/**
+ * Round an amount up to the next price with the given decimal ending, e.g. 6.20 to 6.95.
+ */
+const roundToEnding = (amount: number, ending: number): number => {
+  const rounded = Math.floor(amount) + ending
+  return roundAmount(rounded < roundAmount(amount) ? rounded + 1 : rounded)
+}
+
+const matchesRule = (rule: DHLPricingRuleInput, context: PricingRuleContext): boolean => {
+  if (!rule.is_enabled) {
+    return false
+  }
+  if (rule.option_keys.length && !rule.option_keys.includes(context.optionKey)) {
+    return false
+  }
+  if (
+    rule.country_codes.length &&
+    !rule.country_codes.some(
+      (countryCode) => countryCode.toUpperCase() === context.countryCode.toUpperCase(),
+    )
+  ) {
+    return false
+  }
+  if (
+    rule.customer_group_ids.length &&
+    !rule.customer_group_ids.some((groupId) => context.customerGroupIds.includes(groupId))
+  ) {
+    return false
+  }
+  if (rule.min_subtotal !== null && context.subtotal < rule.min_subtotal) {
+    return false
+  }
+  if (rule.max_subtotal !== null && context.subtotal > rule.max_subtotal) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Apply the pricing rules to a DHL rate.
+ *
+ * A matching free shipping rule makes the price 0. Otherwise the matching rules are
+ * applied by ascending priority: the markup percentage first, then the handling fee
+ * and finally the rounding. The price never drops below 0.
+ *
+ * @param dhlPrice - The DHL rate for the packed parcels.
+ * @param rules - The pricing rules.
+ * @param context - The cart details the rules are matched against.
+ * @returns The adjusted price and the rules that were applied.
+ */
+export const applyPricingRules = (
+  dhlPrice: number,
+  rules: DHLPricingRuleInput[],
+  context: PricingRuleContext,
+): PricingRulesResult => {
+  const matchingRules = rules
+    .filter((rule) => matchesRule(rule, context))
+    .sort((a, b) => a.priority - b.priority)
+
+  const freeShippingRule = matchingRules.find((rule) => rule.free_shipping)
+  if (freeShippingRule) {
+    return {
+      amount: 0,
+      appliedRules: [{ id: freeShippingRule.id, name: freeShippingRule.name }],
+    }
+  }
+
+  let amount = dhlPrice
+  const appliedRules: PricingRulesResult['appliedRules'] = []
+  for (const rule of matchingRules) {
+    amount = amount * (1 + rule.markup_percentage / 100) + rule.handling_fee
+    if (rule.round_ending !== null) {
+      amount = roundToEnding(amount, rule.round_ending)
+    }
+    appliedRules.push({ id: rule.id, name: rule.name })
+  }
+
+  return { amount: Math.max(0, roundAmount(amount)), appliedRules }
+}
@@ -0,0 +1,123 @@
+/**
+ * Shipment date utility for working out when an order leaves the warehouse,
+ * based on the shop's daily cut-off time and its non-shipping days.
+ */
+
+export const WEEKDAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const
+
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export interface ShippingSchedule {
+  /** Daily cut-off time in HH:mm; orders after it ship the next shipping day */
+  cutoffTime: string
+  /** Days on which no parcels are handed to DHL */
+  nonShippingDays: Weekday[]
+  /** IANA time zone the cut-off time and days are expressed in */
+  timeZone: string
+}
+
+/**
+ * Gets the calendar date and time of an instant in a time zone.
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    minutes: get('hour') * 60 + get('minute'),
+  }
+}
+
+/**
+ * Parses a "HH:mm" time into minutes after midnight.
+ */
+function parseTime(time: string): number {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) {
+    throw new Error(`Invalid cut-off time "${time}", expected HH:mm`)
+  }
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+/**
+ * Works out the date a parcel is handed to DHL.
+ *
+ * Orders placed after the cut-off time, or on a non-shipping day, ship on the
+ * next shipping day.
+ *
+ * @param now - The moment the order is placed or fulfilled.
+ * @param schedule - The shop's shipping schedule.
+ * @returns The shipment date as YYYY-MM-DD.
+ */
+export function getShipmentDate(now: Date, schedule: ShippingSchedule): string {
+  if (schedule.nonShippingDays.length >= WEEKDAYS.length) {
+    throw new Error('At least one shipping day is required')
+  }
+
+  const local = getZonedParts(now, schedule.timeZone)
+  // Calendar arithmetic on a UTC date avoids daylight saving time shifts
+  const date = new Date(Date.UTC(local.year, local.month - 1, local.day))
+
+  if (local.minutes >= parseTime(schedule.cutoffTime)) {
+    date.setUTCDate(date.getUTCDate() + 1)
+  }
+
+  const isNonShippingDay = () =>
+    schedule.nonShippingDays.includes(WEEKDAYS[(date.getUTCDay() + 6) % 7])
+
+  while (isNonShippingDay()) {
+    date.setUTCDate(date.getUTCDate() + 1)
+  }
+
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Gets the calendar date of an instant in a time zone.
+ *
+ * @param now - The moment to get the date of.
+ * @param timeZone - IANA time zone.
+ * @returns The date as YYYY-MM-DD.
+ */
+export function getLocalDate(now: Date, timeZone: string): string {
+  const local = getZonedParts(now, timeZone)
+  return new Date(Date.UTC(local.year, local.month - 1, local.day)).toISOString().slice(0, 10)
+}
+
+/**
+ * Gets the shipping schedule from the DHL settings, with the defaults for missing values.
+ */
+export function getShippingSchedule(
+  settings?: {
+    shipping_cutoff_time?: string | null
+    non_shipping_days?: Weekday[] | null
+    shipping_timezone?: string | null
+  } | null,
+): ShippingSchedule {
+  return {
+    cutoffTime: settings?.shipping_cutoff_time ?? '16:00',
+    nonShippingDays: settings?.non_shipping_days ?? ['saturday', 'sunday'],
+    timeZone: settings?.shipping_timezone ?? 'Europe/Amsterdam',
+  }
+}
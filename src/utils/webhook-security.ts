@@ -0,0 +1,195 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { BlockList, isIP } from 'net'
+
+/**
+ * Security checks for the DHL Track & Trace Pusher webhook, and statistics of the requests
+ * it accepted and rejected. The rate limits and statistics are kept per server process since it started.
+ */
+
+/**
+ * The default number of webhook requests accepted per IP address per minute.
+ */
+export const DEFAULT_WEBHOOK_RATE_LIMIT_PER_MINUTE = 600
+
+export const WEBHOOK_FAILURE_REASONS = [
+  'ip_not_allowed',
+  'rate_limited',
+  'missing_api_key',
+  'invalid_api_key',
+  'invalid_payload',
+  'outside_window',
+] as const
+
+export type WebhookFailureReason = (typeof WEBHOOK_FAILURE_REASONS)[number]
+
+export type WebhookStats = {
+  accepted: number
+  failures: Record<WebhookFailureReason, number>
+  last_failure_at: string | null
+  last_failure_reason: WebhookFailureReason | null
+}
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000
+
+const rateLimits = new Map<string, { windowStart: number; count: number }>()
+let lastRateLimitSweep = 0
+
+const stats: WebhookStats = {
+  accepted: 0,
+  failures: Object.fromEntries(WEBHOOK_FAILURE_REASONS.map((reason) => [reason, 0])) as Record<
+    WebhookFailureReason,
+    number
+  >,
+  last_failure_at: null,
+  last_failure_reason: null,
+}
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest()
+
+/**
+ * Checks the provided API key against the active keys in constant time.
+ *
+ * Keys are hashed first, so keys of different lengths compare in the same time too, and all
+ * keys are compared, so the time doesn't tell which key matched.
+ */
+export function isValidWebhookApiKey(
+  providedKey: string,
+  activeKeys: (string | null | undefined)[],
+): boolean {
+  const provided = digest(providedKey)
+  let valid = false
+  for (const key of activeKeys) {
+    if (key && timingSafeEqual(provided, digest(key))) {
+      valid = true
+    }
+  }
+  return valid
+}
+
+/**
+ * Normalizes an IPv4 address that Node reports in its IPv4-mapped IPv6 form, e.g.
+ * `::ffff:192.0.2.1`.
+ */
+const normalizeIp = (ip: string): string => ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '')
+
+/**
+ * Checks whether an allowlist entry is an IP address or a CIDR range such as `192.0.2.0/24`.
+ */
+export function isValidIpAllowlistEntry(entry: string): boolean {
+  const [address, prefix, ...rest] = entry.split('/')
+  const family = isIP(address)
+  if (!family || rest.length) {
+    return false
+  }
+  if (prefix === undefined) {
+    return true
+  }
+  const bits = Number(prefix)
+  return /^\d+$/.test(prefix) && bits <= (family === 4 ? 32 : 128)
+}
+
+/**
+ * Checks whether the IP address of a webhook request is allowed. An empty allowlist allows
+ * every address.
+ */
+export function isAllowedWebhookIp(ip: string | undefined, allowlist: string[]): boolean {
+  if (!allowlist.length) {
+    return true
+  }
+  const address = ip ? normalizeIp(ip) : ''
+  const family = isIP(address)
+  if (!family) {
+    return false
+  }
+
+  const blockList = new BlockList()
+  for (const entry of allowlist.filter(isValidIpAllowlistEntry)) {
+    const [entryAddress, prefix] = entry.split('/')
+    const entryFamily = isIP(entryAddress) === 4 ? 'ipv4' : 'ipv6'
+    if (prefix === undefined) {
+      blockList.addAddress(entryAddress, entryFamily)
+    } else {
+      blockList.addSubnet(entryAddress, Number(prefix), entryFamily)
+    }
+  }
+  return blockList.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Counts a webhook request of an IP address and checks it against the limit per minute.
+ * A limit of 0 disables rate limiting.
+ *
+ * @returns False once the IP address made more requests this minute than allowed.
+ */
+export function consumeWebhookRateLimit(
+  ip: string | undefined,
+  limitPerMinute: number,
+  now: number = Date.now(),
+): boolean {
+  if (limitPerMinute <= 0) {
+    return true
+  }
+
+  // Windows that ended are dropped once a minute, so addresses that stopped calling don't pile up
+  if (now - lastRateLimitSweep >= RATE_LIMIT_WINDOW_MS) {
+    for (const [key, entry] of rateLimits) {
+      if (now - entry.windowStart >= RATE_LIMIT_WINDOW_MS) {
+        rateLimits.delete(key)
+      }
+    }
+    lastRateLimitSweep = now
+  }
+
+  const key = ip ? normalizeIp(ip) : 'unknown'
+  let entry = rateLimits.get(key)
+  if (!entry || now - entry.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    entry = { windowStart: now, count: 0 }
+    rateLimits.set(key, entry)
+  }
+  entry.count++
+
+  return entry.count <= limitPerMinute
+}
+
+/**
+ * Checks whether the `created` timestamp of a webhook event is at most the given number of
+ * minutes away from now, so old events can't be replayed. Without a window every event is
+ * accepted.
+ */
+export function isWithinWebhookWindow(
+  created: string | undefined,
+  windowMinutes: number | null | undefined,
+  now: number = Date.now(),
+): boolean {
+  if (!windowMinutes) {
+    return true
+  }
+  const createdAt = created ? Date.parse(created) : NaN
+  if (Number.isNaN(createdAt)) {
+    return false
+  }
+  return Math.abs(now - createdAt) <= windowMinutes * 60 * 1000
+}
+
+/**
+ * Counts a webhook request that passed the checks.
+ */
+export function recordWebhookAccepted(): void {
+  stats.accepted++
+}
+
+/**
+ * Counts a webhook request that was rejected.
+ */
+export function recordWebhookFailure(reason: WebhookFailureReason): void {
+  stats.failures[reason]++
+  stats.last_failure_at = new Date().toISOString()
+  stats.last_failure_reason = reason
+}
+
+/**
+ * Get the statistics of the webhook requests since the server process started.
+ */
+export function getWebhookStats(): WebhookStats {
+  return { ...stats, failures: { ...stats.failures } }
+}
@@ -0,0 +1,78 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { ContainerRegistrationKeys } from '@medusajs/framework/utils'
+
+import { DHL_SETTINGS_MODULE } from '../modules/setting'
+import DHLSettingsModuleService from '../modules/setting/service'
+import { applyPricingRules, PricingRulesResult } from '../utils/pricing-rules'
+
+type WorkflowInput = {
+  /**
+   * The DHL rate for the packed parcels.
+   */
+  amount: number
+  optionKey: string
+  countryCode: string
+  subtotal: number
+  customerId?: string | null
+}
+
+type CustomerWithGroups = {
+  id: string
+  groups?: { id: string }[] | null
+}
+
+/**
+ * Step to apply the pricing rules from the settings module to a DHL rate.
+ */
+const applyDHLPricingRules = createStep(
+  'apply-dhl-pricing-rules-to-rate',
+  async (input: WorkflowInput, { container }): Promise<StepResponse<PricingRulesResult>> => {
+    const dhlSettingService: DHLSettingsModuleService = container.resolve(DHL_SETTINGS_MODULE)
+    const rules = await dhlSettingService.listPricingRules()
+
+    if (!rules.length) {
+      return new StepResponse({ amount: input.amount, appliedRules: [] })
+    }
+
+    // Customer groups are only looked up when a rule is scoped to them
+    let customerGroupIds: string[] = []
+    if (input.customerId && rules.some((rule) => rule.customer_group_ids.length)) {
+      const query = container.resolve(ContainerRegistrationKeys.QUERY)
+      const { data: customers } = await query.graph({
+        entity: 'customer',
+        fields: ['id', 'groups.id'],
+        filters: { id: input.customerId },
+      })
+      customerGroupIds = ((customers[0] as CustomerWithGroups | undefined)?.groups ?? []).map(
+        (group) => group.id,
+      )
+    }
+
+    return new StepResponse(
+      applyPricingRules(input.amount, rules, {
+        optionKey: input.optionKey,
+        countryCode: input.countryCode,
+        subtotal: input.subtotal,
+        customerGroupIds,
+      }),
+    )
+  },
+)
+
+/**
+ * Workflow to adjust a DHL rate with the configured pricing rules.
+ */
+const applyPricingRulesWorkflow = createWorkflow(
+  'apply-dhl-pricing-rules',
+  (input: WorkflowInput): WorkflowResponse<PricingRulesResult> => {
+    const result = applyDHLPricingRules(input)
+    return new WorkflowResponse(result)
+  },
+)
+
+export default applyPricingRulesWorkflow
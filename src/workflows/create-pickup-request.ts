@@ -0,0 +1,132 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { IStockLocationService, Logger, StockLocationDTO } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { createPickupRequest, DHL_PICKUP_REQUEST_TYPE } from '../dhl-api/create-pickup-request'
+import { DHLPickupRequest } from '../dhl-api/types'
+import { parseAddress } from '../utils/parse-address'
+import { ShippingSchedule } from '../utils/shipment-date'
+import { countPickupParcelsStep, PickupParcels } from './get-pickup-parcels'
+
+type WorkflowInput = {
+  token: string
+  baseUrl: string
+  accountId: string
+  locationId: string
+  /**
+   * The pickup date as YYYY-MM-DD.
+   */
+  pickupDate: string
+  /**
+   * The time slot in which DHL picks up, as HH:mm. Only available in the Netherlands.
+   */
+  timeSlot?: { from: string; to: string } | null
+  /**
+   * The number of parcels to pick up. Defaults to the parcels that ship from the stock
+   * location on the pickup date.
+   */
+  numberOfPackages?: number | null
+  description?: string | null
+  shippingSchedule: ShippingSchedule
+  debug?: boolean
+  _logger?: Logger
+}
+
+export type CreatePickupRequestResult = {
+  pickup: DHLPickupRequest
+  parcels: PickupParcels
+}
+
+/**
+ * Step to book a DHL pickup at a stock location's address.
+ */
+const createDHLPickupRequest = createStep(
+  'book-dhl-pickup-request',
+  async (
+    { input, parcels }: { input: WorkflowInput; parcels: PickupParcels },
+    { container },
+  ): Promise<StepResponse<CreatePickupRequestResult>> => {
+    const numberOfPackages = input.numberOfPackages ?? parcels.count
+    if (numberOfPackages < 1) {
+      throw new Error(`No DHL parcels to pick up on ${input.pickupDate}`)
+    }
+
+    const stockLocationService = container.resolve<IStockLocationService>(Modules.STOCK_LOCATION)
+    const locations = await stockLocationService.listStockLocations(
+      { id: [input.locationId] },
+      {
+        relations: ['address'],
+      },
+    )
+
+    if (locations.length === 0) {
+      throw new Error('Location not found')
+    }
+
+    const location: StockLocationDTO = locations[0]
+    if (!location.address) {
+      throw new Error('Location address not found')
+    }
+
+    if (!location.address.country_code) {
+      throw new Error('Location address country code not found')
+    }
+
+    const locationParsed = parseAddress(location.address.address_1, location.address.country_code)
+
+    const pickup = await createPickupRequest(
+      input.baseUrl,
+      input.token,
+      {
+        accountId: input.accountId,
+        pickupDate: input.pickupDate,
+        numberOfPackages,
+        ...(input.description ? { description: input.description } : {}),
+        ...(input.timeSlot ? { timeSlot: input.timeSlot } : {}),
+        shipper: {
+          name: {
+            companyName: location.address.company || location.name || 'Warehouse',
+          },
+          ...(location.address.phone ? { phoneNumber: location.address.phone } : {}),
+          address: {
+            countryCode: location.address.country_code.toUpperCase(),
+            postalCode: location.address.postal_code ?? undefined,
+            city: location.address.city || '',
+            street: locationParsed.street,
+            number: locationParsed.number,
+            addition: locationParsed.addition,
+            additionalAddressLine: location.address.address_2 || '',
+            isBusiness: true,
+          },
+        },
+        type: DHL_PICKUP_REQUEST_TYPE,
+        provideLabels: false,
+      },
+      input.debug ? input._logger : undefined,
+    )
+
+    return new StepResponse({ pickup, parcels })
+  },
+)
+
+/**
+ * Workflow to book a DHL pickup for the parcels that ship from a stock location on a date.
+ */
+const createPickupRequestWorkflow = createWorkflow(
+  'create-dhl-pickup-request',
+  (input: WorkflowInput): WorkflowResponse<CreatePickupRequestResult> => {
+    const parcels = countPickupParcelsStep({
+      locationId: input.locationId,
+      pickupDate: input.pickupDate,
+      shippingSchedule: input.shippingSchedule,
+    })
+    const result = createDHLPickupRequest({ input, parcels })
+    return new WorkflowResponse(result)
+  },
+)
+
+export default createPickupRequestWorkflow
@@ -20,16 +20,59 @@ import {
   ShippingOptionDTO,
 } from '@medusajs/framework/types'
 import { calculateBestFulfillment } from '../dhl-api/calculate-best-fulfillment'
-import { Modules } from '@medusajs/framework/utils'
-import { DHLShipmentResponse, DHLShipmentPiece, DHLAddress } from '../dhl-api/types'
+import { MathBN, Modules } from '@medusajs/framework/utils'
+import {
+  DHLShipmentResponse,
+  DHLShipmentPiece,
+  DHLAddress,
+  DHLDraftData,
+  DHLServicePointData,
+  DHLShipmentExtras,
+  DHLTimeWindowData,
+  DHLEstimatedDelivery,
+  DHLCustomsDeclarationData,
+  DHLInsuredValueData,
+} from '../dhl-api/types'
 import { createShipment } from '../dhl-api/create-shipment'
+import { createDraft } from '../dhl-api/create-draft'
+import { createCustomsDeclaration } from '../dhl-api/create-customs-declaration'
+import { DHL_SERVICE_POINT_OPTION } from '../dhl-api/get-service-points'
+import { DHLExtraOption, getExtraOptions, validateExtraOptions } from '../dhl-api/extra-options'
+import { getShipmentOptions } from '../dhl-api/get-shipment-options'
+import { addInsurance } from '../dhl-api/insurance'
 import { getFulfillmentOptions } from '../dhl-api/get-fulfillment-options'
+import { getEstimatedDelivery } from '../dhl-api/get-transit-times'
+import { findTimeWindow, getTimeWindows, getTimeWindowOption } from '../dhl-api/get-time-windows'
+import { DHLLabelFormat } from '../dhl-api/label-format'
 import { extractAddressComponents, parseAddress } from '../utils/parse-address'
+import { ShippingSchedule } from '../utils/shipment-date'
+import { buildCustomsGoods, CustomsLineItem, requiresCustomsDeclaration } from '../utils/customs'
+import { formatOrderReference, getDeliveryInstructions } from '../utils/order-reference'
 import { v5 as uuidv5 } from 'uuid'
+import { uploadLabelFilesStep } from './upload-label-files'
 
 // DHL namespace UUID for generating deterministic shipment IDs
 const DHL_NAMESPACE = 'd7109c1b-2b80-400a-9aec-fff7dfdf5eb1'
 
+// DHL option that prints the order reference on the label
+const DHL_REFERENCE_OPTION = 'REFERENCE'
+
+type OrderWithShippingAddress = {
+  id: string
+  display_id?: number
+  email?: string | null
+  metadata?: Record<string, unknown> | null
+  shipping_address?: FulfillmentOrderDTO['shipping_address'] | null
+}
+
+type QueryGraph = {
+  graph: (args: {
+    entity: string
+    fields: string[]
+    filters: Record<string, unknown>
+  }) => Promise<{ data: OrderWithShippingAddress[] }>
+}
+
 type WorkflowInput = {
   token: string
   baseUrl: string
@@ -42,6 +85,34 @@ type WorkflowInput = {
   fulfillment: Partial<Omit<FulfillmentDTO, 'provider_id' | 'data' | 'items'>>
   dimensionUnitOfMeasure: 'mm' | 'cm'
   weightUnitOfMeasure: 'g' | 'kg'
+  /**
+   * Create a return label: the customer becomes the shipper and the stock location the receiver.
+   */
+  isReturn?: boolean
+  /**
+   * Create a DHL draft instead of a shipment. Labels are created once the draft is promoted.
+   */
+  useDrafts?: boolean
+  /**
+   * Minutes after which a draft is promoted automatically. Drafts without a delay are only promoted manually.
+   */
+  draftPromotionDelayMinutes?: number | null
+  /**
+   * The shop's cut-off time and non-shipping days, used to estimate the delivery date.
+   */
+  shippingSchedule?: ShippingSchedule
+  /**
+   * The file format and page size of the labels of the stock location that ships.
+   */
+  labelFormat?: DHLLabelFormat
+  /**
+   * Shipments whose items are worth more than this are insured for their value. Returns aren't insured.
+   */
+  insuranceThreshold?: number | null
+  /**
+   * Template of the order reference sent to DHL, e.g. `#{display_id}`.
+   */
+  referenceTemplate?: string
   debug?: boolean
   _logger?: Logger
 }
@@ -54,7 +125,17 @@ const createDHLShipment = createStep(
   async (
     input: WorkflowInput,
     { container },
-  ): Promise<StepResponse<{ labels: DHLShipmentResponse[] }>> => {
+  ): Promise<
+    StepResponse<{
+      labels: DHLShipmentResponse[]
+      draft?: DHLDraftData
+      estimatedDelivery?: DHLEstimatedDelivery
+      customsDeclaration?: DHLCustomsDeclarationData
+      insuredValue?: DHLInsuredValueData
+      orderReference: string
+      deliveryInstructions?: string
+    }>
+  > => {
     if (input.debug && input._logger) {
       input._logger?.log('DHL create fulfillment started')
     }
@@ -75,59 +156,173 @@ const createDHLShipment = createStep(
       input._logger?.log(`Shipping option carrier_key: ${carrierKey}`)
     }
 
+    // Return fulfillments are created without the order, so look it up through its line items
+    if (input.isReturn && !input.order) {
+      const lineItemIds = input.items
+        .map((item) => item.line_item_id)
+        .filter((id): id is string => !!id)
+
+      if (lineItemIds.length > 0) {
+        const query = container.resolve<QueryGraph>('query')
+        const { data: orders } = await query.graph({
+          entity: 'order',
+          fields: ['id', 'display_id', 'email', 'metadata', 'shipping_address.*'],
+          filters: {
+            items: {
+              item_id: lineItemIds,
+            },
+          },
+        })
+
+        if (orders.length > 0) {
+          input = { ...input, order: orders[0] as Partial<FulfillmentOrderDTO> }
+        }
+      }
+    }
+
     // Get variant data using Order and Product modules
     const orderService = container.resolve<IOrderModuleService>(Modules.ORDER)
     const productService = container.resolve<IProductModuleService>(Modules.PRODUCT)
 
-    // Get variant IDs from items
-    const variantIds = input.items
-      .map((item) => item.inventory_item_id)
-      .filter((id): id is string => id !== undefined)
-
-    // If we have variant IDs, fetch the variants directly
     let enrichedItems = input.items
-    if (variantIds.length > 0) {
-      // First, try to get order line items to find variant IDs
-      const lineItemIds = input.items
-        .map((item) => item.line_item_id)
-        .filter((id): id is string => id !== undefined)
+    // Line item values and variant customs data, declared for shipments that leave the EU
+    let customsItems: CustomsLineItem[] = []
+    let currencyCode: string | undefined
+    // The value of the fulfilled items, used to insure the shipment
+    let itemsValue = 0
+    // Items without an inventory item (and return fulfillment items, which don't carry one)
+    // still need their value and customs data, so every item is looked up in the order
+    const lineItemIds = input.items
+      .map((item) => item.line_item_id)
+      .filter((id): id is string => id !== undefined)
 
-      if (lineItemIds.length > 0 && input.order?.id) {
-        // Get order with line items
-        const order = await orderService.retrieveOrder(input.order.id, {
-          relations: ['items'],
-        })
+    if (lineItemIds.length > 0 && input.order?.id) {
+      // Get order with line items
+      const order = await orderService.retrieveOrder(input.order.id, {
+        relations: ['items'],
+      })
 
-        // Extract variant IDs from order items
-        const orderVariantIds =
-          order.items
-            ?.filter((item) => lineItemIds.includes(item.id))
-            .map((item) => item.variant_id)
-            .filter((id): id is string => id !== undefined) ?? []
-
-        if (orderVariantIds.length > 0) {
-          // Get variants from product service
-          const variants = await productService.listProductVariants(
-            { id: orderVariantIds },
-            { select: ['id', 'weight', 'height', 'width', 'length'] },
-          )
+      currencyCode = order.currency_code
+      itemsValue = input.items.reduce((sum, item) => {
+        const orderItem = order.items?.find((oi) => oi.id === item.line_item_id)
+        return orderItem
+          ? sum + MathBN.convert(orderItem.unit_price).toNumber() * Number(item.quantity)
+          : sum
+      }, 0)
+
+      // Extract variant IDs from order items
+      const orderVariantIds =
+        order.items
+          ?.filter((item) => lineItemIds.includes(item.id))
+          .map((item) => item.variant_id)
+          .filter((id): id is string => !!id) ?? []
+
+      // Get variants from product service
+      const variants =
+        orderVariantIds.length > 0
+          ? await productService.listProductVariants(
+              { id: orderVariantIds },
+              {
+                select: [
+                  'id',
+                  'title',
+                  'weight',
+                  'height',
+                  'width',
+                  'length',
+                  'hs_code',
+                  'origin_country',
+                ],
+              },
+            )
+          : []
+
+      // Enrich items with variant data
+      enrichedItems = input.items.map((item) => {
+        const orderItem = order.items?.find((oi) => oi.id === item.line_item_id)
+        const variant = variants.find((v) => v.id === orderItem?.variant_id)
+        return {
+          ...item,
+          variant: variant as ProductVariantDTO | undefined,
+        }
+      })
 
-          // Enrich items with variant data
-          enrichedItems = input.items.map((item) => {
-            const orderItem = order.items?.find((oi) => oi.id === item.line_item_id)
-            const variant = variants.find((v) => v.id === orderItem?.variant_id)
-            return {
-              ...item,
-              variant: variant as ProductVariantDTO | undefined,
-            }
-          })
+      // Items without a variant are declared too, so they're reported by name when they miss data
+      customsItems = input.items.map((item) => {
+        const orderItem = order.items?.find((oi) => oi.id === item.line_item_id)
+        const variant = variants.find((v) => v.id === orderItem?.variant_id)
+        return {
+          id: variant?.id ?? item.line_item_id ?? '',
+          title: orderItem?.product_title ?? orderItem?.title ?? item.title ?? '',
+          quantity: Number(item.quantity),
+          unitPrice: orderItem ? MathBN.convert(orderItem.unit_price).toNumber() : 0,
+          hsCode: variant?.hs_code,
+          originCountry: variant?.origin_country,
+          weightGrams:
+            variant?.weight != null
+              ? variant.weight * (input.weightUnitOfMeasure === 'kg' ? 1000 : 1)
+              : null,
         }
-      }
+      })
     }
 
     // Update input items with enriched variant data
     input = { ...input, items: enrichedItems }
 
+    const shipmentId = uuidv5(input.fulfillment.id ?? '', DHL_NAMESPACE)
+
+    // The reference matches parcels to orders, on the label and in DHL's track & trace
+    const orderReference = formatOrderReference(
+      input.referenceTemplate,
+      {
+        display_id: input.order?.display_id,
+        order_id: input.order?.id,
+        fulfillment_id: input.fulfillment.id,
+      },
+      String(input.order?.display_id ?? input.order?.id ?? shipmentId),
+    )
+    // DHL's shipment API has no field for delivery instructions, so they stay on the fulfillment
+    const deliveryInstructions = input.isReturn
+      ? undefined
+      : getDeliveryInstructions(input.order?.metadata)
+
+    // Add-ons of the shipping option, e.g. signature on delivery, and insurance for valuable shipments
+    const { options: shippingOptionExtras, insuredValue } = addInsurance(
+      getExtraOptions(shippingOption.data),
+      itemsValue,
+      input.isReturn ? null : input.insuranceThreshold,
+      currencyCode,
+    )
+
+    // The reference is printed on the label when the account offers it, unless the shipping
+    // option already adds it with an input of its own
+    const shipmentOptions = await getShipmentOptions(
+      input.token,
+      input.baseUrl,
+      input.accountNumber,
+      input.debug ? input._logger : undefined,
+    )
+    const referenceOptions: DHLExtraOption[] =
+      shipmentOptions.some((option) => option.key === DHL_REFERENCE_OPTION) &&
+      !shippingOptionExtras.some((option) => option.key === DHL_REFERENCE_OPTION)
+        ? [{ key: DHL_REFERENCE_OPTION, input: orderReference }]
+        : []
+    const extraOptions = [...shippingOptionExtras, ...referenceOptions]
+
+    const problems = validateExtraOptions(carrierKey, extraOptions, shipmentOptions)
+    if (problems.length > 0) {
+      throw new Error(`DHL create fulfillment failed: ${problems.join('; ')}`)
+    }
+
+    const insuredValueData: DHLInsuredValueData | undefined =
+      insuredValue !== undefined
+        ? { amount: insuredValue, currency_code: currencyCode ?? null }
+        : undefined
+
+    if (input.debug && input._logger && insuredValueData) {
+      input._logger?.log(`Insured value: ${JSON.stringify(insuredValueData)}`)
+    }
+
     const stockLocationService = container.resolve<IStockLocationService>(Modules.STOCK_LOCATION)
     const locations = await stockLocationService.listStockLocations(
       { id: [input.locationId] },
@@ -178,22 +373,48 @@ const createDHLShipment = createStep(
       input._logger?.log(`Recipient parsed: ${JSON.stringify(recipientParsed, null, 2)}`)
     }
 
-    const destinationAddress: DHLAddress = {
+    // Service point deliveries are addressed to the selected ParcelShop / Parcelstation
+    const servicePoint = input.data?.['service_point'] as DHLServicePointData | undefined
+    const isServicePointDelivery = !input.isReturn && carrierKey === DHL_SERVICE_POINT_OPTION
+    if (isServicePointDelivery && !servicePoint?.id) {
+      throw new Error('Service point not found for service point delivery')
+    }
+
+    if (input.debug && input._logger && isServicePointDelivery) {
+      input._logger?.log(`Service point: ${JSON.stringify(servicePoint, null, 2)}`)
+    }
+
+    const customerAddress: DHLAddress = {
       name: {
         companyName: recipient.company,
         firstName: recipient.first_name,
         lastName: recipient.last_name,
       },
-      address: {
-        countryCode: recipient.country_code,
-        postalCode: recipient.postal_code,
-        city: recipient.city || '',
-        number: recipientParsed.number,
-        addition: recipientParsed.addition,
-        additionalAddressLine: recipient.address_2 || '',
-        street: recipientParsed.street,
-        isBusiness: recipient.company !== undefined && recipient.company !== '' ? true : false,
-      },
+      address:
+        isServicePointDelivery && servicePoint
+          ? {
+              countryCode: servicePoint.address.countryCode,
+              postalCode: servicePoint.address.zipCode,
+              city: servicePoint.address.city,
+              number: servicePoint.address.number,
+              addition: servicePoint.address.addition ?? '',
+              street: servicePoint.address.street,
+              isBusiness: false,
+            }
+          : {
+              countryCode: recipient.country_code,
+              postalCode: recipient.postal_code,
+              city: recipient.city || '',
+              number: recipientParsed.number,
+              addition: recipientParsed.addition,
+              additionalAddressLine: recipient.address_2 || '',
+              street: recipientParsed.street,
+              isBusiness:
+                recipient.company !== undefined && recipient.company !== '' ? true : false,
+            },
+      // DHL notifies the customer about the delivery by email and text message
+      ...(input.order?.email ? { email: input.order.email } : {}),
+      ...(recipient.phone ? { phoneNumber: recipient.phone } : {}),
     }
 
     // Extract structured address components from stock location
@@ -204,7 +425,7 @@ const createDHLShipment = createStep(
       input._logger?.log(`Location parsed: ${JSON.stringify(locationParsed, null, 2)}`)
     }
 
-    const originAddress: DHLAddress = {
+    const locationAddress: DHLAddress = {
       name: {
         companyName: location.name || 'Warehouse',
       },
@@ -216,22 +437,69 @@ const createDHLShipment = createStep(
         addition: locationParsed.addition,
         additionalAddressLine: location.address.address_2 || '',
         street: locationParsed.street,
+        ...(input.isReturn ? { isBusiness: true } : {}),
       },
     }
 
+    // For returns the parcel travels from the customer back to the stock location
+    const originAddress = input.isReturn ? customerAddress : locationAddress
+    const destinationAddress = input.isReturn ? locationAddress : customerAddress
+    const toBusiness = input.isReturn
+      ? true
+      : recipient.company !== undefined && recipient.company !== ''
+
     if (input.debug && input._logger) {
       input._logger?.log(`Origin Address : ${JSON.stringify(originAddress, null, 2)}`)
       input._logger?.log(`Destination Address : ${JSON.stringify(destinationAddress, null, 2)}`)
     }
 
+    // The selected delivery time window is booked with its DHL option and the delivery date
+    // and times as input, as long as DHL still offers the window
+    const timeWindow = input.isReturn
+      ? undefined
+      : (input.data?.['time_window'] as DHLTimeWindowData | undefined)
+    let timeWindowOption: DHLExtraOption | undefined
+    if (timeWindow) {
+      const timeWindows = await getTimeWindows(
+        input.baseUrl,
+        destinationAddress.address.countryCode ?? '',
+        destinationAddress.address.postalCode ?? '',
+        input.debug ? input._logger : undefined,
+      )
+      const match = findTimeWindow(timeWindows, timeWindow)
+      if (!match) {
+        throw new Error(
+          `DHL create fulfillment failed: delivery time window ${timeWindow.delivery_date} ${timeWindow.start_time}-${timeWindow.end_time} is no longer offered`,
+        )
+      }
+      timeWindowOption = getTimeWindowOption({ ...timeWindow, option: match.option }, carrierKey)
+      if (
+        timeWindowOption.key !== carrierKey &&
+        !shipmentOptions.some((option) => option.key === timeWindowOption?.key)
+      ) {
+        throw new Error(
+          `DHL create fulfillment failed: ${timeWindowOption.key} is not a DHL shipment option of this account`,
+        )
+      }
+    }
+
+    if (input.debug && input._logger && timeWindowOption) {
+      input._logger?.log(`Delivery time window option: ${JSON.stringify(timeWindowOption)}`)
+    }
+
     const shippingOptions = await getFulfillmentOptions(
       input.token,
       input.baseUrl,
       input.accountNumber,
       originAddress,
       destinationAddress,
-      recipient.company !== undefined && recipient.company !== '' ? true : false,
-      [carrierKey],
+      toBusiness,
+      [
+        carrierKey,
+        ...extraOptions.map((option) => option.key),
+        ...(timeWindowOption && timeWindowOption.key !== carrierKey ? [timeWindowOption.key] : []),
+      ],
+      !!input.isReturn,
       input.debug ? input._logger : undefined,
     )
 
@@ -295,19 +563,193 @@ const createDHLShipment = createStep(
       }
     })
 
-    const shipment = await createShipment(
-      input.baseUrl,
-      input.token,
-      input.accountNumber,
-      uuidv5(input.fulfillment.id ?? '', DHL_NAMESPACE),
-      originAddress,
-      destinationAddress,
-      pieces,
-      carrierKey,
-      input.debug ? input._logger : undefined,
-    )
+    // The promised delivery date is informational, so a failing estimate doesn't block the shipment
+    let estimatedDelivery: DHLEstimatedDelivery | undefined
+    if (!input.isReturn && input.shippingSchedule) {
+      try {
+        estimatedDelivery = await getEstimatedDelivery(
+          input.baseUrl,
+          {
+            countryCode: originAddress.address.countryCode ?? '',
+            postalCode: originAddress.address.postalCode ?? '',
+          },
+          {
+            countryCode: destinationAddress.address.countryCode ?? '',
+            postalCode: destinationAddress.address.postalCode ?? '',
+          },
+          toBusiness,
+          input.shippingSchedule,
+          input.debug ? input._logger : undefined,
+        )
+      } catch (error) {
+        input._logger?.warn(
+          `DHL delivery date estimate failed: ${error instanceof Error ? error.message : String(error)}`,
+        )
+      }
+    }
+
+    const shipmentExtras: DHLShipmentExtras = { orderReference }
+    if (input.isReturn) {
+      // Return labels need DHL's return product, as offered by the capabilities for the parcels
+      const returnProduct = shippingOptions.find(
+        (option) => option.parcelType.key === pieces[0]?.parcelType && option.product.returnProduct,
+      )?.product.key
+      if (!returnProduct) {
+        throw new Error('DHL create return failed: no DHL return product found for the parcels')
+      }
+      shipmentExtras.returnLabel = true
+      shipmentExtras.product = returnProduct
+    }
+    if (isServicePointDelivery && servicePoint) {
+      shipmentExtras.options = [{ key: carrierKey, input: servicePoint.id }]
+    }
+    if (extraOptions.length) {
+      shipmentExtras.options = [...(shipmentExtras.options ?? []), ...extraOptions]
+    }
 
-    return new StepResponse({ labels: shipment })
+    // The time window option replaces the plain carrier option for regular daytime delivery
+    if (timeWindowOption) {
+      shipmentExtras.options = [
+        ...(shipmentExtras.options ?? []).filter((option) => option.key !== timeWindowOption.key),
+        timeWindowOption,
+      ]
+    }
+
+    // Shipments that cross the EU customs border need a customs declaration of their goods.
+    // DHL links the declaration to the shipment through the order reference.
+    let customsDeclaration: DHLCustomsDeclarationData | undefined
+    if (
+      requiresCustomsDeclaration(
+        originAddress.address.countryCode,
+        destinationAddress.address.countryCode,
+      )
+    ) {
+      const customsGoods = buildCustomsGoods(customsItems)
+      const product = shippingOptions.find(
+        (option) => option.parcelType.key === pieces[0]?.parcelType,
+      )?.product.key
+      if (!product) {
+        throw new Error('Customs declaration failed: no DHL product found for the parcels')
+      }
+
+      const declarationId = uuidv5(`${input.fulfillment.id ?? ''}:customs`, DHL_NAMESPACE)
+      const toCustomsParty = (party: DHLAddress) => ({
+        name: {
+          firstName: party.name.firstName,
+          lastName: party.name.lastName,
+          companyName: party.name.companyName,
+        },
+        address: {
+          countryCode: party.address.countryCode ?? '',
+          postalCode: party.address.postalCode,
+          city: party.address.city ?? '',
+          street: party.address.street ?? '',
+          number: party.address.number,
+          addition: party.address.addition,
+          additionalAddressLine: party.address.additionalAddressLine,
+          isBusiness: party.address.isBusiness ?? false,
+        },
+        ...(party.email ? { email: party.email } : {}),
+        ...(party.phoneNumber ? { phoneNumber: party.phoneNumber } : {}),
+      })
+
+      const declaration = await createCustomsDeclaration(
+        input.baseUrl,
+        input.token,
+        {
+          id: declarationId,
+          accountId: input.accountNumber,
+          orderReference,
+          createDocuments: true,
+          shipper: toCustomsParty(originAddress),
+          receiver: toCustomsParty(destinationAddress),
+          product,
+          currency: currencyCode?.toUpperCase(),
+          invoiceNumber: orderReference,
+          exportType: input.isReturn ? 'Return' : 'Permanent',
+          exportReason: input.isReturn ? 'ReturnedGoods' : 'SaleOfGoods',
+          customsGoods,
+          pieceCount: pieces.reduce((sum, piece) => sum + (piece.quantity ?? 1), 0),
+        },
+        input.debug ? input._logger : undefined,
+      )
+
+      customsDeclaration = {
+        id: declarationId,
+        order_reference: orderReference,
+        attachments: declaration.generatedAttachments ?? [],
+      }
+    }
+
+    try {
+      if (input.useDrafts && !input.isReturn) {
+        const draftId = await createDraft(
+          input.baseUrl,
+          input.token,
+          input.accountNumber,
+          shipmentId,
+          originAddress,
+          destinationAddress,
+          pieces,
+          carrierKey,
+          shipmentExtras,
+          input.debug ? input._logger : undefined,
+        )
+
+        const delay = input.draftPromotionDelayMinutes
+        return new StepResponse({
+          labels: [],
+          estimatedDelivery,
+          customsDeclaration,
+          insuredValue: insuredValueData,
+          orderReference,
+          deliveryInstructions,
+          draft: {
+            id: draftId,
+            status: 'draft',
+            location_id: input.locationId,
+            promote_after:
+              typeof delay === 'number'
+                ? new Date(Date.now() + delay * 60 * 1000).toISOString()
+                : null,
+          },
+        })
+      }
+
+      const shipment = await createShipment(
+        input.baseUrl,
+        input.token,
+        input.accountNumber,
+        shipmentId,
+        originAddress,
+        destinationAddress,
+        pieces,
+        carrierKey,
+        shipmentExtras,
+        input.labelFormat,
+        input.debug ? input._logger : undefined,
+      )
+
+      return new StepResponse({
+        labels: shipment,
+        estimatedDelivery,
+        customsDeclaration,
+        insuredValue: insuredValueData,
+        orderReference,
+        deliveryInstructions,
+      })
+    } catch (error) {
+      // DHL's API can't withdraw a customs declaration, so one that was submitted for a shipment
+      // that failed is reported. Retries submit it again with the same ID.
+      if (customsDeclaration) {
+        container
+          .resolve<Logger>('logger')
+          .warn(
+            `DHL customs declaration ${customsDeclaration.id} (${orderReference}) was submitted, but the shipment wasn't created`,
+          )
+      }
+      throw error
+    }
   },
 )
 
@@ -318,21 +760,59 @@ const createShipmentWorkflow = createWorkflow(
   'create-dhl-shipment-and-label',
   (input: WorkflowInput): WorkflowResponse<{ shipment: CreateFulfillmentResult }> => {
     // Items already have variant data enriched from the service
-    const { labels } = createDHLShipment(input)
-
-    const fulfillmentResponse = transform({ labels }, (data) => {
-      return {
-        labels: (data.labels ?? []).map((label) => ({
-          tracking_url: label.trackingUrl,
-          label_url: label.label,
-          tracking_number: label.trackingNumber,
-          parcel_type: label.parcelType,
-        })),
-        data: {
-          labels: data.labels,
-        },
-      } as CreateFulfillmentResult
-    })
+    const {
+      labels: downloadedLabels,
+      draft,
+      estimatedDelivery,
+      customsDeclaration,
+      insuredValue,
+      orderReference,
+      deliveryInstructions,
+    } = createDHLShipment(input)
+
+    // Only the label metadata is kept on the fulfillment, the labels themselves become files
+    const labels = uploadLabelFilesStep({ labels: downloadedLabels })
+
+    const fulfillmentResponse = transform(
+      {
+        labels,
+        draft,
+        estimatedDelivery,
+        customsDeclaration,
+        insuredValue,
+        orderReference,
+        deliveryInstructions,
+        methodData: input.data,
+        isReturn: input.isReturn,
+      },
+      (data) => {
+        return {
+          labels: (data.labels ?? []).map((label) => ({
+            tracking_url: label.trackingUrl,
+            label_url: label.fileUrl,
+            tracking_number: label.trackingNumber,
+            parcel_type: label.parcelType,
+          })),
+          data: {
+            // Keep the selections made at checkout (service point, time window) next to the labels
+            ...(data.methodData ?? {}),
+            labels: data.labels,
+            ...(data.draft ? { draft: data.draft } : {}),
+            ...(data.estimatedDelivery ? { estimated_delivery: data.estimatedDelivery } : {}),
+            ...(data.customsDeclaration ? { customs_declaration: data.customsDeclaration } : {}),
+            // Kept for insurance claims
+            ...(data.insuredValue ? { insured_value: data.insuredValue } : {}),
+            // Kept so the fulfillment can be found by the reference on the parcel
+            order_reference: data.orderReference,
+            ...(data.deliveryInstructions
+              ? { delivery_instructions: data.deliveryInstructions }
+              : {}),
+            // Return parcels are handed in by the customer, so they aren't picked up
+            ...(data.isReturn ? { is_return: true } : {}),
+          },
+        } as CreateFulfillmentResult
+      },
+    )
 
     return new WorkflowResponse({
       shipment: fulfillmentResponse,
@@ -7,10 +7,17 @@ import {
 import { FulfillmentDTO, IFulfillmentModuleService, Logger } from '@medusajs/framework/types'
 import { Modules } from '@medusajs/framework/utils'
 import { getShipmentStatusesByTrackerCodes } from '../dhl-api/get-shipment-statuses-by-tracker-codes'
+import { getAuthToken } from '../dhl-api/token-manager'
 import { DHLShipmentStatusResponse } from '../dhl-api/types'
+import { DHL_SETTINGS_MODULE } from '../modules/setting'
+import DHLSettingsModuleService from '../modules/setting/service'
 import updateFulfillmentStatusWorkflow from './update-fulfillment-status'
 
 type WorkflowInput<T extends object> = T & {
+  /**
+   * The access token of the default DHL account, used when a stock location's credentials
+   * are incomplete.
+   */
   token: string
   baseUrl: string
   limit: number
@@ -85,21 +92,64 @@ const fetchMedusaFulfillments = createStep(
   },
 )
 
+/**
+ * Step to fetch the DHL shipment statuses, using the DHL account of each fulfillment's stock location.
+ */
 const fetchDhlShipmentStatus = createStep(
   'sync-dhl-shipment-status--fetch-dhl-shipment-status',
   async (
-    input: WorkflowInput<{ trackerCodes: string[] }>,
+    input: WorkflowInput<{ fulfillments: FulfillmentDTO[]; trackerCodes: string[] }>,
+    { container },
   ): Promise<StepResponse<{ shipmentStatuses: DHLShipmentStatusResponse[] }>> => {
     if (!input.trackerCodes.length) {
       return new StepResponse({ shipmentStatuses: [] })
     }
 
-    const shipmentStatuses = await getShipmentStatusesByTrackerCodes(
-      input.baseUrl,
-      input.token,
-      input.trackerCodes,
-      input.debug ? input._logger : undefined,
-    )
+    // Each stock location's credentials are resolved once, like everywhere else
+    const dhlSettingService: DHLSettingsModuleService = container.resolve(DHL_SETTINGS_MODULE)
+    const locationTokens = new Map<string, string>()
+    const getLocationToken = async (locationId: string): Promise<string> => {
+      const cached = locationTokens.get(locationId)
+      if (cached) {
+        return cached
+      }
+      const credentials = await dhlSettingService.getCredentials(locationId)
+      const token =
+        credentials?.user_id && credentials.api_key && credentials.account_id
+          ? await getAuthToken(
+              input.baseUrl,
+              credentials.user_id,
+              credentials.api_key,
+              credentials.account_id,
+            )
+          : input.token
+      locationTokens.set(locationId, token)
+      return token
+    }
+
+    const trackerCodesByToken = new Map<string, string[]>()
+    for (const fulfillment of input.fulfillments) {
+      const token = await getLocationToken(fulfillment.location_id)
+      const trackerCodes = trackerCodesByToken.get(token) ?? []
+      trackerCodes.push(...fulfillment.labels.map((label) => label.tracking_number))
+      trackerCodesByToken.set(token, trackerCodes)
+    }
+
+    const shipmentStatuses: DHLShipmentStatusResponse[] = []
+    for (const [token, trackerCodes] of trackerCodesByToken) {
+      if (!trackerCodes.length) {
+        continue
+      }
+
+      shipmentStatuses.push(
+        ...(await getShipmentStatusesByTrackerCodes(
+          input.baseUrl,
+          token,
+          trackerCodes,
+          input.debug ? input._logger : undefined,
+        )),
+      )
+    }
 
     if (input.debug && input._logger) {
       input._logger?.debug(`Shipment status response: ${JSON.stringify(shipmentStatuses, null, 2)}`)
@@ -149,7 +199,7 @@ const cronSyncShipmentStatusWorkflow = createWorkflow(
   (input: WorkflowInput<object>): WorkflowResponse<{ synced: number }> => {
     const { fulfillments, trackerCodes } = fetchMedusaFulfillments(input)
 
-    const { shipmentStatuses } = fetchDhlShipmentStatus({ ...input, trackerCodes })
+    const { shipmentStatuses } = fetchDhlShipmentStatus({ ...input, fulfillments, trackerCodes })
 
     const { synced } = updateMedusaFulfillmentsFromDhl({
       ...input,
@@ -0,0 +1,102 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { IFileModuleService, IFulfillmentModuleService } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { DHLLabelData } from '../dhl-api/types'
+
+type WorkflowInput = {
+  /**
+   * The number of days after delivery that label files are kept.
+   */
+  retentionDays: number
+  /**
+   * The number of fulfillments that are loaded at a time.
+   */
+  batchSize?: number
+}
+
+type WorkflowOutput = {
+  fulfillments: number
+  files: number
+}
+
+const DEFAULT_BATCH_SIZE = 100
+
+/**
+ * Step to delete the label files of DHL fulfillments that were delivered before the retention period.
+ * The label metadata stays on the fulfillment, so tracking keeps working.
+ */
+const deleteExpiredLabelFiles = createStep(
+  'delete-dhl-label-files',
+  async (input: WorkflowInput, { container }): Promise<StepResponse<WorkflowOutput>> => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    const fileService = container.resolve<IFileModuleService>(Modules.FILE)
+    const batchSize = Math.max(1, input.batchSize ?? DEFAULT_BATCH_SIZE)
+    const deliveredBefore = new Date(
+      Date.now() - input.retentionDays * 24 * 60 * 60 * 1000,
+    ).toISOString()
+
+    const result: WorkflowOutput = { fulfillments: 0, files: 0 }
+    for (let skip = 0; ; skip += batchSize) {
+      const fulfillments = await fulfillmentService.listFulfillments(
+        { provider_id: 'dhl', delivered_at: { $lt: deliveredBefore } },
+        { select: ['id', 'data'], relations: ['labels'], take: batchSize, skip },
+      )
+
+      for (const fulfillment of fulfillments) {
+        const dataLabels = (fulfillment.data?.labels ?? []) as Partial<DHLLabelData>[]
+        const fileIds = dataLabels
+          .map((label) => label.fileId)
+          .filter((fileId): fileId is string => !!fileId)
+        if (!fileIds.length) {
+          continue
+        }
+
+        await fileService.deleteFiles(fileIds)
+        await fulfillmentService.updateFulfillment(fulfillment.id, {
+          labels: (fulfillment.labels ?? []).map((label) => ({
+            id: label.id,
+            tracking_number: label.tracking_number,
+            tracking_url: label.tracking_url,
+            label_url: '',
+          })),
+          data: {
+            ...(fulfillment.data ?? {}),
+            labels: dataLabels.map((label) => ({
+              ...label,
+              fileId: undefined,
+              fileUrl: undefined,
+            })),
+            label_files_deleted_at: new Date().toISOString(),
+          },
+        })
+
+        result.fulfillments += 1
+        result.files += fileIds.length
+      }
+
+      if (fulfillments.length < batchSize) {
+        break
+      }
+    }
+
+    return new StepResponse(result)
+  },
+)
+
+/**
+ * Workflow to delete the label files of DHL fulfillments that were delivered long ago.
+ */
+const deleteExpiredLabelFilesWorkflow = createWorkflow(
+  'delete-expired-dhl-label-files',
+  (input: WorkflowInput): WorkflowResponse<WorkflowOutput> => {
+    const result = deleteExpiredLabelFiles(input)
+    return new WorkflowResponse(result)
+  },
+)
+
+export default deleteExpiredLabelFilesWorkflow
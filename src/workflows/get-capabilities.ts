@@ -0,0 +1,80 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { ICacheService, Logger } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { getCachedCapabilities } from '../dhl-api/capabilities-cache'
+import { getFulfillmentOptions } from '../dhl-api/get-fulfillment-options'
+import { DHLCapability, DHLFulfillmentOptionAddress } from '../dhl-api/types'
+
+type WorkflowInput = {
+  token: string
+  baseUrl: string
+  accountNumber: string
+  sender: DHLFulfillmentOptionAddress
+  receiver: DHLFulfillmentOptionAddress
+  toBusiness: boolean
+  options: string[]
+  /**
+   * How long the capabilities are cached, in seconds. 0 disables caching.
+   */
+  ttlSeconds: number
+  debug?: boolean
+  _logger?: Logger
+}
+
+/**
+ * Step to get the DHL capabilities through the capabilities cache.
+ * Medusa's caching module is used when it's registered.
+ */
+const getDHLCapabilities = createStep(
+  'get-dhl-cached-capabilities',
+  async (input: WorkflowInput, { container }): Promise<StepResponse<DHLCapability[]>> => {
+    const cacheService = container.resolve<ICacheService | undefined>(Modules.CACHE, {
+      allowUnregistered: true,
+    })
+
+    const capabilities = await getCachedCapabilities(
+      {
+        baseUrl: input.baseUrl,
+        accountNumber: input.accountNumber,
+        sender: input.sender,
+        receiver: input.receiver,
+        toBusiness: input.toBusiness,
+        options: input.options,
+      },
+      input.ttlSeconds,
+      () =>
+        getFulfillmentOptions(
+          input.token,
+          input.baseUrl,
+          input.accountNumber,
+          input.sender,
+          input.receiver,
+          input.toBusiness,
+          input.options,
+          false,
+          input.debug ? input._logger : undefined,
+        ),
+      cacheService,
+    )
+
+    return new StepResponse(capabilities)
+  },
+)
+
+/**
+ * Workflow to get the DHL capabilities for an origin/destination pair, cached for a short time.
+ */
+const getCapabilitiesWorkflow = createWorkflow(
+  'get-dhl-capabilities',
+  (input: WorkflowInput): WorkflowResponse<DHLCapability[]> => {
+    const capabilities = getDHLCapabilities(input)
+    return new WorkflowResponse(capabilities)
+  },
+)
+
+export default getCapabilitiesWorkflow
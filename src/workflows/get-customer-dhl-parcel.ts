@@ -0,0 +1,115 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+
+type WorkflowInput = {
+  orderId: string
+  /**
+   * The logged-in customer, who has to own the order.
+   */
+  customerId: string
+  trackerCode: string
+}
+
+export type CustomerDhlParcel = {
+  fulfillmentId: string
+  locationId: string
+  trackerCode: string
+  postalCode: string
+}
+
+type OrderWithFulfillments = {
+  id: string
+  customer_id?: string | null
+  shipping_address?: { postal_code?: string | null } | null
+  fulfillments?:
+    | {
+        id: string
+        provider_id?: string | null
+        location_id: string
+        canceled_at?: string | Date | null
+        delivered_at?: string | Date | null
+        labels?: { tracking_number: string }[] | null
+      }[]
+    | null
+}
+
+/**
+ * Step to find the DHL parcel of a customer's order by its tracker code.
+ *
+ * Orders of other customers are reported as not found, so tracker codes can't be probed.
+ * Parcels that are delivered or canceled can't be changed anymore.
+ */
+const findCustomerDhlParcel = createStep(
+  'find-customer-dhl-parcel',
+  async (input: WorkflowInput, { container }): Promise<StepResponse<CustomerDhlParcel>> => {
+    const query = container.resolve('query') as {
+      graph: (args: {
+        entity: string
+        fields: string[]
+        filters: Record<string, unknown>
+      }) => Promise<{ data: OrderWithFulfillments[] }>
+    }
+
+    const { data: orders } = await query.graph({
+      entity: 'order',
+      fields: [
+        'id',
+        'customer_id',
+        'shipping_address.postal_code',
+        'fulfillments.id',
+        'fulfillments.provider_id',
+        'fulfillments.location_id',
+        'fulfillments.canceled_at',
+        'fulfillments.delivered_at',
+        'fulfillments.labels.tracking_number',
+      ],
+      filters: { id: input.orderId },
+    })
+
+    const order = orders[0]
+    if (!order || order.customer_id !== input.customerId) {
+      throw new Error(`Order ${input.orderId} not found`)
+    }
+
+    const fulfillment = (order.fulfillments ?? []).find(
+      (f) =>
+        f.provider_id === 'dhl' &&
+        (f.labels ?? []).some((label) => label.tracking_number === input.trackerCode),
+    )
+    if (!fulfillment) {
+      throw new Error(`Order ${input.orderId} has no DHL parcel ${input.trackerCode}`)
+    }
+    if (fulfillment.canceled_at || fulfillment.delivered_at) {
+      throw new Error(`Parcel ${input.trackerCode} can't be changed anymore`)
+    }
+
+    const postalCode = order.shipping_address?.postal_code
+    if (!postalCode) {
+      throw new Error(`Order ${input.orderId} has no shipping address postal code`)
+    }
+
+    return new StepResponse({
+      fulfillmentId: fulfillment.id,
+      locationId: fulfillment.location_id,
+      trackerCode: input.trackerCode,
+      postalCode,
+    })
+  },
+)
+
+/**
+ * Workflow to look up a DHL parcel of an order for the customer who placed it.
+ */
+const getCustomerDhlParcelWorkflow = createWorkflow(
+  'get-customer-dhl-parcel',
+  (input: WorkflowInput): WorkflowResponse<CustomerDhlParcel> => {
+    const parcel = findCustomerDhlParcel(input)
+    return new WorkflowResponse(parcel)
+  },
+)
+
+export default getCustomerDhlParcelWorkflow
@@ -0,0 +1,50 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+
+import { DHL_SETTINGS_MODULE } from '../modules/setting'
+import { SetupCredentialsInput } from '../api/admin/dhl/route'
+import DHLSettingsModuleService from '../modules/setting/service'
+
+type WorkflowInput = {
+  credentials: SetupCredentialsInput
+  location_id: string
+}
+
+/**
+ * Apply the DHL account and label format of a stock location from the settings module.
+ * @returns StepResponse<SetupCredentialsInput>
+ */
+const getLocationCredentials = createStep(
+  'get-dhl-database-location-credentials',
+  async (input: WorkflowInput, { container }): Promise<StepResponse<SetupCredentialsInput>> => {
+    try {
+      const dhlSettingService: DHLSettingsModuleService = container.resolve(DHL_SETTINGS_MODULE)
+      const result = await dhlSettingService.applyLocationCredentials(
+        input.credentials,
+        input.location_id,
+      )
+      return new StepResponse(result)
+    } catch (error) {
+      console.error('Error getting DHL credentials for stock location from database:', error)
+      return new StepResponse(input.credentials)
+    }
+  },
+)
+
+/**
+ * Create the workflow for getting the DHL credentials of a stock location.
+ * @returns WorkflowResponse<SetupCredentialsInput>
+ */
+const getLocationCredentialsWorkflow = createWorkflow(
+  'get-dhl-location-credentials',
+  (input: WorkflowInput) => {
+    const credentials = getLocationCredentials(input)
+    return new WorkflowResponse(credentials)
+  },
+)
+
+export default getLocationCredentialsWorkflow
@@ -0,0 +1,95 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { IFulfillmentModuleService } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { DHLDraftData, DHLEstimatedDelivery } from '../dhl-api/types'
+import { getShipmentDate, ShippingSchedule } from '../utils/shipment-date'
+
+type WorkflowInput = {
+  locationId: string
+  /**
+   * The pickup date as YYYY-MM-DD.
+   */
+  pickupDate: string
+  shippingSchedule: ShippingSchedule
+}
+
+export type PickupParcels = {
+  /**
+   * The number of parcels that are handed to DHL on the pickup date.
+   */
+  count: number
+  fulfillmentIds: string[]
+}
+
+const PAGE_SIZE = 100
+
+/**
+ * Step to count the labelled DHL parcels of a stock location that ship on a date.
+ *
+ * Unshipped, uncancelled DHL fulfillments count with one parcel per label. The shipment date
+ * stored with the delivery estimate is used, or else the date worked out from the shipping
+ * schedule and the time the fulfillment was created. Returns and drafts that haven't been
+ * promoted are left out.
+ */
+export const countPickupParcelsStep = createStep(
+  'count-dhl-pickup-parcels',
+  async (input: WorkflowInput, { container }): Promise<StepResponse<PickupParcels>> => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+
+    const result: PickupParcels = { count: 0, fulfillmentIds: [] }
+    for (let skip = 0; ; skip += PAGE_SIZE) {
+      const fulfillments = await fulfillmentService.listFulfillments(
+        {
+          provider_id: 'dhl',
+          location_id: input.locationId,
+          canceled_at: { $eq: null },
+          shipped_at: { $eq: null },
+        },
+        { select: ['id', 'data', 'created_at'], take: PAGE_SIZE, skip },
+      )
+
+      for (const fulfillment of fulfillments) {
+        const data = fulfillment.data ?? {}
+        const labels = Array.isArray(data.labels) ? data.labels : []
+        const draft = data.draft as DHLDraftData | undefined
+        if (!labels.length || data.is_return || draft?.status === 'draft') {
+          continue
+        }
+
+        const shipmentDate =
+          (data.estimated_delivery as DHLEstimatedDelivery | undefined)?.shipment_date ??
+          getShipmentDate(new Date(fulfillment.created_at), input.shippingSchedule)
+        if (shipmentDate !== input.pickupDate) {
+          continue
+        }
+
+        result.count += labels.length
+        result.fulfillmentIds.push(fulfillment.id)
+      }
+
+      if (fulfillments.length < PAGE_SIZE) {
+        break
+      }
+    }
+
+    return new StepResponse(result)
+  },
+)
+
+/**
+ * Workflow to work out how many DHL parcels a pickup at a stock location has to collect.
+ */
+const getPickupParcelsWorkflow = createWorkflow(
+  'get-dhl-pickup-parcels',
+  (input: WorkflowInput): WorkflowResponse<PickupParcels> => {
+    const parcels = countPickupParcelsStep(input)
+    return new WorkflowResponse(parcels)
+  },
+)
+
+export default getPickupParcelsWorkflow
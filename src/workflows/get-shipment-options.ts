@@ -0,0 +1,64 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { ICacheService, Logger } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { getCachedShipmentOptions } from '../dhl-api/capabilities-cache'
+import { getShipmentOptions } from '../dhl-api/get-shipment-options'
+import { DHLShipmentOption } from '../dhl-api/types'
+
+type WorkflowInput = {
+  token: string
+  baseUrl: string
+  accountNumber: string
+  /**
+   * How long the shipment options are cached, in seconds. 0 disables caching.
+   */
+  ttlSeconds: number
+  debug?: boolean
+  _logger?: Logger
+}
+
+/**
+ * Step to get the DHL shipment options of the account through the capabilities cache.
+ * Medusa's caching module is used when it's registered.
+ */
+const getDHLShipmentOptions = createStep(
+  'get-dhl-cached-shipment-options',
+  async (input: WorkflowInput, { container }): Promise<StepResponse<DHLShipmentOption[]>> => {
+    const cacheService = container.resolve<ICacheService | undefined>(Modules.CACHE, {
+      allowUnregistered: true,
+    })
+
+    const shipmentOptions = await getCachedShipmentOptions(
+      { baseUrl: input.baseUrl, accountNumber: input.accountNumber },
+      input.ttlSeconds,
+      () =>
+        getShipmentOptions(
+          input.token,
+          input.baseUrl,
+          input.accountNumber,
+          input.debug ? input._logger : undefined,
+        ),
+      cacheService,
+    )
+
+    return new StepResponse(shipmentOptions)
+  },
+)
+
+/**
+ * Workflow to get the DHL shipment options of an account, cached for a short time.
+ */
+const getShipmentOptionsWorkflow = createWorkflow(
+  'get-dhl-shipment-options',
+  (input: WorkflowInput): WorkflowResponse<DHLShipmentOption[]> => {
+    const shipmentOptions = getDHLShipmentOptions(input)
+    return new WorkflowResponse(shipmentOptions)
+  },
+)
+
+export default getShipmentOptionsWorkflow
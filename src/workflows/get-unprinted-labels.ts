@@ -0,0 +1,133 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { IFulfillmentModuleService } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { DHLLabelData } from '../dhl-api/types'
+import { DHLLabelFileFormat } from '../dhl-api/label-format'
+
+type WorkflowInput = {
+  locationId: string
+}
+
+export type UnprintedLabelFulfillment = {
+  id: string
+  created_at: string
+  order_id: string | null
+  order_display_id: number | null
+  labels: {
+    tracking_number: string
+    parcel_type: string | null
+    format: DHLLabelFileFormat
+  }[]
+}
+
+type FulfillmentWithOrder = {
+  id: string
+  order?: { id: string; display_id?: number | null } | null
+}
+
+const PAGE_SIZE = 100
+
+/**
+ * Step to list the DHL fulfillments of a stock location with labels that haven't been printed.
+ *
+ * Unshipped, uncancelled DHL fulfillments with label files are listed, oldest first. Returns
+ * are left out because the customer prints their own label.
+ */
+const listUnprintedLabels = createStep(
+  'list-dhl-unprinted-labels',
+  async (
+    input: WorkflowInput,
+    { container },
+  ): Promise<StepResponse<UnprintedLabelFulfillment[]>> => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+
+    const result: UnprintedLabelFulfillment[] = []
+    for (let skip = 0; ; skip += PAGE_SIZE) {
+      const fulfillments = await fulfillmentService.listFulfillments(
+        {
+          provider_id: 'dhl',
+          location_id: input.locationId,
+          canceled_at: { $eq: null },
+          shipped_at: { $eq: null },
+        },
+        {
+          select: ['id', 'data', 'created_at'],
+          relations: ['labels'],
+          order: { created_at: 'ASC' },
+          take: PAGE_SIZE,
+          skip,
+        },
+      )
+
+      for (const fulfillment of fulfillments) {
+        const data = fulfillment.data ?? {}
+        const labels = (fulfillment.labels ?? []).filter((label) => label.label_url)
+        if (!labels.length || data.is_return || data.labels_printed_at) {
+          continue
+        }
+
+        const dataLabels = (Array.isArray(data.labels) ? data.labels : []) as DHLLabelData[]
+        result.push({
+          id: fulfillment.id,
+          created_at: new Date(fulfillment.created_at).toISOString(),
+          order_id: null,
+          order_display_id: null,
+          labels: labels.map((label) => {
+            const dataLabel = dataLabels.find((l) => l.trackingNumber === label.tracking_number)
+            return {
+              tracking_number: label.tracking_number,
+              parcel_type: dataLabel?.parcelType ?? null,
+              format: dataLabel?.format ?? 'pdf',
+            }
+          }),
+        })
+      }
+
+      if (fulfillments.length < PAGE_SIZE) {
+        break
+      }
+    }
+
+    if (result.length) {
+      const query = container.resolve('query') as {
+        graph: (args: {
+          entity: string
+          fields: string[]
+          filters: Record<string, unknown>
+        }) => Promise<{ data: FulfillmentWithOrder[] }>
+      }
+
+      const { data } = await query.graph({
+        entity: 'fulfillment',
+        fields: ['id', 'order.id', 'order.display_id'],
+        filters: { id: result.map((fulfillment) => fulfillment.id) },
+      })
+
+      for (const fulfillment of result) {
+        const order = data.find((f) => f.id === fulfillment.id)?.order
+        fulfillment.order_id = order?.id ?? null
+        fulfillment.order_display_id = order?.display_id ?? null
+      }
+    }
+
+    return new StepResponse(result)
+  },
+)
+
+/**
+ * Workflow to list the DHL labels of a stock location that still have to be printed.
+ */
+const getUnprintedLabelsWorkflow = createWorkflow(
+  'get-dhl-unprinted-labels',
+  (input: WorkflowInput): WorkflowResponse<UnprintedLabelFulfillment[]> => {
+    const fulfillments = listUnprintedLabels(input)
+    return new WorkflowResponse(fulfillments)
+  },
+)
+
+export default getUnprintedLabelsWorkflow
@@ -0,0 +1,69 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { IFulfillmentModuleService } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+
+type WorkflowInput = {
+  fulfillmentIds: string[]
+}
+
+type PreviousData = {
+  id: string
+  data: Record<string, unknown> | null
+}
+
+/**
+ * Step to store when the labels of the fulfillments were printed, so they aren't listed for
+ * printing again. The previous fulfillment data is restored when the workflow fails.
+ */
+const setLabelsPrinted = createStep(
+  'set-dhl-labels-printed',
+  async (
+    input: WorkflowInput,
+    { container },
+  ): Promise<StepResponse<{ printed: number }, PreviousData[]>> => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    const fulfillments = await fulfillmentService.listFulfillments(
+      { id: input.fulfillmentIds, provider_id: 'dhl' },
+      { select: ['id', 'data'] },
+    )
+
+    const printedAt = new Date().toISOString()
+    for (const fulfillment of fulfillments) {
+      await fulfillmentService.updateFulfillment(fulfillment.id, {
+        data: { ...(fulfillment.data ?? {}), labels_printed_at: printedAt },
+      })
+    }
+
+    return new StepResponse(
+      { printed: fulfillments.length },
+      fulfillments.map((fulfillment) => ({ id: fulfillment.id, data: fulfillment.data })),
+    )
+  },
+  async (previous, { container }) => {
+    if (!previous?.length) {
+      return
+    }
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    for (const fulfillment of previous) {
+      await fulfillmentService.updateFulfillment(fulfillment.id, { data: fulfillment.data ?? {} })
+    }
+  },
+)
+
+/**
+ * Workflow to mark a batch of DHL labels as printed.
+ */
+const markLabelsPrintedWorkflow = createWorkflow(
+  'mark-dhl-labels-printed',
+  (input: WorkflowInput): WorkflowResponse<{ printed: number }> => {
+    const result = setLabelsPrinted(input)
+    return new WorkflowResponse(result)
+  },
+)
+
+export default markLabelsPrintedWorkflow
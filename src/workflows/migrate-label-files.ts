@@ -0,0 +1,114 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { IFileModuleService, IFulfillmentModuleService } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { DHLLabelData, DHLShipmentResponse } from '../dhl-api/types'
+import { uploadLabelFiles } from './upload-label-files'
+
+type WorkflowInput = {
+  /**
+   * The number of fulfillments that are loaded at a time.
+   */
+  batchSize?: number
+}
+
+type WorkflowOutput = {
+  fulfillments: number
+  labels: number
+}
+
+const DEFAULT_BATCH_SIZE = 100
+
+const isFileUrl = (labelUrl: string) => /^https?:\/\//.test(labelUrl)
+
+/**
+ * Step to move the base64 labels of existing DHL fulfillments to the File module.
+ * Fulfillments whose labels are already files are skipped, so the step can be run again.
+ */
+const moveLabelsToFiles = createStep(
+  'move-dhl-labels-to-files',
+  async (input: WorkflowInput, { container }): Promise<StepResponse<WorkflowOutput>> => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    const fileService = container.resolve<IFileModuleService>(Modules.FILE)
+    const batchSize = Math.max(1, input.batchSize ?? DEFAULT_BATCH_SIZE)
+
+    const result: WorkflowOutput = { fulfillments: 0, labels: 0 }
+    for (let skip = 0; ; skip += batchSize) {
+      const fulfillments = await fulfillmentService.listFulfillments(
+        { provider_id: 'dhl' },
+        { select: ['id', 'data'], relations: ['labels'], take: batchSize, skip },
+      )
+
+      for (const fulfillment of fulfillments) {
+        const base64Labels = (fulfillment.labels ?? []).filter(
+          (label) => label.label_url && !isFileUrl(label.label_url),
+        )
+        if (!base64Labels.length) {
+          continue
+        }
+
+        const dataLabels = (fulfillment.data?.labels ?? []) as (
+          DHLShipmentResponse | DHLLabelData
+        )[]
+        const files = await uploadLabelFiles(
+          fileService,
+          base64Labels.map((label) => {
+            const dataLabel = dataLabels.find((l) => l.trackingNumber === label.tracking_number)
+            return {
+              ...dataLabel,
+              trackingNumber: label.tracking_number,
+              trackingUrl: label.tracking_url,
+              label: label.label_url,
+            }
+          }),
+        )
+
+        await fulfillmentService.updateFulfillment(fulfillment.id, {
+          labels: (fulfillment.labels ?? []).map((label) => {
+            const file = files.find((f) => f.trackingNumber === label.tracking_number)
+            return {
+              id: label.id,
+              tracking_number: label.tracking_number,
+              tracking_url: label.tracking_url,
+              label_url: file?.fileUrl ?? label.label_url,
+            }
+          }),
+          data: {
+            ...(fulfillment.data ?? {}),
+            labels: dataLabels.map(
+              (dataLabel) =>
+                files.find((f) => f.trackingNumber === dataLabel.trackingNumber) ?? dataLabel,
+            ),
+          },
+        })
+
+        result.fulfillments += 1
+        result.labels += files.length
+      }
+
+      if (fulfillments.length < batchSize) {
+        break
+      }
+    }
+
+    return new StepResponse(result)
+  },
+)
+
+/**
+ * One-off workflow that moves the base64 labels of DHL fulfillments created before labels
+ * were stored as files to the File module.
+ */
+const migrateLabelFilesWorkflow = createWorkflow(
+  'migrate-dhl-label-files',
+  (input: WorkflowInput): WorkflowResponse<WorkflowOutput> => {
+    const result = moveLabelsToFiles(input)
+    return new WorkflowResponse(result)
+  },
+)
+
+export default migrateLabelFilesWorkflow
@@ -0,0 +1,159 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { IFileModuleService, IFulfillmentModuleService, Logger } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { getMergedLabels } from '../dhl-api/get-merged-labels'
+import { DHLLabelFileFormat, DHLLabelPageSize } from '../dhl-api/label-format'
+import { DHLLabelData, DHLShipmentResponse } from '../dhl-api/types'
+
+type WorkflowInput<T extends object> = T & {
+  /**
+   * The stock location that ships the fulfillments. Its DHL account created the labels.
+   */
+  locationId: string
+  fulfillmentIds: string[]
+  pageSize: DHLLabelPageSize
+  token: string
+  baseUrl: string
+  debug?: boolean
+  _logger?: Logger
+}
+
+type PrintLabel = {
+  trackingNumber: string
+  format: DHLLabelFileFormat
+  fileId?: string
+  /**
+   * The base64 label of fulfillments created before labels were stored as files.
+   */
+  label?: string
+}
+
+export type PrintJob = {
+  format: DHLLabelFileFormat
+  /**
+   * The merged labels, base64 encoded.
+   */
+  content: string
+  labels: number
+}
+
+/**
+ * Step to collect the labels of the fulfillments, in the order the fulfillments were selected.
+ */
+const fetchPrintLabels = createStep(
+  'print-dhl-labels--fetch-labels',
+  async (
+    input: WorkflowInput<object>,
+    { container },
+  ): Promise<StepResponse<{ labels: PrintLabel[] }>> => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    const fulfillments = await fulfillmentService.listFulfillments(
+      { id: input.fulfillmentIds },
+      {
+        select: ['id', 'provider_id', 'location_id', 'canceled_at', 'data'],
+        relations: ['labels'],
+      },
+    )
+
+    const labels: PrintLabel[] = []
+    for (const fulfillmentId of input.fulfillmentIds) {
+      const fulfillment = fulfillments.find((f) => f.id === fulfillmentId)
+      if (!fulfillment || fulfillment.provider_id !== 'dhl') {
+        throw new Error(`Fulfillment ${fulfillmentId} is not a DHL fulfillment`)
+      }
+      if (fulfillment.location_id !== input.locationId) {
+        throw new Error(
+          `Fulfillment ${fulfillmentId} doesn't ship from stock location ${input.locationId}`,
+        )
+      }
+      if (fulfillment.canceled_at) {
+        throw new Error(`Fulfillment ${fulfillmentId} has been canceled`)
+      }
+
+      const dataLabels = (
+        Array.isArray(fulfillment.data?.labels) ? fulfillment.data.labels : []
+      ) as Partial<DHLLabelData & DHLShipmentResponse>[]
+      const fulfillmentLabels = (fulfillment.labels ?? []).filter((label) => label.label_url)
+      if (!fulfillmentLabels.length) {
+        throw new Error(`Fulfillment ${fulfillmentId} has no DHL labels`)
+      }
+
+      for (const label of fulfillmentLabels) {
+        const dataLabel = dataLabels.find((l) => l.trackingNumber === label.tracking_number)
+        labels.push({
+          trackingNumber: label.tracking_number,
+          format: dataLabel?.format ?? 'pdf',
+          fileId: dataLabel?.fileId,
+          label: dataLabel?.fileId ? undefined : (dataLabel?.label ?? label.label_url),
+        })
+      }
+    }
+
+    return new StepResponse({ labels })
+  },
+)
+
+/**
+ * Step to merge the labels into one print job.
+ * PDF labels are merged by DHL, ZPL labels are plain printer commands that are joined here.
+ */
+const mergeLabels = createStep(
+  'print-dhl-labels--merge-labels',
+  async (
+    input: WorkflowInput<{ labels: PrintLabel[] }>,
+    { container },
+  ): Promise<StepResponse<PrintJob>> => {
+    const formats = new Set(input.labels.map((label) => label.format))
+    if (formats.size > 1) {
+      throw new Error('The selected labels have different formats; print PDF and ZPL labels apart')
+    }
+
+    const [format] = formats
+    if (format === 'zpl') {
+      const fileService = container.resolve<IFileModuleService>(Modules.FILE)
+      const contents: Buffer[] = []
+      for (const label of input.labels) {
+        contents.push(
+          label.fileId
+            ? await fileService.getAsBuffer(label.fileId)
+            : Buffer.from(label.label ?? '', 'base64'),
+        )
+      }
+      return new StepResponse({
+        format,
+        content: Buffer.concat(contents).toString('base64'),
+        labels: input.labels.length,
+      })
+    }
+
+    const content = await getMergedLabels(
+      input.baseUrl,
+      input.token,
+      input.labels.map((label) => label.trackingNumber),
+      input.pageSize,
+      input.debug ? input._logger : undefined,
+    )
+    return new StepResponse({ format: 'pdf', content, labels: input.labels.length })
+  },
+)
+
+/**
+ * Workflow to merge the DHL labels of many fulfillments into one print job.
+ */
+const printLabelsWorkflow = createWorkflow(
+  'print-dhl-labels',
+  (input: WorkflowInput<object>): WorkflowResponse<PrintJob> => {
+    const { labels } = fetchPrintLabels(input)
+
+    const printJob = mergeLabels({ ...input, labels })
+
+    return new WorkflowResponse(printJob)
+  },
+)
+
+export default printLabelsWorkflow
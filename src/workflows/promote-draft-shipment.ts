@@ -0,0 +1,201 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { FulfillmentDTO, IFulfillmentModuleService, Logger } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { promoteDraft } from '../dhl-api/promote-draft'
+import { getShipmentLabels } from '../dhl-api/get-shipment-labels'
+import { DHLDraftData, DHLLabelData, DHLShipmentResponse } from '../dhl-api/types'
+import { DHLLabelFormat } from '../dhl-api/label-format'
+import { uploadLabelFilesStep } from './upload-label-files'
+
+type WorkflowInput<T extends object> = T & {
+  fulfillmentId: string
+  token: string
+  baseUrl: string
+  /**
+   * The file format and page size of the labels of the stock location that ships.
+   */
+  labelFormat?: DHLLabelFormat
+  debug?: boolean
+  _logger?: Logger
+}
+
+/**
+ * Whether the draft of a fulfillment was promoted, but its labels weren't stored. Promoting
+ * it again downloads the labels of the existing shipment.
+ * @param data - The fulfillment data.
+ */
+export const hasPendingDraftLabels = (data?: Record<string, unknown> | null): boolean => {
+  const draft = data?.draft as DHLDraftData | undefined
+  const labels = data?.labels
+  return (
+    draft?.status === 'promoted' &&
+    !!draft.pieces?.length &&
+    !(Array.isArray(labels) && labels.length > 0)
+  )
+}
+
+/**
+ * Step to fetch the fulfillment and make sure it holds a DHL draft that can be promoted, or a
+ * promoted draft whose labels still have to be stored.
+ */
+const fetchDraftFulfillment = createStep(
+  'promote-dhl-draft--fetch-draft-fulfillment',
+  async (
+    input: WorkflowInput<object>,
+    { container },
+  ): Promise<StepResponse<{ fulfillment: FulfillmentDTO; draft: DHLDraftData }>> => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    const fulfillment = await fulfillmentService.retrieveFulfillment(input.fulfillmentId)
+
+    if (fulfillment.provider_id !== 'dhl') {
+      throw new Error(`Fulfillment ${fulfillment.id} is not a DHL fulfillment`)
+    }
+
+    if (fulfillment.canceled_at) {
+      throw new Error(`Fulfillment ${fulfillment.id} has been canceled`)
+    }
+
+    const draft = fulfillment.data?.draft as DHLDraftData | undefined
+    if (!draft?.id) {
+      throw new Error(`Fulfillment ${fulfillment.id} has no DHL draft`)
+    }
+
+    if (draft.status === 'promoted' && !hasPendingDraftLabels(fulfillment.data)) {
+      throw new Error(`DHL draft ${draft.id} has already been promoted`)
+    }
+
+    return new StepResponse({ fulfillment, draft })
+  },
+)
+
+/**
+ * Step to promote the DHL draft to a shipment. A draft that was promoted before keeps its
+ * shipment, as DHL has deleted the draft.
+ */
+const promoteDhlDraft = createStep(
+  'promote-dhl-draft--promote-draft',
+  async (input: WorkflowInput<{ draft: DHLDraftData }>): Promise<StepResponse<DHLDraftData>> => {
+    if (input.draft.status === 'promoted') {
+      return new StepResponse(input.draft)
+    }
+
+    const { shipmentId, pieces } = await promoteDraft(
+      input.baseUrl,
+      input.token,
+      input.draft.id,
+      input.debug ? input._logger : undefined,
+    )
+
+    return new StepResponse({
+      ...input.draft,
+      status: 'promoted',
+      promoted_at: new Date().toISOString(),
+      shipment_id: shipmentId,
+      pieces,
+    })
+  },
+)
+
+/**
+ * Step to save the promoted draft with its shipment and tracker codes on the fulfillment,
+ * before the labels are downloaded. It isn't undone when a later step fails, because the
+ * draft no longer exists at DHL; a retry downloads the labels of the saved shipment.
+ */
+const savePromotedDraft = createStep(
+  'promote-dhl-draft--save-promoted-draft',
+  async (input: { fulfillmentId: string; draft: DHLDraftData }, { container }) => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    const fulfillment = await fulfillmentService.retrieveFulfillment(input.fulfillmentId, {
+      select: ['id', 'data'],
+    })
+    await fulfillmentService.updateFulfillment(fulfillment.id, {
+      data: { ...(fulfillment.data ?? {}), draft: input.draft },
+    })
+
+    return new StepResponse(input.draft)
+  },
+)
+
+/**
+ * Step to download the labels of the promoted shipment.
+ */
+const downloadPromotedLabels = createStep(
+  'promote-dhl-draft--download-labels',
+  async (
+    input: WorkflowInput<{ draft: DHLDraftData }>,
+  ): Promise<StepResponse<DHLShipmentResponse[]>> => {
+    const labels = await getShipmentLabels(
+      input.baseUrl,
+      input.token,
+      input.draft.pieces ?? [],
+      input.labelFormat,
+      input.debug ? input._logger : undefined,
+    )
+
+    return new StepResponse(labels)
+  },
+)
+
+/**
+ * Step to store the labels on the fulfillment.
+ */
+const updatePromotedFulfillment = createStep(
+  'promote-dhl-draft--update-fulfillment',
+  async (
+    input: { fulfillmentId: string; labels: DHLLabelData[] },
+    { container },
+  ): Promise<StepResponse<{ labels: number }>> => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    const fulfillment = await fulfillmentService.retrieveFulfillment(input.fulfillmentId, {
+      select: ['id', 'data'],
+    })
+    await fulfillmentService.updateFulfillment(fulfillment.id, {
+      labels: input.labels.map((label) => ({
+        tracking_url: label.trackingUrl,
+        label_url: label.fileUrl,
+        tracking_number: label.trackingNumber,
+      })),
+      data: {
+        ...(fulfillment.data ?? {}),
+        labels: input.labels,
+      },
+    })
+
+    return new StepResponse({ labels: input.labels.length })
+  },
+)
+
+/**
+ * Workflow to promote a DHL draft to a real shipment with labels.
+ *
+ * The promoted shipment is saved before its labels are downloaded, so a failing download or
+ * upload can be retried by running the workflow again.
+ */
+const promoteDraftShipmentWorkflow = createWorkflow(
+  'promote-dhl-draft-shipment',
+  (input: WorkflowInput<object>): WorkflowResponse<{ labels: number }> => {
+    const { draft } = fetchDraftFulfillment(input)
+
+    const promotedDraft = promoteDhlDraft({ ...input, draft })
+
+    const savedDraft = savePromotedDraft({
+      fulfillmentId: input.fulfillmentId,
+      draft: promotedDraft,
+    })
+
+    const downloadedLabels = downloadPromotedLabels({ ...input, draft: savedDraft })
+
+    const labels = uploadLabelFilesStep({ labels: downloadedLabels })
+
+    const result = updatePromotedFulfillment({ fulfillmentId: input.fulfillmentId, labels })
+
+    return new WorkflowResponse(result)
+  },
+)
+
+export default promoteDraftShipmentWorkflow
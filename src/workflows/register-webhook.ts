@@ -0,0 +1,135 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  transform,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { Logger } from '@medusajs/framework/types'
+import { randomBytes } from 'crypto'
+import { DHL_SETTINGS_MODULE } from '../modules/setting'
+import DHLSettingsModuleService, { DHLWebhookApiKey } from '../modules/setting/service'
+import {
+  addPusherConfiguration,
+  DHL_PUSHER_API_KEY_HEADER,
+} from '../dhl-api/add-pusher-configuration'
+import { removePusherConfiguration } from '../dhl-api/remove-pusher-configuration'
+
+type WorkflowInput = {
+  name: string
+  /**
+   * The public URL of the webhook.
+   */
+  url: string
+  token: string
+  baseUrl: string
+  debug?: boolean
+  _logger?: Logger
+}
+
+export type RegisteredWebhook = {
+  id: string
+  name: string
+  url: string
+  api_key_header: string
+}
+
+type AddedConfiguration = {
+  id: string
+  apiKey: string
+  apiKeyHeader: string
+}
+
+type AddedConfigurationCompensation = {
+  id: string
+  token: string
+  baseUrl: string
+}
+
+/**
+ * Step to add the push configuration at DHL with a newly generated API key.
+ * The configuration is removed again when the workflow fails.
+ */
+const addConfiguration = createStep(
+  'add-dhl-pusher-configuration',
+  async (
+    input: WorkflowInput,
+  ): Promise<StepResponse<AddedConfiguration, AddedConfigurationCompensation>> => {
+    // 48 random bytes are 64 base64url characters, within the key length DHL accepts
+    const apiKey = randomBytes(48).toString('base64url')
+
+    const configuration = await addPusherConfiguration(
+      input.baseUrl,
+      input.token,
+      { name: input.name, url: input.url, apiKeyHeader: DHL_PUSHER_API_KEY_HEADER, apiKey },
+      input.debug ? input._logger : undefined,
+    )
+
+    return new StepResponse(
+      { id: configuration.id, apiKey, apiKeyHeader: DHL_PUSHER_API_KEY_HEADER },
+      { id: configuration.id, token: input.token, baseUrl: input.baseUrl },
+    )
+  },
+  async (added) => {
+    if (!added) {
+      return
+    }
+    await removePusherConfiguration(added.baseUrl, added.token, added.id)
+  },
+)
+
+/**
+ * Step to store the API key, so the webhook accepts the pushes of the new configuration.
+ * The previous API key is restored when the workflow fails.
+ */
+const saveWebhookApiKey = createStep(
+  'save-dhl-webhook-api-key',
+  async (
+    input: AddedConfiguration,
+    { container },
+  ): Promise<StepResponse<void, DHLWebhookApiKey>> => {
+    const dhlSettingService: DHLSettingsModuleService = container.resolve(DHL_SETTINGS_MODULE)
+    const previous = await dhlSettingService.updateWebhookApiKey(input.apiKey, input.apiKeyHeader)
+    if (!previous) {
+      throw new Error('DHL is not configured')
+    }
+    return new StepResponse(undefined, previous)
+  },
+  async (previous, { container }) => {
+    if (!previous) {
+      return
+    }
+    const dhlSettingService: DHLSettingsModuleService = container.resolve(DHL_SETTINGS_MODULE)
+    await dhlSettingService.updateWebhookApiKey(
+      previous.webhook_api_key,
+      previous.webhook_api_key_header,
+      previous.webhook_secondary_api_key,
+    )
+  },
+)
+
+/**
+ * Workflow to register the webhook with DHL's Track & Trace Pusher.
+ *
+ * The previous API key stays active as the secondary key, so the configuration registered
+ * before keeps working until it's deleted. Older keys stop being accepted.
+ */
+const registerWebhookWorkflow = createWorkflow(
+  'register-dhl-webhook',
+  (input: WorkflowInput): WorkflowResponse<RegisteredWebhook> => {
+    const configuration = addConfiguration(input)
+
+    saveWebhookApiKey(configuration)
+
+    return new WorkflowResponse(
+      transform({ input, configuration }, ({ input, configuration }) => ({
+        id: configuration.id,
+        name: input.name,
+        url: input.url,
+        api_key_header: configuration.apiKeyHeader,
+      })),
+    )
+  },
+)
+
+export default registerWebhookWorkflow
@@ -0,0 +1,209 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+import { IFulfillmentModuleService, Logger } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import {
+  DHL_INTERVENTION_OPTION_KEYS,
+  DHLInterventionType,
+  getInterventionOptions,
+} from '../dhl-api/get-intervention-options'
+import { getInterventionNeighbours } from '../dhl-api/get-intervention-neighbours'
+import { getInterventionTimeframes } from '../dhl-api/get-intervention-timeframes'
+import { getInterventionServicePoints } from '../dhl-api/get-intervention-service-points'
+import { DHLInterventionData, DHLNeighbourAddress } from '../dhl-api/types'
+
+export type DHLInterventionRequest = {
+  trackerCode: string
+  postalCode: string
+  type: DHLInterventionType
+  /**
+   * The neighbour to deliver to, one of the addresses of /intervention-options/details/neighbours.
+   */
+  neighbourAddress?: DHLNeighbourAddress
+  /**
+   * The new delivery timeframe, one of the timeframes of /intervention-options/details/timeframes.
+   */
+  timeframe?: { from: string; to: string }
+  /**
+   * The ServicePoint to redirect the parcel to, one of the ServicePoints of
+   * /intervention-options/details/servicepoints.
+   */
+  servicePointId?: string
+}
+
+type WorkflowInput<T extends object> = T & {
+  fulfillmentId: string
+  intervention: DHLInterventionRequest
+  token: string
+  baseUrl: string
+  debug?: boolean
+  _logger?: Logger
+}
+
+type PreviousData = {
+  id: string
+  data: Record<string, unknown> | null
+}
+
+/**
+ * Step to check the intervention against what DHL currently offers for the parcel.
+ *
+ * The intervention has to be available, and the neighbour, timeframe or ServicePoint has to
+ * be one DHL returns for the parcel; otherwise the workflow fails.
+ */
+const checkIntervention = createStep(
+  'check-dhl-intervention',
+  async (input: WorkflowInput<object>): Promise<StepResponse<DHLInterventionData>> => {
+    const { intervention } = input
+    const logger = input.debug ? input._logger : undefined
+
+    const options = await getInterventionOptions(
+      input.baseUrl,
+      input.token,
+      intervention.trackerCode,
+      intervention.postalCode,
+      logger,
+    )
+
+    const parcelOptions =
+      options.interventionOptions?.[intervention.trackerCode] ?? options.aggregatedOptions
+    if (!parcelOptions?.[DHL_INTERVENTION_OPTION_KEYS[intervention.type]]?.available) {
+      throw new Error(`DHL doesn't offer this intervention for parcel ${intervention.trackerCode}`)
+    }
+
+    if (intervention.type === 'neighbour') {
+      const neighbour = intervention.neighbourAddress
+      if (!neighbour?.houseNumber) {
+        throw new Error('A neighbour address is required')
+      }
+      const neighbours = await getInterventionNeighbours(
+        input.baseUrl,
+        input.token,
+        intervention.trackerCode,
+        intervention.postalCode,
+        neighbour.houseNumber,
+        logger,
+      )
+      if (
+        !neighbours.some(
+          (address) =>
+            address.postalCode === neighbour.postalCode &&
+            address.houseNumber === neighbour.houseNumber &&
+            (address.houseNumberAddition ?? '') === (neighbour.houseNumberAddition ?? ''),
+        )
+      ) {
+        throw new Error('The neighbour is not one of the neighbours DHL offers for the parcel')
+      }
+    }
+
+    if (intervention.type === 'date_time') {
+      const timeframes = await getInterventionTimeframes(
+        input.baseUrl,
+        input.token,
+        intervention.trackerCode,
+        intervention.postalCode,
+        logger,
+      )
+      if (
+        !timeframes.some(
+          (timeframe) =>
+            timeframe.from === intervention.timeframe?.from &&
+            timeframe.to === intervention.timeframe?.to,
+        )
+      ) {
+        throw new Error('The timeframe is not one of the timeframes DHL offers for the parcel')
+      }
+    }
+
+    if (intervention.type === 'service_point') {
+      const servicePoints = await getInterventionServicePoints(
+        input.baseUrl,
+        input.token,
+        intervention.trackerCode,
+        intervention.postalCode,
+        logger,
+      )
+      if (
+        !servicePoints.some(
+          (servicePoint) => servicePoint.servicePointId === intervention.servicePointId,
+        )
+      ) {
+        throw new Error(
+          'The ServicePoint is not one of the ServicePoints DHL offers for the parcel',
+        )
+      }
+    }
+
+    return new StepResponse({
+      tracker_code: intervention.trackerCode,
+      type: intervention.type,
+      ...(intervention.type === 'neighbour'
+        ? { neighbour_address: intervention.neighbourAddress }
+        : {}),
+      ...(intervention.type === 'date_time' ? { timeframe: intervention.timeframe } : {}),
+      ...(intervention.type === 'service_point'
+        ? { service_point_id: intervention.servicePointId }
+        : {}),
+      requested_at: new Date().toISOString(),
+      status: 'requested',
+    })
+  },
+)
+
+/**
+ * Step to add the intervention to the fulfillment data, so support staff can see it in the
+ * admin. The previous fulfillment data is restored when the workflow fails.
+ */
+const recordIntervention = createStep(
+  'record-dhl-intervention',
+  async (
+    input: { fulfillmentId: string; intervention: DHLInterventionData },
+    { container },
+  ): Promise<StepResponse<DHLInterventionData, PreviousData>> => {
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    const fulfillment = await fulfillmentService.retrieveFulfillment(input.fulfillmentId, {
+      select: ['id', 'data'],
+    })
+
+    const data = fulfillment.data ?? {}
+    const interventions = (
+      Array.isArray(data.interventions) ? data.interventions : []
+    ) as DHLInterventionData[]
+    await fulfillmentService.updateFulfillment(fulfillment.id, {
+      data: { ...data, interventions: [...interventions, input.intervention] },
+    })
+
+    return new StepResponse(input.intervention, { id: fulfillment.id, data: fulfillment.data })
+  },
+  async (previous, { container }) => {
+    if (!previous) {
+      return
+    }
+    const fulfillmentService = container.resolve<IFulfillmentModuleService>(Modules.FULFILLMENT)
+    await fulfillmentService.updateFulfillment(previous.id, { data: previous.data ?? {} })
+  },
+)
+
+/**
+ * Workflow to record a customer's delivery intervention request for a DHL parcel.
+ *
+ * DHL's API only lists the intervention options; it has no endpoint to submit an
+ * intervention. The checked request is recorded on the fulfillment, so support staff can
+ * carry it out with DHL.
+ */
+const requestInterventionWorkflow = createWorkflow(
+  'request-dhl-intervention',
+  (input: WorkflowInput<object>): WorkflowResponse<DHLInterventionData> => {
+    const intervention = checkIntervention(input)
+
+    const recorded = recordIntervention({ fulfillmentId: input.fulfillmentId, intervention })
+
+    return new WorkflowResponse(recorded)
+  },
+)
+
+export default requestInterventionWorkflow
@@ -0,0 +1,39 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+
+import { DHL_SETTINGS_MODULE } from '../modules/setting'
+import { DHLAccountInput, SetupAccountsInput } from '../api/admin/dhl/accounts/route'
+import DHLSettingsModuleService from '../modules/setting/service'
+
+/**
+ * Save the DHL accounts in the database
+ * @param input The complete list of accounts.
+ * @returns The saved accounts.
+ */
+const saveAccounts = createStep(
+  'save-dhl-accounts',
+  async (input: SetupAccountsInput, { container }): Promise<StepResponse<DHLAccountInput[]>> => {
+    const dhlSettingService: DHLSettingsModuleService = container.resolve(DHL_SETTINGS_MODULE)
+    const result = await dhlSettingService.updateAccounts(input.accounts)
+    return new StepResponse(result)
+  },
+)
+
+/**
+ * Sets up the DHL accounts and their stock locations.
+ * @param input The complete list of accounts.
+ * @returns The saved accounts.
+ */
+const setupAccountsWorkflow = createWorkflow(
+  'setup-dhl-accounts',
+  (input: SetupAccountsInput): WorkflowResponse<DHLAccountInput[]> => {
+    const accounts = saveAccounts(input)
+    return new WorkflowResponse(accounts)
+  },
+)
+
+export default setupAccountsWorkflow
@@ -0,0 +1,45 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+
+import { DHL_SETTINGS_MODULE } from '../modules/setting'
+import {
+  DHLLocationLabelFormatInput,
+  SetupLabelFormatsInput,
+} from '../api/admin/dhl/label-formats/route'
+import DHLSettingsModuleService from '../modules/setting/service'
+
+/**
+ * Save the label formats of the stock locations in the database
+ * @param input The complete list of label formats.
+ * @returns The saved label formats.
+ */
+const saveLabelFormats = createStep(
+  'save-dhl-label-formats',
+  async (
+    input: SetupLabelFormatsInput,
+    { container },
+  ): Promise<StepResponse<DHLLocationLabelFormatInput[]>> => {
+    const dhlSettingService: DHLSettingsModuleService = container.resolve(DHL_SETTINGS_MODULE)
+    const result = await dhlSettingService.updateLocationLabelFormats(input.label_formats)
+    return new StepResponse(result)
+  },
+)
+
+/**
+ * Sets up the label formats of the stock locations.
+ * @param input The complete list of label formats.
+ * @returns The saved label formats.
+ */
+const setupLabelFormatsWorkflow = createWorkflow(
+  'setup-dhl-label-formats',
+  (input: SetupLabelFormatsInput): WorkflowResponse<DHLLocationLabelFormatInput[]> => {
+    const labelFormats = saveLabelFormats(input)
+    return new WorkflowResponse(labelFormats)
+  },
+)
+
+export default setupLabelFormatsWorkflow
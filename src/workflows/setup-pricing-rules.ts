@@ -0,0 +1,42 @@
+import {
+  createStep,
+  createWorkflow,
+  StepResponse,
+  WorkflowResponse,
+} from '@medusajs/framework/workflows-sdk'
+
+import { DHL_SETTINGS_MODULE } from '../modules/setting'
+import { DHLPricingRuleInput, SetupPricingRulesInput } from '../api/admin/dhl/pricing-rules/route'
+import DHLSettingsModuleService from '../modules/setting/service'
+
+/**
+ * Save the DHL pricing rules in the database
+ * @param input The complete list of pricing rules.
+ * @returns The saved pricing rules.
+ */
+const savePricingRules = createStep(
+  'save-dhl-pricing-rules',
+  async (
+    input: SetupPricingRulesInput,
+    { container },
+  ): Promise<StepResponse<DHLPricingRuleInput[]>> => {
+    const dhlSettingService: DHLSettingsModuleService = container.resolve(DHL_SETTINGS_MODULE)
+    const result = await dhlSettingService.updatePricingRules(input.rules)
+    return new StepResponse(result)
+  },
+)
+
+/**
+ * Sets up the pricing rules applied to DHL rates.
+ * @param input The complete list of pricing rules.
+ * @returns The saved pricing rules.
+ */
+const setupPricingRulesWorkflow = createWorkflow(
+  'setup-dhl-pricing-rules',
+  (input: SetupPricingRulesInput): WorkflowResponse<DHLPricingRuleInput[]> => {
+    const rules = savePricingRules(input)
+    return new WorkflowResponse(rules)
+  },
+)
+
+export default setupPricingRulesWorkflow
@@ -7,9 +7,13 @@ import {
   WorkflowData,
 } from '@medusajs/framework/workflows-sdk'
 import { FulfillmentDTO, Logger } from '@medusajs/framework/types'
+import { ContainerRegistrationKeys, Modules } from '@medusajs/framework/utils'
 import { DHLShipmentStatusEvent, DHLShipmentStatusResponse } from '../dhl-api/types'
 import { markOrderFulfillmentAsDeliveredWorkflow } from '@medusajs/medusa/core-flows'
 import { updateFulfillmentWorkflow } from '@medusajs/medusa/core-flows'
+import { DHL_TRACKING_MODULE } from '../modules/tracking'
+import DHLTrackingModuleService, { DHLTrackingEventInput } from '../modules/tracking/service'
+import { getDeliveryInstructions } from '../utils/order-reference'
 
 type WorkflowInput<T extends object> = T & {
   fulfillments: FulfillmentDTO[]
@@ -18,9 +22,15 @@ type WorkflowInput<T extends object> = T & {
   _logger?: Logger
 }
 
+type RecordedTrackingEvent = {
+  fulfillmentId: string
+  eventId: string
+}
+
 type FulfillmentWithOrder = {
   id: string
-  order?: { id: string } | null
+  data?: Record<string, unknown> | null
+  order?: { id: string; metadata?: Record<string, unknown> | null } | null
 }
 
 const updateFulfillmentByTrackingCode = createStep(
@@ -87,12 +97,100 @@ const updateFulfillmentByTrackingCode = createStep(
   },
 )
 
+/**
+ * Step to store every DHL tracking event of the fulfillments' parcels, linked to the
+ * fulfillment. Events that were stored before are skipped, so the webhook and the sync can
+ * both deliver the same event. The stored events are removed again when the workflow fails.
+ */
+const recordTrackingEvents = createStep(
+  'update-fulfillment-status--record-tracking-events',
+  async (
+    input: WorkflowInput<object>,
+    { container },
+  ): Promise<StepResponse<{ recorded: number }, RecordedTrackingEvent[]>> => {
+    const fulfillmentIdByTrackerCode = new Map<string, string>()
+    for (const fulfillment of input.fulfillments) {
+      for (const label of fulfillment.labels) {
+        fulfillmentIdByTrackerCode.set(label.tracking_number, fulfillment.id)
+      }
+    }
+
+    const events: DHLTrackingEventInput[] = []
+    for (const shipmentStatus of input.shipmentStatuses) {
+      const trackerCodes = [shipmentStatus.barcode, ...(shipmentStatus.barcodes ?? [])].filter(
+        (trackerCode): trackerCode is string =>
+          !!trackerCode && fulfillmentIdByTrackerCode.has(trackerCode),
+      )
+      for (const event of shipmentStatus.events ?? []) {
+        const timestamp = event.timestamp ? new Date(event.timestamp) : undefined
+        if (!event.status || !timestamp || Number.isNaN(timestamp.getTime())) {
+          continue
+        }
+        for (const trackerCode of new Set(trackerCodes)) {
+          events.push({
+            tracker_code: trackerCode,
+            status: event.status,
+            category: event.category ?? null,
+            type: event.type ?? null,
+            timestamp,
+            raw: event as Record<string, unknown>,
+          })
+        }
+      }
+    }
+
+    const trackingService: DHLTrackingModuleService = container.resolve(DHL_TRACKING_MODULE)
+    const created = await trackingService.recordTrackingEvents(events)
+    const recorded = created.map((event) => ({
+      fulfillmentId: fulfillmentIdByTrackerCode.get(event.tracker_code) as string,
+      eventId: event.id,
+    }))
+
+    if (recorded.length) {
+      const link = container.resolve(ContainerRegistrationKeys.LINK)
+      await link.create(
+        recorded.map(({ fulfillmentId, eventId }) => ({
+          [Modules.FULFILLMENT]: { fulfillment_id: fulfillmentId },
+          [DHL_TRACKING_MODULE]: { dhl_tracking_event_id: eventId },
+        })),
+      )
+      input._logger?.debug(`Recorded ${recorded.length} new DHL tracking event(s)`)
+    }
+
+    return new StepResponse({ recorded: recorded.length }, recorded)
+  },
+  async (recorded, { container }) => {
+    if (!recorded?.length) {
+      return
+    }
+    const link = container.resolve(ContainerRegistrationKeys.LINK)
+    await link.dismiss(
+      recorded.map(({ fulfillmentId, eventId }) => ({
+        [Modules.FULFILLMENT]: { fulfillment_id: fulfillmentId },
+        [DHL_TRACKING_MODULE]: { dhl_tracking_event_id: eventId },
+      })),
+    )
+    const trackingService: DHLTrackingModuleService = container.resolve(DHL_TRACKING_MODULE)
+    await trackingService.deleteDHLTrackingEvents(recorded.map(({ eventId }) => eventId))
+  },
+)
+
+/**
+ * Step to fetch the order of each fulfillment, and the fulfillment data as it's stored, so
+ * updates to the data don't depend on what the caller loaded.
+ */
 const fetchOrderIdsForFulfillments = createStep(
   'update-fulfillment-status--fetch-order-ids-for-fulfillments',
   async (
     input: WorkflowInput<object>,
     { container },
-  ): Promise<StepResponse<{ fulfillmentIdToOrderId: Map<string, string> }>> => {
+  ): Promise<
+    StepResponse<{
+      fulfillmentIdToOrderId: Map<string, string>
+      fulfillmentIdToData: Map<string, Record<string, unknown>>
+      fulfillmentIdToDeliveryInstructions: Map<string, string | undefined>
+    }>
+  > => {
     const fulfillmentIds = input.fulfillments.map((f) => f.id)
 
     const query = container.resolve('query') as {
@@ -105,21 +203,32 @@ const fetchOrderIdsForFulfillments = createStep(
 
     const { data } = await query.graph({
       entity: 'fulfillment',
-      fields: ['id', 'order.id'],
+      fields: ['id', 'data', 'order.id', 'order.metadata'],
       filters: {
         id: fulfillmentIds,
       },
     })
 
     const fulfillmentIdToOrderId = new Map<string, string>()
+    const fulfillmentIdToData = new Map<string, Record<string, unknown>>()
+    const fulfillmentIdToDeliveryInstructions = new Map<string, string | undefined>()
     for (const fulfillment of data) {
+      fulfillmentIdToData.set(fulfillment.id, fulfillment.data ?? {})
       const orderId = fulfillment.order?.id
       if (orderId) {
         fulfillmentIdToOrderId.set(fulfillment.id, orderId)
+        fulfillmentIdToDeliveryInstructions.set(
+          fulfillment.id,
+          getDeliveryInstructions(fulfillment.order?.metadata),
+        )
       }
     }
 
-    return new StepResponse({ fulfillmentIdToOrderId })
+    return new StepResponse({
+      fulfillmentIdToOrderId,
+      fulfillmentIdToData,
+      fulfillmentIdToDeliveryInstructions,
+    })
   },
 )
 
@@ -132,13 +241,31 @@ const updateFulfillmentStatus = createStep(
         { shipped: Date | undefined; delivered: Date | undefined }
       >
       fulfillmentIdToOrderId: Map<string, string>
+      fulfillmentIdToData: Map<string, Record<string, unknown>>
+      fulfillmentIdToDeliveryInstructions: Map<string, string | undefined>
     }>,
     { container },
   ): Promise<StepResponse<{ fulfillments: FulfillmentDTO[] }>> => {
+    // The order reference DHL has for each tracker code
+    const referenceByTrackerCode = new Map<string, string>()
+    for (const shipmentStatus of input.shipmentStatuses) {
+      if (!shipmentStatus.reference) {
+        continue
+      }
+      for (const trackerCode of [shipmentStatus.barcode, ...(shipmentStatus.barcodes ?? [])]) {
+        if (trackerCode) {
+          referenceByTrackerCode.set(trackerCode, shipmentStatus.reference)
+        }
+      }
+    }
+
     for (const fulfillment of input.fulfillments) {
       let deliveredAt: Date | undefined
       let shippedAt: Date | undefined
+      let reference: string | undefined
       for (const label of fulfillment.labels) {
+        reference = referenceByTrackerCode.get(label.tracking_number) ?? reference
+
         const trackingCodeWithLatestStatus = input.trackingCodeWithLatestStatus.get(
           label.tracking_number,
         )
@@ -153,11 +280,34 @@ const updateFulfillmentStatus = createStep(
         }
       }
 
-      if (shippedAt) {
+      // Keep the reference DHL knows the parcel by and the customer's current delivery
+      // instructions on the fulfillment, so both can be searched, also for shipments whose
+      // reference was changed at DHL. Returns don't have delivery instructions.
+      const data = input.fulfillmentIdToData.get(fulfillment.id) ?? fulfillment.data ?? {}
+      const deliveryInstructions = data.is_return
+        ? undefined
+        : input.fulfillmentIdToDeliveryInstructions.get(fulfillment.id)
+      const referenceChanged = !!reference && reference !== data.order_reference
+      const instructionsChanged =
+        input.fulfillmentIdToOrderId.has(fulfillment.id) &&
+        deliveryInstructions !== data.delivery_instructions
+
+      if (shippedAt || referenceChanged || instructionsChanged) {
+        const updatedData: Record<string, unknown> = {
+          ...data,
+          ...(referenceChanged ? { order_reference: reference } : {}),
+        }
+        if (instructionsChanged && deliveryInstructions) {
+          updatedData.delivery_instructions = deliveryInstructions
+        } else if (instructionsChanged) {
+          delete updatedData.delivery_instructions
+        }
+
         await updateFulfillmentWorkflow(container).run({
           input: {
             id: fulfillment.id,
-            shipped_at: shippedAt,
+            ...(shippedAt ? { shipped_at: shippedAt } : {}),
+            ...(referenceChanged || instructionsChanged ? { data: updatedData } : {}),
           },
         })
       }
@@ -185,7 +335,8 @@ const updateFulfillmentStatus = createStep(
 )
 
 /**
- * Workflow to update Medusa fulfillment status based on DHL tracking events.
+ * Workflow to update Medusa fulfillment status based on DHL tracking events, and to keep the
+ * history of the events.
  */
 const updateFulfillmentStatusWorkflow = createWorkflow(
   'update-fulfillment-status',
@@ -201,12 +352,17 @@ const updateFulfillmentStatusWorkflow = createWorkflow(
       trackerCodes,
     })
 
-    const { fulfillmentIdToOrderId } = fetchOrderIdsForFulfillments(input)
+    recordTrackingEvents(input)
+
+    const { fulfillmentIdToOrderId, fulfillmentIdToData, fulfillmentIdToDeliveryInstructions } =
+      fetchOrderIdsForFulfillments(input)
 
     const { fulfillments } = updateFulfillmentStatus({
       ...input,
       trackingCodeWithLatestStatus,
       fulfillmentIdToOrderId,
+      fulfillmentIdToData,
+      fulfillmentIdToDeliveryInstructions,
     })
 
     return new WorkflowResponse({
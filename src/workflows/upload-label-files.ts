@@ -0,0 +1,72 @@
+import { createStep, StepResponse } from '@medusajs/framework/workflows-sdk'
+import { IFileModuleService } from '@medusajs/framework/types'
+import { Modules } from '@medusajs/framework/utils'
+import { DHLLabelData, DHLShipmentResponse } from '../dhl-api/types'
+import { DHL_LABEL_CONTENT_TYPES } from '../dhl-api/label-format'
+
+/**
+ * Uploads base64 labels to Medusa's File module.
+ * Labels contain the addresses of customers, so the files are private. Their URL can't be
+ * opened with every file provider, so the admin downloads them through
+ * `GET /admin/dhl/fulfillments/:id/labels/:tracking_number`.
+ * @param fileService The File module service.
+ * @param labels The labels with their base64 content.
+ * @returns The label metadata with the file ID and URL instead of the content.
+ */
+export const uploadLabelFiles = async (
+  fileService: IFileModuleService,
+  labels: DHLShipmentResponse[],
+): Promise<DHLLabelData[]> => {
+  if (!labels.length) {
+    return []
+  }
+
+  const files = await fileService.createFiles(
+    labels.map((label) => {
+      const format = label.format ?? 'pdf'
+      return {
+        filename: `dhl-label-${label.trackingNumber || label.pieceNumber || 'piece'}.${format}`,
+        mimeType: DHL_LABEL_CONTENT_TYPES[format],
+        content: label.label,
+        access: 'private' as const,
+      }
+    }),
+  )
+
+  return labels.map((label, index) => ({
+    trackingNumber: label.trackingNumber,
+    trackingUrl: label.trackingUrl,
+    parcelType: label.parcelType,
+    pieceNumber: label.pieceNumber,
+    format: label.format,
+    pageSize: label.pageSize,
+    fileId: files[index].id,
+    fileUrl: files[index].url,
+  }))
+}
+
+/**
+ * Step to upload the labels of a new shipment to the File module.
+ * The files are deleted again when a later step of the workflow fails.
+ */
+export const uploadLabelFilesStep = createStep(
+  'upload-dhl-label-files',
+  async (
+    input: { labels: DHLShipmentResponse[] },
+    { container },
+  ): Promise<StepResponse<DHLLabelData[], string[]>> => {
+    const fileService = container.resolve<IFileModuleService>(Modules.FILE)
+    const labels = await uploadLabelFiles(fileService, input.labels)
+    return new StepResponse(
+      labels,
+      labels.map((label) => label.fileId),
+    )
+  },
+  async (fileIds, { container }) => {
+    if (!fileIds?.length) {
+      return
+    }
+    const fileService = container.resolve<IFileModuleService>(Modules.FILE)
+    await fileService.deleteFiles(fileIds)
+  },
+)